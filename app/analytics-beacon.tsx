@@ -0,0 +1,10 @@
+"use client";
+
+import { useAnalytics } from "@/hooks/useAnalytics";
+
+// The only client-side part of the server-rendered home page: tracks the
+// visit against the variant the server already picked.
+export function AnalyticsBeacon({ variantId }: { variantId: string }) {
+  useAnalytics(variantId);
+  return null;
+}
@@ -1,13 +1,20 @@
 import { NextResponse } from "next/server";
-import { db } from "@/lib/firebase";
-import { doc, getDoc } from "firebase/firestore";
-import type { LandingPageSpec } from "../landing-agent/route";
+import { getLiveLanding } from "@/lib/experiments";
+import { resolveSiteId } from "@/lib/sites";
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
-    const snap = await getDoc(doc(db, "settings", "landingPage"));
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const landing = await getLiveLanding(siteId);
 
-    if (!snap.exists()) {
+    if (!landing) {
       return NextResponse.json({
         ok: true,
         spec: null,
@@ -15,20 +22,15 @@ export async function GET() {
       });
     }
 
-    const data = snap.data() as {
-      slug: string;
-      spec: LandingPageSpec;
-    };
-
     return NextResponse.json({
       ok: true,
-      slug: data.slug,
-      spec: data.spec,
+      slug: landing.slug,
+      spec: landing.spec,
     });
-  } catch (e: any) {
+  } catch (e) {
     console.error("active-landing error:", e);
     return NextResponse.json(
-      { ok: false, error: e.message ?? "Unknown error" },
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
       { status: 500 }
     );
   }
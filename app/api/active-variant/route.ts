@@ -1,19 +1,25 @@
 import { NextResponse } from "next/server";
-import { db } from "@/lib/firebase";
-import { collection, query, where, limit, getDocs } from "firebase/firestore";
+import { authorize } from "@/lib/auth";
+import {
+  clearLiveVariant,
+  getLiveVariant,
+  pickHero,
+} from "@/lib/experiments";
+import { resolveSiteId } from "@/lib/sites";
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
-    // Fetch `live` variant
-    const q = query(
-      collection(db, "variants"),
-      where("status", "==", "live"),
-      limit(1)
-    );
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
 
-    const snap = await getDocs(q);
+    const variant = await getLiveVariant(siteId);
 
-    if (snap.empty) {
+    if (!variant) {
       return NextResponse.json({
         ok: true,
         variant: null,
@@ -21,16 +27,42 @@ export async function GET() {
       });
     }
 
-    const doc = snap.docs[0];
     return NextResponse.json({
       ok: true,
-      id: doc.id,
-      variant: doc.data(),
+      id: variant.id,
+      variant: pickHero(variant),
     });
-  } catch (e: any) {
+  } catch (e) {
     console.error("active-variant error:", e);
     return NextResponse.json(
-      { ok: false, error: e.message ?? "Unknown error" },
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE — archive the live variant so built-in arms show the default copy
+export async function DELETE(req: Request) {
+  const auth = await authorize(req, "approver");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const archived = await clearLiveVariant(siteId, {
+      by: auth.operator.email,
+    });
+    return NextResponse.json({ ok: true, archived });
+  } catch (e) {
+    console.error("active-variant clear error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
       { status: 500 }
     );
   }
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { HOME_EXPERIMENT_ID } from "@/lib/assignment";
+import { migrateToExperiments } from "@/lib/migrate";
+import { isDocId } from "@/lib/sites";
+
+// POST { experimentId? } — copy legacy live-content docs onto experiments/{id}.
+// Idempotent; admins only.
+export async function POST(req: Request) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const experimentId: unknown = body.experimentId || HOME_EXPERIMENT_ID;
+    // ends up in Firestore paths
+    if (!isDocId(experimentId)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid experimentId" },
+        { status: 400 }
+      );
+    }
+
+    const report = await migrateToExperiments(experimentId);
+    return NextResponse.json({ ok: true, report });
+  } catch (e) {
+    console.error("migrate error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
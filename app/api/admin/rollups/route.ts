@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { rebuildRollups } from "@/lib/rollups";
+import { resolveSiteId } from "@/lib/sites";
+
+// POST { siteId?, from: "YYYY-MM-DD" } — rebuild session and daily rollups
+// from raw events on and after `from`, e.g. to backfill events stored before
+// rollups existed. Admins only: rollups from `from` on are deleted first.
+export async function POST(req: Request) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+    if (
+      typeof body.from !== "string" ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(body.from)
+    ) {
+      return NextResponse.json(
+        { ok: false, error: "from must be a YYYY-MM-DD day" },
+        { status: 400 }
+      );
+    }
+
+    const report = await rebuildRollups(siteId, body.from);
+    return NextResponse.json({ ok: true, report });
+  } catch (e) {
+    console.error("rollups rebuild error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
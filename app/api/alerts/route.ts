@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { acknowledgeAlert, listAlerts } from "@/lib/alerts";
+import { authorize } from "@/lib/auth";
+import { resolveSiteId } from "@/lib/sites";
+
+// GET ?siteId=&open=1 → recent alerts, newest first (open=1: unacknowledged only)
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const openOnly = new URL(req.url).searchParams.get("open") === "1";
+    const alerts = await listAlerts(siteId, { openOnly });
+    return NextResponse.json({ ok: true, alerts });
+  } catch (e) {
+    console.error("alerts read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId?, id } — acknowledges an alert
+export async function POST(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    if (typeof body.id !== "string" || !body.id) {
+      return NextResponse.json(
+        { ok: false, error: "Missing id" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await acknowledgeAlert(siteId, body.id, auth.operator.email))) {
+      return NextResponse.json(
+        { ok: false, error: `Alert ${body.id} not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ ok: true, id: body.id });
+  } catch (e) {
+    console.error("alerts update error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,114 @@
 import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { siteCorsHeaders } from "@/lib/cors";
+import { loadRecentEvents } from "@/lib/event-store";
+import { parseAnalyticsBatch } from "@/lib/events";
+import { ingestEvents } from "@/lib/rollups";
+import { resolveSiteId } from "@/lib/sites";
+import { parseUserAgent, withTraffic } from "@/lib/traffic";
 
-type AnalyticsEvent = {
-  sessionId: string;
-  eventType: string;
-  payload: Record<string, unknown>;
-  ts: string;
-  variantId?: string;
-};
+export async function POST(request: Request) {
+  // sendBeacon posts as text/plain, so parse the raw body ourselves.
+  let body: unknown;
+  try {
+    body = JSON.parse(await request.text());
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
 
-const events: AnalyticsEvent[] = [];
+  // { siteId, events } or ?siteId= picks the site; bare arrays go to the default
+  const siteId = await resolveSiteId(
+    request,
+    body && typeof body === "object" && !Array.isArray(body)
+      ? (body as { siteId?: unknown })
+      : null
+  );
+  if (!siteId) {
+    return NextResponse.json(
+      { ok: false, error: "Unknown site" },
+      { status: 404 }
+    );
+  }
 
-export async function POST(request: Request) {
-  const body = (await request.json()) as AnalyticsEvent;
+  // the embed snippet posts here from the site's own domain
+  const headers = await siteCorsHeaders(request, siteId);
+  if (!headers) {
+    return NextResponse.json(
+      { ok: false, error: "Origin not allowed for this site" },
+      { status: 403 }
+    );
+  }
+
+  const parsed = parseAnalyticsBatch(body);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { ok: false, error: parsed.error },
+      { status: 400, headers }
+    );
+  }
+
+  try {
+    // pageviews get their source and the browser/device from the headers
+    const client = parseUserAgent(request.headers);
+    const events = parsed.events.map((e) => withTraffic(e, client));
+
+    // stored together with the session and daily rollups they feed
+    const ids = await ingestEvents(siteId, events);
+    return NextResponse.json({ ok: true, count: ids.length }, { headers });
+  } catch (e) {
+    console.error("analytics write error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+const MAX_READ_LIMIT = 500;
+
+// GET ?siteId=&limit=100 → the most recent events, newest first
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(request);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
 
-  events.push(body);
-  console.log("[Analytics event]", body);
+    const requested = Number(new URL(request.url).searchParams.get("limit"));
+    const max =
+      Number.isInteger(requested) && requested > 0
+        ? Math.min(requested, MAX_READ_LIMIT)
+        : 100;
 
-  return NextResponse.json({ ok: true });
+    const events = await loadRecentEvents(siteId, max);
+    return NextResponse.json({
+      ok: true,
+      count: events.length,
+      events,
+    });
+  } catch (e) {
+    console.error("analytics read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
 }
 
-export async function GET() {
-  return NextResponse.json({
-    count: events.length,
-    events
+export async function OPTIONS(request: Request) {
+  const siteId = await resolveSiteId(request);
+  const headers = siteId ? await siteCorsHeaders(request, siteId) : null;
+  return new NextResponse(null, {
+    status: headers ? 204 : 403,
+    headers: headers ?? {},
   });
 }
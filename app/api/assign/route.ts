@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import {
+  HOME_EXPERIMENT_ID,
+  isBuiltInArm,
+  validateArms,
+} from "@/lib/assignment";
+import {
+  getVariant,
+  resolveVisitorContent,
+  updateExperiment,
+} from "@/lib/experiments";
+import { isPromotable } from "@/lib/review";
+import { isDocId, resolveSiteId } from "@/lib/sites";
+
+// GET /api/assign?visitorId=...&experimentId=home&siteId=default
+// → { variantId, hero, landing }: everything the page needs to render
+export async function GET(req: Request) {
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const visitorId = searchParams.get("visitorId");
+    const experimentId =
+      searchParams.get("experimentId") || HOME_EXPERIMENT_ID;
+
+    if (!visitorId) {
+      return NextResponse.json(
+        { ok: false, error: "Missing visitorId" },
+        { status: 400 }
+      );
+    }
+    // both end up in Firestore paths
+    if (!isDocId(visitorId) || !isDocId(experimentId)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid visitorId or experimentId" },
+        { status: 400 }
+      );
+    }
+
+    const content = await resolveVisitorContent(
+      siteId,
+      visitorId,
+      experimentId
+    );
+
+    return NextResponse.json({ ok: true, ...content });
+  } catch (e) {
+    console.error("assign error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId?, experimentId?, arms: [{ variantId, weight }] } — replaces the weights
+export async function POST(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const experimentId: unknown = body.experimentId || HOME_EXPERIMENT_ID;
+    if (!isDocId(experimentId)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid experimentId" },
+        { status: 400 }
+      );
+    }
+    const arms = validateArms(body.arms);
+
+    if (!arms) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error:
+            "arms must be a non-empty list of unique { variantId, weight } with valid variant IDs and at least one positive weight",
+        },
+        { status: 400 }
+      );
+    }
+
+    // only reviewed copy may receive traffic
+    for (const arm of arms) {
+      if (isBuiltInArm(arm.variantId)) continue;
+      const variant = await getVariant(siteId, arm.variantId);
+      if (!variant) {
+        return NextResponse.json(
+          { ok: false, error: `Variant ${arm.variantId} not found` },
+          { status: 404 }
+        );
+      }
+      if (!isPromotable(variant.status)) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: `Variant ${arm.variantId} must be approved before it receives traffic (status: ${variant.status})`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const allocation = await updateExperiment(siteId, experimentId, { arms });
+    return NextResponse.json({ ok: true, allocation });
+  } catch (e) {
+    console.error("assign update error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
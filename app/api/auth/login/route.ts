@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import {
+  checkCredentials,
+  clearLoginFailures,
+  loginRetryAfter,
+  loginThrottle,
+  normalizeEmail,
+  recordLoginFailure,
+  withSession,
+} from "@/lib/auth";
+
+// POST { email, password } → sets the session cookie; 429 after too many
+// failed attempts for the email or from the client's IP
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const email = normalizeEmail(body.email);
+    const password = typeof body.password === "string" ? body.password : "";
+
+    const throttle = loginThrottle(req, email);
+    const retryAfter = await loginRetryAfter(throttle);
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        { ok: false, error: "Too many failed sign-ins, try again later" },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    const operator =
+      email && password ? await checkCredentials(email, password) : null;
+
+    if (!operator) {
+      await recordLoginFailure(throttle);
+      return NextResponse.json(
+        { ok: false, error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    await clearLoginFailures(operator.email);
+    return withSession(NextResponse.json({ ok: true, operator }), operator);
+  } catch (e) {
+    console.error("login error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
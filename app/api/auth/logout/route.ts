@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { sessionCookie } from "@/lib/session";
+
+export async function POST() {
+  const response = NextResponse.json({ ok: true });
+  response.headers.append("Set-Cookie", sessionCookie(null));
+  return response;
+}
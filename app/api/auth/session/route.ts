@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { currentOperator, hasAnyOperator } from "@/lib/auth";
+
+// GET → { operator | null, setupRequired } — setupRequired until the first
+// admin has been created through /api/auth/setup
+export async function GET(req: Request) {
+  try {
+    const operator = await currentOperator(req);
+    const setupRequired = operator ? false : !(await hasAnyOperator());
+    return NextResponse.json({ ok: true, operator, setupRequired });
+  } catch (e) {
+    console.error("session error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import {
+  createFirstAdmin,
+  hasAnyOperator,
+  MIN_PASSWORD_LENGTH,
+  normalizeEmail,
+  withSession,
+} from "@/lib/auth";
+
+// POST { email, name?, password } — creates the first admin and signs them
+// in. Closed for good once any operator exists.
+export async function POST(req: Request) {
+  const completed = () =>
+    NextResponse.json(
+      { ok: false, error: "Setup has already been completed" },
+      { status: 409 }
+    );
+
+  try {
+    if (await hasAnyOperator()) return completed();
+
+    const body = await req.json();
+    const email = normalizeEmail(body.email);
+    if (!email) {
+      return NextResponse.json(
+        { ok: false, error: "A valid email is required" },
+        { status: 400 }
+      );
+    }
+    if (
+      typeof body.password !== "string" ||
+      body.password.length < MIN_PASSWORD_LENGTH
+    ) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // re-checked atomically: another setup may have won the race
+    const operator = await createFirstAdmin(email, {
+      name: typeof body.name === "string" ? body.name.trim() : undefined,
+      password: body.password,
+    });
+    if (!operator) return completed();
+
+    return withSession(NextResponse.json({ ok: true, operator }), operator);
+  } catch (e) {
+    console.error("setup error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,72 @@
 import { NextResponse } from "next/server";
-import { db } from "@/lib/firebase";
-import { doc, updateDoc } from "firebase/firestore";
+import { authorize } from "@/lib/auth";
+import {
+  loadAgentSettings,
+  loadRecentRuns,
+  parseGuardrails,
+  saveAgentSettings,
+  type AgentSettings,
+} from "@/lib/autopilot";
+import { resolveSiteId } from "@/lib/sites";
 
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const [settings, runs] = await Promise.all([
+      loadAgentSettings(siteId),
+      loadRecentRuns(siteId),
+    ]);
+    return NextResponse.json({ ok: true, ...settings, runs });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId?, autoMode?, guardrails? }
 export async function POST(req: Request) {
+  const auth = await authorize(req, "approver");
+  if (!auth.ok) return auth.response;
+
   try {
-    const { autoMode } = await req.json();
+    const body = await req.json();
+    const { autoMode, guardrails } = body;
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const patch: Partial<AgentSettings> = {};
+    if (typeof autoMode === "boolean") patch.autoMode = autoMode;
+    if (guardrails !== undefined) {
+      const current = await loadAgentSettings(siteId);
+      patch.guardrails = parseGuardrails({
+        ...current.guardrails,
+        ...guardrails,
+      });
+    }
 
-    const ref = doc(db, "settings", "agent");
-    await updateDoc(ref, { autoMode });
+    await saveAgentSettings(siteId, patch);
 
-    return NextResponse.json({ ok: true, autoMode });
-  } catch (e: any) {
+    return NextResponse.json({ ok: true, ...patch });
+  } catch (e) {
     return NextResponse.json(
-      { ok: false, error: e.message },
+      { ok: false, error: (e as Error).message },
       { status: 500 }
     );
   }
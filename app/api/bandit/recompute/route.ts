@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { HOME_EXPERIMENT_ID } from "@/lib/assignment";
+import { recomputeAllocation } from "@/lib/bandit";
+import { isAuthorizedCron } from "@/lib/cron";
+import { isDocId, listSites, resolveSiteId } from "@/lib/sites";
+
+// Scheduled: Vercel Cron hits GET; each site's home experiment is skipped
+// unless its recompute is due.
+export async function GET(req: Request) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json(
+      { ok: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const results = [];
+    for (const site of await listSites()) {
+      try {
+        const entry = await recomputeAllocation(site.id, HOME_EXPERIMENT_ID);
+        results.push({ siteId: site.id, recomputed: entry !== null, entry });
+      } catch (e) {
+        // one broken site must not stop the others
+        console.error(`bandit recompute error (${site.id}):`, e);
+        results.push({
+          siteId: site.id,
+          recomputed: false,
+          error: (e as Error).message ?? "Unknown error",
+        });
+      }
+    }
+    return NextResponse.json({ ok: true, sites: results });
+  } catch (e) {
+    console.error("bandit recompute error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Manual: POST { siteId?, experimentId? } recomputes immediately.
+export async function POST(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const experimentId: unknown = body.experimentId || HOME_EXPERIMENT_ID;
+    if (!isDocId(experimentId)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid experimentId" },
+        { status: 400 }
+      );
+    }
+
+    const entry = await recomputeAllocation(siteId, experimentId, {
+      force: true,
+    });
+    if (!entry) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error:
+            "Experiment uses a fixed split, or its weights are pinned by a running test",
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, recomputed: true, entry });
+  } catch (e) {
+    console.error("bandit recompute error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
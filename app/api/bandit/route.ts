@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import {
+  DEFAULT_EPSILON,
+  HOME_EXPERIMENT_ID,
+  isAllocationMode,
+} from "@/lib/assignment";
+import {
+  getExperiment,
+  listWeightHistory,
+  updateExperiment,
+} from "@/lib/experiments";
+import { isDocId, resolveSiteId } from "@/lib/sites";
+
+// GET /api/bandit?experimentId=home&siteId=default → current allocation + weight history
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const experimentId =
+      searchParams.get("experimentId") || HOME_EXPERIMENT_ID;
+    if (!isDocId(experimentId)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid experimentId" },
+        { status: 400 }
+      );
+    }
+
+    const [allocation, history] = await Promise.all([
+      getExperiment(siteId, experimentId),
+      listWeightHistory(siteId, experimentId),
+    ]);
+
+    return NextResponse.json({ ok: true, allocation, history });
+  } catch (e) {
+    console.error("bandit read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId?, experimentId?, mode, epsilon? } — switch allocation mode
+export async function POST(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const experimentId: unknown = body.experimentId || HOME_EXPERIMENT_ID;
+    if (!isDocId(experimentId)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid experimentId" },
+        { status: 400 }
+      );
+    }
+
+    if (!isAllocationMode(body.mode)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "mode must be fixed, thompson or epsilon-greedy",
+        },
+        { status: 400 }
+      );
+    }
+
+    const epsilon =
+      body.epsilon === undefined ? DEFAULT_EPSILON : Number(body.epsilon);
+    if (!Number.isFinite(epsilon) || epsilon < 0 || epsilon > 1) {
+      return NextResponse.json(
+        { ok: false, error: "epsilon must be between 0 and 1" },
+        { status: 400 }
+      );
+    }
+
+    const allocation = await updateExperiment(siteId, experimentId, {
+      mode: body.mode,
+      epsilon,
+      // force the next scheduled run to recompute under the new mode
+      lastRecomputedAt: null,
+    });
+
+    return NextResponse.json({ ok: true, allocation });
+  } catch (e) {
+    console.error("bandit mode error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
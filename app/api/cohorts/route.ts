@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { ALL_SEGMENT } from "@/lib/rollups";
+import { queryCohorts } from "@/lib/segments";
+import { resolveSiteId } from "@/lib/sites";
+
+const DEFAULT_WEEKS = 8;
+const MAX_WEEKS = 26;
+
+// GET /api/cohorts?siteId=&weeks=8&segment=saved:{id}
+// → weekly cohorts by first visit, newest first, with the share of each
+//   cohort that came back in each following week; `truncated` when the
+//   weeks had more sessions than could be read
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const weeks = Number(searchParams.get("weeks") ?? DEFAULT_WEEKS);
+    if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_WEEKS) {
+      return NextResponse.json(
+        { ok: false, error: `weeks must be between 1 and ${MAX_WEEKS}` },
+        { status: 400 }
+      );
+    }
+    const segment = searchParams.get("segment") || ALL_SEGMENT;
+
+    const result = await queryCohorts(siteId, { weeks, segment });
+    if (!result) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown segment" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ ok: true, weeks, segment, ...result });
+  } catch (e) {
+    console.error("cohorts error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
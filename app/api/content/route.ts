@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { HOME_EXPERIMENT_ID } from "@/lib/assignment";
+import { siteCorsHeaders } from "@/lib/cors";
+import { resolveVisitorContent } from "@/lib/experiments";
+import { isDocId, resolveSiteId } from "@/lib/sites";
+
+// GET /api/content?siteId=acme&visitorId=...&experimentId=home
+// → { variantId, hero } for the embed snippet to swap into an external page.
+// `hero` is null for the built-in arms: the page keeps its own copy.
+export async function GET(req: Request) {
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const headers = await siteCorsHeaders(req, siteId);
+    if (!headers) {
+      return NextResponse.json(
+        { ok: false, error: "Origin not allowed for this site" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const visitorId = searchParams.get("visitorId");
+    const experimentId =
+      searchParams.get("experimentId") || HOME_EXPERIMENT_ID;
+
+    if (!visitorId) {
+      return NextResponse.json(
+        { ok: false, error: "Missing visitorId" },
+        { status: 400, headers }
+      );
+    }
+    // both end up in Firestore paths
+    if (!isDocId(visitorId) || !isDocId(experimentId)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid visitorId or experimentId" },
+        { status: 400, headers }
+      );
+    }
+
+    const { variantId, hero } = await resolveVisitorContent(
+      siteId,
+      visitorId,
+      experimentId
+    );
+
+    return NextResponse.json(
+      { ok: true, experimentId, variantId, hero },
+      // a visitor's arm is sticky, but a promotion can change its copy
+      { headers: { ...headers, "Cache-Control": "no-store" } }
+    );
+  } catch (e) {
+    console.error("content error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function OPTIONS(req: Request) {
+  const siteId = await resolveSiteId(req);
+  const headers = siteId ? await siteCorsHeaders(req, siteId) : null;
+  return new NextResponse(null, {
+    status: headers ? 204 : 403,
+    headers: headers ?? {},
+  });
+}
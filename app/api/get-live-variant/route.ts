@@ -1,18 +1,31 @@
 import { NextResponse } from "next/server";
-import { db } from "@/lib/firebase";
-import { doc, getDoc } from "firebase/firestore";
+import { getLiveVariant, pickHero } from "@/lib/experiments";
+import { resolveSiteId } from "@/lib/sites";
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
-    const ref = doc(db, "settings", "liveVariant");
-    const snap = await getDoc(ref);
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const variant = await getLiveVariant(siteId);
 
-    if (!snap.exists()) {
+    if (!variant) {
       return NextResponse.json({ ok: true, variant: null });
     }
 
-    return NextResponse.json({ ok: true, variant: snap.data() });
-  } catch (e: any) {
-    return NextResponse.json({ ok: false, error: e.message }, { status: 500 });
+    return NextResponse.json({
+      ok: true,
+      variant: { variantId: variant.id, ...pickHero(variant) },
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message },
+      { status: 500 }
+    );
   }
 }
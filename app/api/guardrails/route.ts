@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import {
+  listGuardrailChecks,
+  loadGuardrailSettings,
+  parseGuardrailSettings,
+  saveGuardrailSettings,
+} from "@/lib/guardrails";
+import { resolveSiteId } from "@/lib/sites";
+
+// GET ?siteId= → guardrail settings + latest checks
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const [settings, checks] = await Promise.all([
+      loadGuardrailSettings(siteId),
+      listGuardrailChecks(siteId),
+    ]);
+    return NextResponse.json({ ok: true, settings, checks });
+  } catch (e) {
+    console.error("guardrails read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId?, enabled?, windowHours?, minSessions?, thresholds? } — merged
+// into the current settings; out-of-range values fall back to the defaults
+export async function POST(req: Request) {
+  const auth = await authorize(req, "approver");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const current = await loadGuardrailSettings(siteId);
+    const settings = parseGuardrailSettings({
+      ...current,
+      ...body,
+      thresholds: { ...current.thresholds, ...body.thresholds },
+    });
+    await saveGuardrailSettings(siteId, settings);
+
+    return NextResponse.json({ ok: true, settings });
+  } catch (e) {
+    console.error("guardrails update error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
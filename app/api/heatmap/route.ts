@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { loadEventsOfTypeSince } from "@/lib/event-store";
+import { clickedPages, computeHeatmap, isDeviceClass } from "@/lib/heatmap";
+import { resolveSiteId } from "@/lib/sites";
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 90;
+const MAX_CLICKS = 10000;
+
+// GET /api/heatmap?siteId=&path=/&variantId=&device=mobile&days=7
+// → pages with clicks in the window plus the heatmap of `path` (default: the
+//   most clicked page), optionally for one variant and device class
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const device = searchParams.get("device") || undefined;
+    if (device !== undefined && !isDeviceClass(device)) {
+      return NextResponse.json(
+        { ok: false, error: "device must be mobile, tablet or desktop" },
+        { status: 400 }
+      );
+    }
+    const days = Number(searchParams.get("days") ?? DEFAULT_DAYS);
+    if (!Number.isFinite(days) || days <= 0 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { ok: false, error: `days must be between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const since = new Date(Date.now() - days * 86_400_000).toISOString();
+    const events = await loadEventsOfTypeSince(
+      siteId,
+      "click",
+      since,
+      MAX_CLICKS
+    );
+
+    const pages = clickedPages(events);
+    const path = searchParams.get("path") || pages[0]?.path;
+    const heatmap = path
+      ? computeHeatmap(events, {
+          path,
+          variantId: searchParams.get("variantId") || undefined,
+          device,
+        })
+      : null;
+
+    return NextResponse.json({
+      ok: true,
+      since,
+      truncated: events.length >= MAX_CLICKS,
+      pages,
+      heatmap,
+    });
+  } catch (e) {
+    console.error("heatmap read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
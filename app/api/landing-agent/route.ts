@@ -1,74 +1,29 @@
 import { NextResponse } from "next/server";
-import { db } from "@/lib/firebase";
+import { authorize } from "@/lib/auth";
 import {
-  collection,
-  getDocs,
-  limit,
-  orderBy,
-  query,
-} from "firebase/firestore";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-type AnalyticsEvent = {
-  sessionId: string;
-  eventType: string;
-  payload: Record<string, any>;
-  ts: string;
-  variantId?: string;
-};
-
-type VariantStats = {
-  variantId: string;
-  avgScroll: number;
-  clicks: number;
-};
-
-export type LandingPageSpec = {
-  hero: {
-    title: string;
-    subtitle: string;
-    primaryCta: string;
-    secondaryCta: string;
-    badge: string;
-    strip: string;
-  };
-  system: {
-    currentVariantLabel: string;
-    dataSourceLabel: string;
-    agentLabel: string;
-    description: string;
-  };
-  pillars: {
-    label: string;
-    title: string;
-    body: string;
-  }[];
-  stackPoints: string[];
-  editCards: {
-    title: string;
-    body: string;
-  }[];
-};
-
-function parseJson(text: string) {
-  let clean = text.trim();
-  clean = clean
-    .replace(/^```json/i, "")
-    .replace(/^```/i, "")
-    .replace(/```$/i, "")
-    .trim();
-  return JSON.parse(clean);
-}
+  generateJson,
+  getAiProvider,
+  NO_PROVIDER_MESSAGE,
+  type AiProviderName,
+} from "@/lib/ai";
+import { rankVariants, type VariantStats } from "@/lib/aggregate";
+import type { LandingPageSpec } from "@/lib/experiments";
+import { renderPrompt, type PromptRef } from "@/lib/prompts";
+import { queryVariantStats } from "@/lib/rollups";
+import { landingPageSpecSchema } from "@/lib/schemas";
+import { resolveSiteId } from "@/lib/sites";
 
 function buildFallbackSpec(stats: VariantStats[]): LandingPageSpec {
-  const winner = stats.sort(
-    (a, b) =>
-      b.avgScroll + 8 * b.clicks - (a.avgScroll + 8 * a.clicks)
-  )[0] || {
-    variantId: "A",
-    avgScroll: 50,
-    clicks: 5,
-  };
+  const winner: Pick<VariantStats, "variantId" | "avgScroll" | "conversionRate"> =
+    rankVariants(stats)[0] ?? {
+      variantId: "A",
+      avgScroll: 50,
+      conversionRate: null,
+    };
+  const conversion =
+    winner.conversionRate !== null
+      ? `${(winner.conversionRate * 100).toFixed(1)}%`
+      : "–";
 
   return {
     hero: {
@@ -78,9 +33,9 @@ function buildFallbackSpec(stats: VariantStats[]): LandingPageSpec {
       primaryCta: "View live dashboard",
       secondaryCta: "See how it works",
       badge: "Self-evolving website agent",
-      strip: `Based on variant ${winner.variantId} · Scroll ${winner.avgScroll.toFixed(
-        1
-      )}% · Clicks ${winner.clicks}`,
+      strip: `Based on variant ${winner.variantId} · Conversion ${conversion} · Scroll ${(
+        winner.avgScroll ?? 0
+      ).toFixed(1)}%`,
     },
     system: {
       currentVariantLabel: `Variant ${winner.variantId}`,
@@ -133,126 +88,66 @@ function buildFallbackSpec(stats: VariantStats[]): LandingPageSpec {
   };
 }
 
-export async function POST() {
-  try {
-    const snap = await getDocs(
-      query(collection(db, "events"), orderBy("ts", "desc"), limit(500))
-    );
-    const events: AnalyticsEvent[] = snap.docs.map((d) => d.data() as any);
+// POST { siteId? }
+export async function POST(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
 
-    if (events.length === 0) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
       return NextResponse.json(
-        { ok: false, error: "Not enough events yet." },
-        { status: 400 }
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
       );
     }
 
-    const byVariant: Record<
-      string,
-      { scrolls: number[]; clicks: number; count: number }
-    > = {};
+    const stats: VariantStats[] = await queryVariantStats(siteId);
 
-    for (const e of events) {
-      const vId = e.variantId || "unknown";
-      if (!byVariant[vId]) {
-        byVariant[vId] = { scrolls: [], clicks: 0, count: 0 };
-      }
-      if (e.eventType === "scroll") {
-        const val = Number(e.payload.scrollPercent ?? 0);
-        if (!Number.isNaN(val)) byVariant[vId].scrolls.push(val);
-      }
-      if (e.eventType === "click") {
-        byVariant[vId].clicks += 1;
-      }
-      byVariant[vId].count += 1;
+    if (stats.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: "Not enough events yet." },
+        { status: 400 }
+      );
     }
 
-    const stats: VariantStats[] = Object.entries(byVariant).map(
-      ([variantId, agg]) => {
-        const avgScroll =
-          agg.scrolls.length > 0
-            ? agg.scrolls.reduce((a, b) => a + b, 0) / agg.scrolls.length
-            : 0;
-        return {
-          variantId,
-          avgScroll,
-          clicks: agg.clicks,
-        };
-      }
-    );
-
-    const apiKey = process.env.GEMINI_API_KEY;
+    const provider = getAiProvider();
     let spec: LandingPageSpec;
-    let aiUsed: "gemini" | "fallback" = "fallback";
+    let aiUsed: AiProviderName | "fallback" = "fallback";
     let aiError: string | undefined;
+    let prompt: PromptRef | null = null;
 
-    if (apiKey) {
+    if (provider) {
       try {
-        const genAI = new GoogleGenerativeAI(apiKey);
-        const model = genAI.getGenerativeModel({
-          model: "gemini-2.5-flash",
+        const rendered = await renderPrompt(siteId, "landing-spec", {
+          stats,
         });
 
-        const prompt = `
-You are designing the full textual content for a SaaS landing page called "cMindX", an AI agent that rewrites websites based on live behaviour analytics.
-
-You are given aggregated A/B test stats:
-
-${JSON.stringify(stats, null, 2)}
-
-Use these patterns:
-- If a variant has high scroll + high clicks, assume its narrative is strong.
-- If a variant has high clicks but lower scroll, assume the hero is clear and fast to understand.
-- Use that intuition to create a new Build C page spec.
-
-Return ONLY JSON (no markdown fences) matching EXACTLY this TypeScript type:
-
-{
-  "hero": {
-    "title": string,
-    "subtitle": string,
-    "primaryCta": string,
-    "secondaryCta": string,
-    "badge": string,
-    "strip": string
-  },
-  "system": {
-    "currentVariantLabel": string,
-    "dataSourceLabel": string,
-    "agentLabel": string,
-    "description": string
-  },
-  "pillars": {
-    "label": string,
-    "title": string,
-    "body": string
-  }[],
-  "stackPoints": string[],
-  "editCards": {
-    "title": string,
-    "body": string
-  }[]
-}
-
-Important style constraints:
-- Keep text concise, product-focused and non-cringe.
-- The tone should feel like a mix of Vercel / Linear / Apple: clear, calm, confident.
-- Use British spelling for "optimisation" / "behaviour".
-`;
+        const result = await generateJson(provider, {
+          task: "landing-spec",
+          prompt: rendered.prompt,
+          schema: landingPageSpecSchema,
+        });
 
-        const result = await model.generateContent(prompt);
-        const text = result.response.text();
-        const parsed = parseJson(text);
-        spec = parsed as LandingPageSpec;
-        aiUsed = "gemini";
-      } catch (err: any) {
-        console.error("landing-agent gemini error:", err);
+        if (result.ok) {
+          spec = result.value;
+          aiUsed = provider.name;
+          prompt = rendered.ref;
+        } else {
+          spec = buildFallbackSpec(stats);
+          aiError = `${provider.name} output failed validation after ${result.attempts} attempts: ${result.errors
+            .slice(0, 3)
+            .join("; ")}`;
+        }
+      } catch (err) {
+        console.error(`landing-agent ${provider.name} error:`, err);
         spec = buildFallbackSpec(stats);
-        aiError = String(err?.message || "Gemini error");
+        aiError = String((err as Error)?.message || "AI call failed");
       }
     } else {
       spec = buildFallbackSpec(stats);
-      aiError = "Missing GEMINI_API_KEY";
+      aiError = NO_PROVIDER_MESSAGE;
     }
 
     return NextResponse.json({
@@ -261,6 +156,7 @@ Important style constraints:
       spec,
       aiUsed,
       aiError,
+      prompt,
     });
   } catch (e: any) {
     console.error("landing-agent route error:", e);
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { listLandingBuilds, saveLandingBuild } from "@/lib/experiments";
+import { isPromptRef } from "@/lib/prompts";
+import { isReviewStatus } from "@/lib/review";
+import { landingPageSpecSchema, validate } from "@/lib/schemas";
+import { resolveSiteId } from "@/lib/sites";
+
+// GET ?siteId=&status=in_review → landing builds, newest first
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const status = new URL(req.url).searchParams.get("status");
+    if (status !== null && !isReviewStatus(status)) {
+      return NextResponse.json(
+        { ok: false, error: `Unknown status "${status}"` },
+        { status: 400 }
+      );
+    }
+
+    const builds = await listLandingBuilds(siteId, {
+      status: status ?? undefined,
+    });
+    return NextResponse.json({ ok: true, builds });
+  } catch (e) {
+    console.error("landing builds read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId?, spec, slug?, source?, prompt? } — saves a draft build;
+// submit it via /api/landing-builds/{slug}/review, promote via
+// /api/promote-landing once approved.
+export async function POST(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    if (!body.spec) {
+      return NextResponse.json(
+        { ok: false, error: "Missing spec" },
+        { status: 400 }
+      );
+    }
+
+    const checked = validate(landingPageSpecSchema, body.spec);
+    if (!checked.ok) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid spec", details: checked.errors },
+        { status: 400 }
+      );
+    }
+
+    const slug: string =
+      body.slug ||
+      `landing-build-${Math.floor(Date.now() / 1000).toString()}`;
+
+    const build = await saveLandingBuild(siteId, slug, {
+      spec: checked.value,
+      source: body.source || "agent",
+      author: auth.operator.email,
+      prompt: isPromptRef(body.prompt) ? body.prompt : undefined,
+    });
+
+    return NextResponse.json({ ok: true, slug, build });
+  } catch (e) {
+    console.error("landing builds create error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
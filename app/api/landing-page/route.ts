@@ -1,189 +1,146 @@
 import { NextResponse } from "next/server";
-import { db } from "@/lib/firebase";
+import { authorize } from "@/lib/auth";
+import { summarizeSessions } from "@/lib/aggregate";
+import { generateJson, getAiProvider, NO_PROVIDER_MESSAGE } from "@/lib/ai";
+import { renderPrompt } from "@/lib/prompts";
 import {
-  collection,
-  getDocs,
-  orderBy,
-  limit,
-  query,
-  doc,
-  setDoc,
-} from "firebase/firestore";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-type AnalyticsEvent = {
-  sessionId: string;
-  eventType: string;
-  payload: Record<string, unknown>;
-  ts: string;
-  variantId?: string;
-};
-
-type SessionStats = {
-  sessionId: string;
-  avgScroll: number | null;
-  clicks: number;
-};
-
-function parseJsonFromText(text: string) {
-  let raw = text.trim();
-  raw = raw.replace(/^```json/, "").replace(/^```/, "").replace(/```$/, "").trim();
-  return JSON.parse(raw);
-}
-
-export async function POST() {
+  buildPageSchema,
+  storedBuildPageSchema,
+  validate,
+} from "@/lib/schemas";
+import { loadSessionRollups } from "@/lib/rollups";
+import { isDocId, resolveSiteId, siteDoc } from "@/lib/sites";
+
+// GET ?slug=&siteId= → the stored page; public, /build/{slug} renders it
+export async function GET(req: Request) {
   try {
-    // 1) Load recent events
-    const eventsSnap = await getDocs(
-      query(
-        collection(db, "events"),
-        orderBy("ts", "desc"),
-        limit(500)
-      )
-    );
-
-    const events: AnalyticsEvent[] = eventsSnap.docs.map((d) => {
-      const data = d.data() as any;
-      return {
-        sessionId: data.sessionId ?? "unknown",
-        eventType: data.eventType ?? "unknown",
-        payload: (data.payload ?? {}) as Record<string, unknown>,
-        ts: data.ts ?? new Date().toISOString(),
-        variantId: data.variantId,
-      };
-    });
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
 
-    if (events.length === 0) {
+    const slug = new URL(req.url).searchParams.get("slug");
+    if (!isDocId(slug)) {
       return NextResponse.json(
-        { ok: false, error: "Not enough data to build a landing page yet." },
+        { ok: false, error: "Invalid slug" },
         { status: 400 }
       );
     }
 
-    // 2) Aggregate per session
-    const bySession: Record<string, SessionStats> = {};
-
-    for (const e of events) {
-      if (!bySession[e.sessionId]) {
-        bySession[e.sessionId] = {
-          sessionId: e.sessionId,
-          avgScroll: null,
-          clicks: 0,
-        };
-      }
-
-      if (e.eventType === "scroll") {
-        const value = e.payload.scrollPercent as number | undefined;
-        if (typeof value === "number") {
-          const s = bySession[e.sessionId];
-          if (s.avgScroll === null) {
-            s.avgScroll = value;
-          } else {
-            s.avgScroll = (s.avgScroll + value) / 2;
-          }
-        }
-      }
-
-      if (e.eventType === "click") {
-        bySession[e.sessionId].clicks += 1;
-      }
+    const data = (await siteDoc(siteId, "landingPages", slug).get()).data();
+    if (!data) {
+      return NextResponse.json(
+        { ok: false, error: "Not found" },
+        { status: 404 }
+      );
     }
 
-    const sessions = Object.values(bySession);
-    const count = sessions.length;
+    // older docs were saved unvalidated; only a missing headline is fatal
+    const checked = validate(storedBuildPageSchema, { ...data, slug });
+    if (!checked.ok) {
+      console.error("invalid landing page doc", checked.errors);
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "This landing page is malformed and can't be shown.",
+        },
+        { status: 422 }
+      );
+    }
 
-    const avgScrollAll =
-      sessions.filter((s) => s.avgScroll !== null).length > 0
-        ? sessions
-            .filter((s) => s.avgScroll !== null)
-            .reduce((sum, s) => sum + (s.avgScroll || 0), 0) /
-          sessions.filter((s) => s.avgScroll !== null).length
-        : null;
+    return NextResponse.json({ ok: true, page: checked.value });
+  } catch (e) {
+    console.error("landing-page read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
 
-    const avgClicksAll =
-      sessions.reduce((sum, s) => sum + s.clicks, 0) / count;
+// POST { siteId? }
+export async function POST(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
 
+  try {
+    const body = await req.json().catch(() => ({}));
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    // 1) Load the most recent sessions
+    const sessions = await loadSessionRollups(siteId, { max: 500 });
+
+    if (sessions.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: "Not enough data to build a landing page yet." },
+        { status: 400 }
+      );
+    }
+
+    // 2) Aggregate per session
+    const {
+      totalSessions,
+      avgScrollAll,
+      avgClicksAll,
+      avgDwellSeconds,
+      avgActiveSeconds,
+    } = summarizeSessions(sessions);
     const behaviourSummary = {
-      totalSessions: count,
+      totalSessions,
       avgScrollAll,
       avgClicksAll,
+      avgDwellSeconds,
+      avgActiveSeconds,
     };
 
-    // 3) Call Gemini to design a new landing page version
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+    // 3) Ask the AI provider to design a new landing page version
+    const provider = getAiProvider();
+    if (!provider) {
       return NextResponse.json(
-        { ok: false, error: "Missing GEMINI_API_KEY" },
+        { ok: false, error: NO_PROVIDER_MESSAGE },
         { status: 500 }
       );
     }
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.5-flash",
+    const rendered = await renderPrompt(siteId, "build-page", {
+      behaviourSummary,
     });
 
-    const prompt = `
-You are designing a new experimental landing page version for a product called cMindX.
-
-You get summary behaviour metrics from the current page:
-
-${JSON.stringify(behaviourSummary, null, 2)}
-
-Your job: create a *full landing page layout* (Build C / Build D style) that is more likely to convert.
-
-Return ONLY valid JSON with this shape, no markdown:
-
-{
-  "slug": "build-c",                     // URL-safe slug
-  "name": "Build C – higher intent",     // human name
-  "pageTitle": "cMindX — Build C",
-  "heroTitle": "Your best guess hero line",
-  "heroSubtitle": "1–2 sentence supporting copy tuned from the behaviour data.",
-  "primaryCta": "Primary CTA label",
-  "secondaryCta": "Secondary CTA label",
-  "sections": [
-    {
-      "type": "section",
-      "title": "Section title",
-      "body": "Short paragraph."
-    },
-    {
-      "type": "bullets",
-      "title": "What this version focuses on",
-      "items": ["Bullet 1", "Bullet 2", "Bullet 3"]
-    },
-    {
-      "type": "section",
-      "title": "How cMindX uses live analytics",
-      "body": "Explain in detail."
-    },
-    {
-      "type": "cta",
-      "title": "Ready to evolve your site?",
-      "body": "Short CTA-style paragraph."
-    }
-  ]
-}
-`;
-
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-    const landingPage = parseJsonFromText(text);
+    const result = await generateJson(provider, {
+      task: "build-page",
+      prompt: rendered.prompt,
+      schema: buildPageSchema,
+    });
 
-    if (!landingPage.slug) {
+    // Nothing is saved unless the page passed validation.
+    if (!result.ok) {
       return NextResponse.json(
-        { ok: false, error: "Model did not return a slug" },
-        { status: 500 }
+        {
+          ok: false,
+          error: `Model output failed validation after ${result.attempts} attempts`,
+          details: result.errors,
+        },
+        { status: 502 }
       );
     }
 
-    const slug: string = String(landingPage.slug);
-    const ref = doc(collection(db, "landingPages"), slug);
+    const landingPage = result.value;
+    const slug = landingPage.slug;
+    const ref = siteDoc(siteId, "landingPages", slug);
 
-    await setDoc(ref, {
+    await ref.set({
       ...landingPage,
       behaviourSummary,
+      prompt: rendered.ref,
       createdAt: new Date().toISOString(),
     });
 
@@ -191,6 +148,7 @@ Return ONLY valid JSON with this shape, no markdown:
       ok: true,
       slug,
       landingPage,
+      prompt: rendered.ref,
     });
   } catch (e: any) {
     console.error("landing-page error:", e);
@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import {
+  authorize,
+  deleteOperator,
+  isRole,
+  listOperators,
+  MIN_PASSWORD_LENGTH,
+  normalizeEmail,
+  saveOperator,
+} from "@/lib/auth";
+
+// GET → every operator (admin only)
+export async function GET(req: Request) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const operators = await listOperators();
+    return NextResponse.json({ ok: true, operators });
+  } catch (e) {
+    console.error("operators read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { email, name?, role?, password? } — invite an operator or change
+// their role/password. New operators need a password.
+export async function POST(req: Request) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+    const email = normalizeEmail(body.email);
+
+    if (!email) {
+      return NextResponse.json(
+        { ok: false, error: "A valid email is required" },
+        { status: 400 }
+      );
+    }
+    if (body.role !== undefined && !isRole(body.role)) {
+      return NextResponse.json(
+        { ok: false, error: "role must be viewer, editor, approver or admin" },
+        { status: 400 }
+      );
+    }
+    if (
+      body.password !== undefined &&
+      (typeof body.password !== "string" ||
+        body.password.length < MIN_PASSWORD_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+    // an admin demoting themselves could leave nobody able to undo it
+    if (email === auth.operator.email && body.role && body.role !== "admin") {
+      return NextResponse.json(
+        { ok: false, error: "You can't change your own role" },
+        { status: 400 }
+      );
+    }
+
+    const operator = await saveOperator(email, {
+      name: typeof body.name === "string" ? body.name.trim() : undefined,
+      role: body.role,
+      password: body.password,
+    });
+
+    return NextResponse.json({ ok: true, operator });
+  } catch (e) {
+    console.error("operators update error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE ?email=... — revoke an operator's access
+export async function DELETE(req: Request) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const email = normalizeEmail(new URL(req.url).searchParams.get("email"));
+
+    if (!email) {
+      return NextResponse.json(
+        { ok: false, error: "A valid email is required" },
+        { status: 400 }
+      );
+    }
+    if (email === auth.operator.email) {
+      return NextResponse.json(
+        { ok: false, error: "You can't remove yourself" },
+        { status: 400 }
+      );
+    }
+
+    await deleteOperator(email);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    console.error("operators delete error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,44 +1,55 @@
 import { NextResponse } from "next/server";
-import { db } from "@/lib/firebase";
-import { doc, setDoc } from "firebase/firestore";
-import type { LandingPageSpec } from "../landing-agent/route";
+import { authorize } from "@/lib/auth";
+import { getLandingBuild, promoteLanding } from "@/lib/experiments";
+import { isPromotable } from "@/lib/review";
+import { resolveSiteId } from "@/lib/sites";
 
+// POST { siteId?, slug } — makes an approved landing build the live page
 export async function POST(req: Request) {
+  const auth = await authorize(req, "approver");
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await req.json();
-    const spec: LandingPageSpec | undefined = body.spec;
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
 
-    if (!spec) {
+    if (typeof body.slug !== "string" || !body.slug) {
       return NextResponse.json(
-        { ok: false, error: "Missing spec" },
+        { ok: false, error: "Missing slug" },
         { status: 400 }
       );
     }
 
-    const slug: string =
-      body.slug ||
-      `landing-build-${Math.floor(Date.now() / 1000).toString()}`;
-
-    // Save full spec under /landingPages/{slug}
-    await setDoc(doc(db, "landingPages", slug), {
-      slug,
-      spec,
-      createdAt: new Date().toISOString(),
-      source: body.source || "agent",
-    });
+    const build = await getLandingBuild(siteId, body.slug);
+    if (!build) {
+      return NextResponse.json(
+        { ok: false, error: `Landing build ${body.slug} not found` },
+        { status: 404 }
+      );
+    }
+    if (!isPromotable(build.status)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Landing build must be approved before promotion (status: ${build.status})`,
+        },
+        { status: 409 }
+      );
+    }
 
-    // Also mark as active under /settings/landingPage
-    await setDoc(doc(db, "settings", "landingPage"), {
-      slug,
-      spec,
-      promotedAt: new Date().toISOString(),
-    });
+    await promoteLanding(siteId, build.slug, { by: auth.operator.email });
 
-    return NextResponse.json({ ok: true, slug });
-  } catch (e: any) {
+    return NextResponse.json({ ok: true, slug: build.slug });
+  } catch (e) {
     console.error("promote-landing error:", e);
     return NextResponse.json(
-      { ok: false, error: e.message ?? "Unknown error" },
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
       { status: 500 }
     );
   }
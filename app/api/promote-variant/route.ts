@@ -1,54 +1,56 @@
 import { NextResponse } from "next/server";
-import { db } from "@/lib/firebase";
-import { doc, setDoc } from "firebase/firestore";
-
-type VariantPayload = {
-  heroTitle: string;
-  heroSubtitle: string;
-  primaryCta: string;
-  secondaryCta: string;
-  badge?: string;
-};
+import { authorize } from "@/lib/auth";
+import { getVariant, promoteVariant } from "@/lib/experiments";
+import { isPromotable } from "@/lib/review";
+import { resolveSiteId } from "@/lib/sites";
 
+// POST { siteId?, variantId } — makes an approved variant the live hero
 export async function POST(req: Request) {
+  const auth = await authorize(req, "approver");
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await req.json();
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
 
-    const variant: VariantPayload | undefined = body.variant;
-    const variantId: string =
-      body.variantId || `live-${Date.now().toString()}`;
-
-    // Basic validation
-    if (
-      !variant ||
-      !variant.heroTitle ||
-      !variant.heroSubtitle ||
-      !variant.primaryCta ||
-      !variant.secondaryCta
-    ) {
+    if (typeof body.variantId !== "string" || !body.variantId) {
       return NextResponse.json(
-        { ok: false, error: "Invalid variant payload" },
+        { ok: false, error: "Missing variantId" },
         { status: 400 }
       );
     }
 
-    const ref = doc(db, "settings", "liveVariant");
+    // built-in arms have no variant doc, so they land here too
+    const variant = await getVariant(siteId, body.variantId);
+    if (!variant) {
+      return NextResponse.json(
+        { ok: false, error: `Variant ${body.variantId} not found` },
+        { status: 404 }
+      );
+    }
+    if (!isPromotable(variant.status)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Variant must be approved before promotion (status: ${variant.status})`,
+        },
+        { status: 409 }
+      );
+    }
 
-    await setDoc(ref, {
-      variantId,
-      heroTitle: variant.heroTitle,
-      heroSubtitle: variant.heroSubtitle,
-      primaryCta: variant.primaryCta,
-      secondaryCta: variant.secondaryCta,
-      badge: variant.badge ?? "AI Variant",
-      promotedAt: new Date().toISOString(),
-    });
+    await promoteVariant(siteId, variant.id, { by: auth.operator.email });
 
-    return NextResponse.json({ ok: true, variantId });
-  } catch (e: any) {
+    return NextResponse.json({ ok: true, variantId: variant.id });
+  } catch (e) {
     console.error("promote-variant error:", e);
     return NextResponse.json(
-      { ok: false, error: e.message ?? "Unknown error" },
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
       { status: 500 }
     );
   }
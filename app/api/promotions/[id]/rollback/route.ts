@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { HOME_EXPERIMENT_ID } from "@/lib/assignment";
+import { rollbackPromotion } from "@/lib/experiments";
+import { resolveSiteId } from "@/lib/sites";
+
+// POST { siteId?, experimentId?, reason? } — puts the content this log
+// record made live back live
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(req, "approver");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const result = await rollbackPromotion(siteId, id, {
+      experimentId: body.experimentId || HOME_EXPERIMENT_ID,
+      by: auth.operator.email,
+      reason: typeof body.reason === "string" ? body.reason : undefined,
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { ok: false, error: `Promotion ${id} not found` },
+        { status: 404 }
+      );
+    }
+    if (!result.ok) {
+      return NextResponse.json(
+        { ok: false, error: result.error },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, promotion: result.record });
+  } catch (e) {
+    console.error("rollback error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
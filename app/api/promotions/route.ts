@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { HOME_EXPERIMENT_ID } from "@/lib/assignment";
+import { listPromotions, type PromotionKind } from "@/lib/experiments";
+import { resolveSiteId } from "@/lib/sites";
+
+// GET /api/promotions?siteId=&experimentId=home&kind=landing → promotion log, newest first
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const experimentId =
+      searchParams.get("experimentId") || HOME_EXPERIMENT_ID;
+    const kind = searchParams.get("kind");
+    if (kind !== null && kind !== "variant" && kind !== "landing") {
+      return NextResponse.json(
+        { ok: false, error: "kind must be variant or landing" },
+        { status: 400 }
+      );
+    }
+
+    const promotions = await listPromotions(siteId, {
+      experimentId,
+      kind: (kind as PromotionKind | null) ?? undefined,
+    });
+    return NextResponse.json({ ok: true, promotions });
+  } catch (e) {
+    console.error("promotions read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import {
+  listTemplates,
+  loadPromptSettings,
+  savePromptSettings,
+} from "@/lib/prompts";
+import { resolveSiteId } from "@/lib/sites";
+
+// GET → brand variables, pinned versions and every registered template
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const settings = await loadPromptSettings(siteId);
+    return NextResponse.json({
+      ok: true,
+      ...settings,
+      templates: listTemplates(settings),
+    });
+  } catch (e) {
+    console.error("prompts read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId?, variables?, activeVersions? } — variables merge into the current
+// ones; activeVersions replaces the pins (omit an ID to follow its latest).
+export async function POST(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const settings = await savePromptSettings(siteId, {
+      variables: body.variables,
+      activeVersions: body.activeVersions,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      ...settings,
+      templates: listTemplates(settings),
+    });
+  } catch (e) {
+    console.error("prompts update error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
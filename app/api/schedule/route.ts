@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { HOME_EXPERIMENT_ID } from "@/lib/assignment";
+import { getExperiment } from "@/lib/experiments";
+import {
+  parseSchedule,
+  scheduleExperiment,
+  unscheduleExperiment,
+} from "@/lib/schedule";
+import { resolveSiteId } from "@/lib/sites";
+
+// GET /api/schedule?experimentId=home&siteId=default → status, schedule, outcome
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const experimentId =
+      new URL(req.url).searchParams.get("experimentId") || HOME_EXPERIMENT_ID;
+    const { status, schedule, startedAt, outcome } = await getExperiment(
+      siteId,
+      experimentId
+    );
+
+    return NextResponse.json({
+      ok: true,
+      experimentId,
+      status,
+      schedule,
+      startedAt,
+      outcome,
+    });
+  } catch (e) {
+    console.error("schedule read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId?, experimentId?, startAt?, endAt?, stop: { maxDays?, maxSessions?, onSignificance? }, controlId?, promoteWinner? }
+// Time-boxes the experiment's current arms; promoteWinner needs an approver.
+export async function POST(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    if (body.promoteWinner === true) {
+      const approver = await authorize(req, "approver");
+      if (!approver.ok) return approver.response;
+    }
+
+    const experimentId: string = body.experimentId || HOME_EXPERIMENT_ID;
+    const experiment = await getExperiment(siteId, experimentId);
+    const parsed = parseSchedule(body, experiment.arms);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { ok: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const updated = await scheduleExperiment(
+      siteId,
+      experimentId,
+      parsed.schedule
+    );
+    return NextResponse.json({
+      ok: true,
+      experimentId,
+      status: updated.status,
+      schedule: updated.schedule,
+      startedAt: updated.startedAt,
+    });
+  } catch (e) {
+    console.error("schedule update error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE ?experimentId=home — removes the time box; traffic is left as is
+export async function DELETE(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const experimentId =
+      new URL(req.url).searchParams.get("experimentId") || HOME_EXPERIMENT_ID;
+    const updated = await unscheduleExperiment(siteId, experimentId);
+    return NextResponse.json({ ok: true, experimentId, status: updated.status });
+  } catch (e) {
+    console.error("schedule clear error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { HOME_EXPERIMENT_ID } from "@/lib/assignment";
+import { getLandingBuild, getVariant } from "@/lib/experiments";
+import {
+  cancelScheduledPromotion,
+  listScheduledPromotions,
+  schedulePromotion,
+} from "@/lib/schedule";
+import { resolveSiteId } from "@/lib/sites";
+
+// GET ?siteId= → scheduled promotions (pending and past), latest run time first
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const promotions = await listScheduledPromotions(siteId);
+    return NextResponse.json({ ok: true, promotions });
+  } catch (e) {
+    console.error("scheduled promotions read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId?, kind: "variant"|"landing", refId, runAt, experimentId? }
+// Approval is checked now (the content becomes "scheduled") and again when
+// the scheduler runs it.
+export async function POST(req: Request) {
+  const auth = await authorize(req, "approver");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const { kind, refId, runAt } = body;
+    if (kind !== "variant" && kind !== "landing") {
+      return NextResponse.json(
+        { ok: false, error: "kind must be variant or landing" },
+        { status: 400 }
+      );
+    }
+    if (typeof refId !== "string" || !refId) {
+      return NextResponse.json(
+        { ok: false, error: "Missing refId" },
+        { status: 400 }
+      );
+    }
+    if (typeof runAt !== "string" || Number.isNaN(Date.parse(runAt))) {
+      return NextResponse.json(
+        { ok: false, error: "runAt must be an ISO date-time" },
+        { status: 400 }
+      );
+    }
+    if (Date.parse(runAt) <= Date.now()) {
+      return NextResponse.json(
+        { ok: false, error: "runAt must be in the future" },
+        { status: 400 }
+      );
+    }
+
+    // built-in arms and plain /build pages have nothing to schedule
+    const item =
+      kind === "variant"
+        ? await getVariant(siteId, refId)
+        : await getLandingBuild(siteId, refId);
+    const result = item
+      ? await schedulePromotion(siteId, {
+          kind,
+          refId,
+          runAt,
+          by: auth.operator.email,
+          experimentId: body.experimentId || HOME_EXPERIMENT_ID,
+        })
+      : null;
+    if (!result) {
+      return NextResponse.json(
+        { ok: false, error: `${kind} ${refId} not found` },
+        { status: 404 }
+      );
+    }
+    if (!result.ok) {
+      return NextResponse.json(
+        { ok: false, error: result.error },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ ok: true, promotion: result.promotion });
+  } catch (e) {
+    console.error("scheduled promotion create error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE ?id= — cancels a pending scheduled promotion
+export async function DELETE(req: Request) {
+  const auth = await authorize(req, "approver");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { ok: false, error: "Missing id" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await cancelScheduledPromotion(siteId, id, auth.operator.email))) {
+      return NextResponse.json(
+        { ok: false, error: "No pending scheduled promotion with that id" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ ok: true, id });
+  } catch (e) {
+    console.error("scheduled promotion cancel error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { isAuthorizedCron } from "@/lib/cron";
+import { runScheduler } from "@/lib/schedule";
+import { listSites, resolveSiteId } from "@/lib/sites";
+
+// Scheduled via Vercel Cron: due promotions and experiment time boxes, per site
+export async function GET(req: Request) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json(
+      { ok: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const runs = [];
+    for (const site of await listSites()) {
+      try {
+        runs.push({ siteId: site.id, run: await runScheduler(site.id) });
+      } catch (e) {
+        // one broken site must not stop the others
+        console.error(`scheduler error (${site.id}):`, e);
+        runs.push({
+          siteId: site.id,
+          error: (e as Error).message ?? "Unknown error",
+        });
+      }
+    }
+    return NextResponse.json({ ok: true, runs });
+  } catch (e) {
+    console.error("scheduler error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Manual trigger from the dashboard or
+// `curl -X POST localhost:3000/api/scheduler?siteId=default`
+export async function POST(req: Request) {
+  const auth = await authorize(req, "approver");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const run = await runScheduler(siteId);
+    return NextResponse.json({ ok: true, run });
+  } catch (e) {
+    console.error("scheduler error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
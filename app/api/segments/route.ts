@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { parseSegmentInput } from "@/lib/segment-rules";
+import {
+  createSegment,
+  deleteSegment,
+  listSegments,
+  updateSegment,
+} from "@/lib/segments";
+import { resolveSiteId } from "@/lib/sites";
+
+// GET ?siteId= → saved segments, by name
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const segments = await listSegments(siteId);
+    return NextResponse.json({ ok: true, segments });
+  } catch (e) {
+    console.error("segments read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId?, id?, name, rules: [{ field, op, values }] } — creates a
+// segment, or replaces the name and rules of segment `id`
+export async function POST(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const parsed = parseSegmentInput(body);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { ok: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const input = { ...parsed.segment, by: auth.operator.email };
+    if (typeof body.id === "string" && body.id) {
+      const segment = await updateSegment(siteId, body.id, input);
+      if (!segment) {
+        return NextResponse.json(
+          { ok: false, error: `Segment ${body.id} not found` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ ok: true, segment });
+    }
+
+    const segment = await createSegment(siteId, input);
+    return NextResponse.json({ ok: true, segment });
+  } catch (e) {
+    console.error("segment save error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE ?id=
+export async function DELETE(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { ok: false, error: "Missing id" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await deleteSegment(siteId, id))) {
+      return NextResponse.json(
+        { ok: false, error: `Segment ${id} not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ ok: true, id });
+  } catch (e) {
+    console.error("segment delete error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { variantStatsFromCounters } from "@/lib/aggregate";
+import { ALL_SEGMENT, parseRange, sumRollups } from "@/lib/rollups";
+import { loadSegmentRollups } from "@/lib/segments";
+import { resolveSiteId } from "@/lib/sites";
+import { compareVariants } from "@/lib/stats";
+
+function numberParam(params: URLSearchParams, key: string) {
+  const raw = params.get(key);
+  if (raw === null) return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+// GET /api/significance?siteId=default&goalId=primary_cta&controlId=A&alpha=0.05&minSessions=100
+//     &from=2026-01-01&to=2026-01-31&segment=device:mobile (or saved:{id})
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const range = parseRange(searchParams);
+    if (!range) {
+      return NextResponse.json(
+        { ok: false, error: "from and to must be YYYY-MM-DD, from <= to" },
+        { status: 400 }
+      );
+    }
+
+    const loaded = await loadSegmentRollups(
+      siteId,
+      range,
+      searchParams.get("segment") || ALL_SEGMENT
+    );
+    if (!loaded) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown segment" },
+        { status: 404 }
+      );
+    }
+    const { rollups, truncated } = loaded;
+    const stats = variantStatsFromCounters(sumRollups(rollups, "variantId"), {
+      goalId: searchParams.get("goalId") ?? undefined,
+    }).filter((s) => s.variantId !== "unknown");
+
+    const result = compareVariants(stats, {
+      controlId: searchParams.get("controlId") ?? "A",
+      alpha: numberParam(searchParams, "alpha"),
+      minSessions: numberParam(searchParams, "minSessions"),
+      probabilityThreshold: numberParam(searchParams, "probabilityThreshold"),
+    });
+
+    return NextResponse.json({ ok: true, stats, ...result, truncated });
+  } catch (e) {
+    console.error("significance error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { isSiteId, listSites, saveSite } from "@/lib/sites";
+
+// GET → every site, the default one first
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const sites = await listSites();
+    return NextResponse.json({ ok: true, sites });
+  } catch (e) {
+    console.error("sites read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId, name?, domain? } — registers a site or updates its details
+export async function POST(req: Request) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+
+    if (!isSiteId(body.siteId)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error:
+            "siteId must be 1–40 lowercase letters, digits or dashes, starting with a letter or digit",
+        },
+        { status: 400 }
+      );
+    }
+    if (body.name !== undefined && typeof body.name !== "string") {
+      return NextResponse.json(
+        { ok: false, error: "name must be a string" },
+        { status: 400 }
+      );
+    }
+    if (
+      body.domain !== undefined &&
+      body.domain !== null &&
+      typeof body.domain !== "string"
+    ) {
+      return NextResponse.json(
+        { ok: false, error: "domain must be a string or null" },
+        { status: 400 }
+      );
+    }
+
+    const site = await saveSite(body.siteId, {
+      name: body.name?.trim() || undefined,
+      domain: body.domain === undefined ? undefined : body.domain || null,
+    });
+
+    return NextResponse.json({ ok: true, site });
+  } catch (e) {
+    console.error("sites update error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import {
+  addCounters,
+  emptyCounters,
+  statsFromCounters,
+  variantStatsFromCounters,
+} from "@/lib/aggregate";
+import { ALL_SEGMENT, parseRange, sumRollups } from "@/lib/rollups";
+import { loadSegmentRollups } from "@/lib/segments";
+import { resolveSiteId } from "@/lib/sites";
+
+// GET /api/stats?siteId=&from=2026-01-01&to=2026-01-31&segment=device:mobile&variantId=&goalId=&variantIds=A,B
+// → per-variant stats (`variantIds` listed even without traffic), a per-day
+//   series, totals and visitor counts over the range; `variantId` narrows
+//   the series, totals and visitors to one arm. `segment` is built in (from
+//   the daily rollups) or saved:{id} (from the matching sessions; `truncated`
+//   when the range had more sessions than could be read).
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const range = parseRange(searchParams);
+    if (!range) {
+      return NextResponse.json(
+        { ok: false, error: "from and to must be YYYY-MM-DD, from <= to" },
+        { status: 400 }
+      );
+    }
+    const segment = searchParams.get("segment") || ALL_SEGMENT;
+    const variantId = searchParams.get("variantId") || undefined;
+    const goalId = searchParams.get("goalId") || undefined;
+    const variantIds = searchParams
+      .get("variantIds")
+      ?.split(",")
+      .filter(Boolean);
+
+    const loaded = await loadSegmentRollups(siteId, range, segment);
+    if (!loaded) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown segment" },
+        { status: 404 }
+      );
+    }
+    const { rollups, truncated } = loaded;
+    const selected = variantId
+      ? rollups.filter((r) => r.variantId === variantId)
+      : rollups;
+    const label = variantId ?? ALL_SEGMENT;
+
+    const variants = variantStatsFromCounters(
+      sumRollups(selected, "variantId"),
+      { goalId, variantIds }
+    );
+    const days = [...sumRollups(selected, "day")]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, counters]) => ({
+        day,
+        ...statsFromCounters(label, counters, goalId),
+      }));
+    const summed = selected.reduce(
+      (sum, r) => addCounters(sum, r),
+      emptyCounters()
+    );
+    const totals = statsFromCounters(label, summed, goalId);
+
+    return NextResponse.json({
+      ok: true,
+      range,
+      segment,
+      variants,
+      days,
+      totals,
+      newVisitors: summed.newVisitors,
+      returningSessions: summed.returningSessions,
+      truncated,
+    });
+  } catch (e) {
+    console.error("stats error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
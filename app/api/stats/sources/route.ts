@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { ALL_SEGMENT, parseRange, sourceBreakdown } from "@/lib/rollups";
+import { loadSegmentSessions } from "@/lib/segments";
+import { resolveSiteId } from "@/lib/sites";
+import { compareVariants } from "@/lib/stats";
+
+const MAX_SOURCES = 20;
+
+// GET /api/stats/sources?siteId=&from=2026-01-01&to=2026-01-31&segment=&touch=last&goalId=&controlId=A&variantIds=A,B
+// → variant stats and significance per source / medium (largest first), so a
+//   variant that only wins for one channel shows up as such. `truncated`
+//   when only the top sources are listed, `sessionsTruncated` when the range
+//   had more sessions than could be read.
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const range = parseRange(searchParams);
+    if (!range) {
+      return NextResponse.json(
+        { ok: false, error: "from and to must be YYYY-MM-DD, from <= to" },
+        { status: 400 }
+      );
+    }
+    const touch = searchParams.get("touch") ?? "last";
+    if (touch !== "first" && touch !== "last") {
+      return NextResponse.json(
+        { ok: false, error: "touch must be first or last" },
+        { status: 400 }
+      );
+    }
+    const controlId = searchParams.get("controlId") ?? "A";
+
+    const sample = await loadSegmentSessions(
+      siteId,
+      range,
+      searchParams.get("segment") || ALL_SEGMENT
+    );
+    if (!sample) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown segment" },
+        { status: 404 }
+      );
+    }
+
+    const breakdown = sourceBreakdown(sample.sessions, {
+      touch,
+      goalId: searchParams.get("goalId") || undefined,
+      variantIds: searchParams.get("variantIds")?.split(",").filter(Boolean),
+    });
+
+    const sources = breakdown.slice(0, MAX_SOURCES).map((row) => {
+      const variants = row.variants.filter((v) => v.variantId !== "unknown");
+      const { winner, leader, reason } = compareVariants(variants, {
+        controlId,
+      });
+      return { ...row, variants, winner, leader, reason };
+    });
+
+    return NextResponse.json({
+      ok: true,
+      range,
+      touch,
+      sources,
+      truncated: breakdown.length > MAX_SOURCES,
+      sessionsTruncated: sample.truncated,
+    });
+  } catch (e) {
+    console.error("source stats error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
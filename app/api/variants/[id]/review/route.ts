@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { authorize, hasRole } from "@/lib/auth";
+import { reviewVariant } from "@/lib/experiments";
+import { ACTION_ROLES, isReviewAction } from "@/lib/review";
+import { resolveSiteId } from "@/lib/sites";
+
+// POST { siteId?, action: submit|approve|request_changes|comment|archive, comment? }
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // signed in at all first; the role an action needs is checked below
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  let body: { action?: unknown; comment?: unknown; siteId?: unknown } | null;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: "Body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const action: unknown = body?.action;
+
+    if (!isReviewAction(action)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error:
+            "action must be submit, approve, request_changes, comment or archive",
+        },
+        { status: 400 }
+      );
+    }
+
+    const role = ACTION_ROLES[action];
+    if (!hasRole(auth.operator, role)) {
+      return NextResponse.json(
+        { ok: false, error: `Requires the ${role} role` },
+        { status: 403 }
+      );
+    }
+
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const result = await reviewVariant(
+      siteId,
+      id,
+      action,
+      auth.operator.email,
+      typeof body?.comment === "string" ? body.comment : undefined
+    );
+
+    if (!result) {
+      return NextResponse.json(
+        { ok: false, error: `Variant ${id} not found` },
+        { status: 404 }
+      );
+    }
+    if (!result.ok) {
+      return NextResponse.json(
+        { ok: false, error: result.error },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, id, ...result.review });
+  } catch (e) {
+    console.error("variant review error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import {
+  createVariant,
+  isHeroContent,
+  listVariants,
+} from "@/lib/experiments";
+import { isPromptRef } from "@/lib/prompts";
+import { isReviewStatus } from "@/lib/review";
+import { resolveSiteId } from "@/lib/sites";
+
+// GET ?siteId=&status=in_review → variants, newest first
+export async function GET(req: Request) {
+  const auth = await authorize(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const siteId = await resolveSiteId(req);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    const status = new URL(req.url).searchParams.get("status");
+    if (status !== null && !isReviewStatus(status)) {
+      return NextResponse.json(
+        { ok: false, error: `Unknown status "${status}"` },
+        { status: 400 }
+      );
+    }
+
+    const variants = await listVariants(siteId, {
+      status: status ?? undefined,
+    });
+    return NextResponse.json({ ok: true, variants });
+  } catch (e) {
+    console.error("variants read error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { siteId?, heroTitle, heroSubtitle, primaryCta, secondaryCta, badge?, createdBy?, fromVariant?, meta?, prompt? }
+// Saves a draft; submit it for review via /api/variants/{id}/review.
+export async function POST(req: Request) {
+  const auth = await authorize(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await req.json();
+    const { createdBy, fromVariant, meta, prompt } = body;
+    const siteId = await resolveSiteId(req, body);
+    if (!siteId) {
+      return NextResponse.json(
+        { ok: false, error: "Unknown site" },
+        { status: 404 }
+      );
+    }
+
+    if (!isHeroContent(body)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid variant payload" },
+        { status: 400 }
+      );
+    }
+
+    const variant = await createVariant(siteId, {
+      heroTitle: body.heroTitle,
+      heroSubtitle: body.heroSubtitle,
+      primaryCta: body.primaryCta,
+      secondaryCta: body.secondaryCta,
+      badge: body.badge,
+      createdBy: typeof createdBy === "string" ? createdBy : "manual",
+      fromVariant: typeof fromVariant === "string" ? fromVariant : undefined,
+      meta,
+      prompt: isPromptRef(prompt) ? prompt : undefined,
+      author: auth.operator.email,
+    });
+
+    return NextResponse.json({ ok: true, variant });
+  } catch (e) {
+    console.error("variants create error:", e);
+    return NextResponse.json(
+      { ok: false, error: (e as Error).message ?? "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,44 +1,23 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useParams } from "next/navigation";
-import { db } from "@/lib/firebase";
-import { doc, getDoc } from "firebase/firestore";
-
-type LandingSection =
-  | {
-      type: "section";
-      title: string;
-      body: string;
-    }
-  | {
-      type: "bullets";
-      title: string;
-      items: string[];
-    }
-  | {
-      type: "cta";
-      title: string;
-      body: string;
-    };
-
-type LandingPageDoc = {
-  slug: string;
-  name: string;
-  pageTitle: string;
-  heroTitle: string;
-  heroSubtitle: string;
-  primaryCta: string;
-  secondaryCta: string;
-  sections: LandingSection[];
-  createdAt?: string;
-};
+import { useParams, useSearchParams } from "next/navigation";
+import { useAnalytics } from "@/hooks/useAnalytics";
+import type { BuildPageDoc } from "@/lib/schemas";
+import { CURRENT_SITE_ID, isSiteId } from "@/lib/site-id";
 
 export default function BuildPage() {
   const params = useParams<{ slug: string }>();
   const slug = params.slug;
+  // pages of other sites are linked as /build/{slug}?siteId=…
+  const searchParams = useSearchParams();
+  const requestedSite = searchParams.get("siteId");
+  const siteId = isSiteId(requestedSite) ? requestedSite : CURRENT_SITE_ID;
+
+  // not part of an experiment; ?preview (dashboard heatmap) isn't a visit
+  useAnalytics(searchParams.has("preview") ? null : undefined, siteId);
 
-  const [page, setPage] = useState<LandingPageDoc | null>(null);
+  const [page, setPage] = useState<BuildPageDoc | null>(null);
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -50,14 +29,17 @@ export default function BuildPage() {
         setError(null);
         setNotFound(false);
 
-        const ref = doc(db, "landingPages", slug);
-        const snap = await getDoc(ref);
+        const query = new URLSearchParams({ slug, siteId });
+        const res = await fetch(`/api/landing-page?${query}`);
+        const data = await res.json();
 
-        if (!snap.exists()) {
+        if (res.status === 404) {
           setNotFound(true);
           setPage(null);
+        } else if (!data.ok) {
+          setError(data.error ?? "Failed to load landing page.");
         } else {
-          setPage(snap.data() as LandingPageDoc);
+          setPage(data.page as BuildPageDoc);
         }
       } catch (e) {
         console.error(e);
@@ -70,7 +52,7 @@ export default function BuildPage() {
     if (slug) {
       load();
     }
-  }, [slug]);
+  }, [slug, siteId]);
 
   if (loading) {
     return (
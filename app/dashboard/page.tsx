@@ -1,18 +1,55 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
-import { db } from "@/lib/firebase";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type { VariantStats } from "@/lib/aggregate";
+import { compareVariants } from "@/lib/stats";
+import type { AllocationMode } from "@/lib/assignment";
+import type {
+  Experiment,
+  LandingBuild,
+  PromotionRecord,
+  Variant,
+  WeightHistoryEntry,
+} from "@/lib/experiments";
+import type {
+  AutoModeGuardrails,
+  AutoRunRecord,
+  AutoTest,
+} from "@/lib/autopilot";
+import { SCROLL_MILESTONES } from "@/lib/engagement";
+import { getGoal, PRIMARY_GOAL_ID } from "@/lib/goals";
+import type { GuardrailCheck, GuardrailSettings } from "@/lib/guardrails";
 import {
-  collection,
-  getDocs,
-  query,
-  orderBy,
-  limit,
-  addDoc,
-  writeBatch,
-} from "firebase/firestore";
+  DEVICE_CLASSES,
+  type DeviceClass,
+  type Heatmap,
+} from "@/lib/heatmap";
+import type { Alert } from "@/lib/alerts";
+import type { Operator } from "@/lib/auth";
+import type { PromptRef } from "@/lib/prompts";
+import type { ReviewAction, ReviewEntry } from "@/lib/review";
+import type { SourceBreakdown, TouchModel } from "@/lib/rollups";
+import {
+  describeRules,
+  operatorsFor,
+  savedSegmentKey,
+  SEGMENT_FIELD_LABELS,
+  SEGMENT_FIELD_VALUES,
+  SEGMENT_FIELDS,
+  SEGMENT_OPERATOR_LABELS,
+  type Segment,
+  type SegmentOperator,
+  type SegmentRule,
+} from "@/lib/segment-rules";
+import type { CohortRow } from "@/lib/segments";
+import type { ScheduledPromotion } from "@/lib/schedule";
+import { hasRole } from "@/lib/roles";
+import { CURRENT_SITE_ID } from "@/lib/site-id";
+import { diffContent } from "@/lib/spec-diff";
+import type { Site } from "@/lib/sites";
 
 type AnalyticsEvent = {
+  visitorId?: string;
   sessionId: string;
   eventType: string;
   payload: Record<string, unknown>;
@@ -20,21 +57,13 @@ type AnalyticsEvent = {
   variantId?: string;
 };
 
-type VariantId = "A" | "B";
-
-type VariantStats = {
-  variantId: VariantId;
-  totalEvents: number;
-  sessions: number;
-  scrollEvents: number;
-  avgScrollPercent: number | null;
-  clickEvents: number;
-};
+type VariantId = string;
 
 type SimpleStats = {
   variantId: VariantId;
   avgScroll: number | null;
   clicks: number;
+  conversionRate?: number | null;
 };
 
 type AgentVariantSuggestion = {
@@ -56,65 +85,172 @@ type AgentResponse = {
   suggestedVariant: AgentVariantSuggestion;
   aiUsed?: string;
   aiError?: string | null;
+  prompt?: PromptRef | null;
 };
 
-/** --- helpers --- **/
+/** --- component --- **/
 
-function computeVariantStats(events: AnalyticsEvent[]): VariantStats[] {
-  const byVariant: Record<VariantId, AnalyticsEvent[]> = { A: [], B: [] };
+const withSite = (path: string, siteId: string) =>
+  `${path}?siteId=${encodeURIComponent(siteId)}`;
 
-  for (const e of events) {
-    const v = (e.variantId as VariantId) ?? "A";
-    if (v === "A" || v === "B") byVariant[v].push(e);
-  }
+type ReviewKind = "variant" | "landing";
+
+type ScheduleForm = {
+  startAt: string;
+  endAt: string;
+  maxDays: string;
+  maxSessions: string;
+  onSignificance: boolean;
+  promoteWinner: boolean;
+};
 
-  const stats: VariantStats[] = [];
+const EMPTY_SCHEDULE_FORM: ScheduleForm = {
+  startAt: "",
+  endAt: "",
+  maxDays: "14",
+  maxSessions: "",
+  onSignificance: false,
+  promoteWinner: false,
+};
 
-  for (const variantId of ["A", "B"] as VariantId[]) {
-    const ve = byVariant[variantId];
+// <input type="datetime-local"> is local time without a zone
+const fromLocalInput = (value: string) =>
+  value ? new Date(value).toISOString() : null;
 
-    if (ve.length === 0) {
-      stats.push({
-        variantId,
-        totalEvents: 0,
-        sessions: 0,
-        scrollEvents: 0,
-        avgScrollPercent: null,
-        clickEvents: 0,
-      });
-      continue;
-    }
+// what still needs a decision (or is about to go live); drafts and archived
+// items stay out of the queue
+const QUEUE_STATUSES = new Set(["in_review", "approved", "scheduled"]);
+
+const reviewPath = (kind: ReviewKind, id: string) =>
+  kind === "variant"
+    ? `/api/variants/${encodeURIComponent(id)}/review`
+    : `/api/landing-builds/${encodeURIComponent(id)}/review`;
 
-    const sessionSet = new Set(ve.map((e) => e.sessionId));
+// viewport the heatmap preview is laid out at, then scaled down to fit
+const PREVIEW_WIDTHS: Record<DeviceClass, number> = {
+  mobile: 390,
+  tablet: 820,
+  desktop: 1280,
+};
+const HEATMAP_FRAME_WIDTH = 560;
 
-    const scrollEvents = ve.filter((e) => e.eventType === "scroll");
-    const scrollPercents = scrollEvents
-      .map((e) => e.payload.scrollPercent as number | undefined)
-      .filter((v): v is number => typeof v === "number");
+// variant performance ranges, in UTC days up to and including today
+const STATS_RANGES = [7, 30, 90];
 
-    const avgScroll =
-      scrollPercents.length > 0
-        ? scrollPercents.reduce((a, b) => a + b, 0) / scrollPercents.length
-        : null;
+type SourceRow = SourceBreakdown & {
+  winner: string | null;
+  leader: string | null;
+  reason: string;
+};
 
-    const clickEvents = ve.filter((e) => e.eventType === "click").length;
+// arms compared in variant performance and the per-source breakdown
+const STATS_VARIANTS = ["A", "B"];
 
-    stats.push({
-      variantId,
-      totalEvents: ve.length,
-      sessions: sessionSet.size,
-      scrollEvents: scrollEvents.length,
-      avgScrollPercent: avgScroll,
-      clickEvents,
-    });
-  }
+// rollups change with every ingest, but a saved segment re-reads sessions
+const STATS_REFRESH_MS = 30_000;
 
-  return stats;
+const COHORT_WEEKS = 8;
+
+// one row of the segment editor; values are comma-separated while editing
+type RuleDraft = {
+  field: SegmentRule["field"];
+  op: SegmentOperator;
+  values: string;
+};
+
+const EMPTY_RULE: RuleDraft = { field: "source", op: "is", values: "" };
+
+const statsRange = (days: number) => {
+  const day = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+  const now = Date.now();
+  return { from: day(now - (days - 1) * 86_400_000), to: day(now) };
+};
+
+// Only this app's own pages can be previewed; embed pages live elsewhere.
+function heatmapPreviewUrl(path: string, variantId: string, siteId: string) {
+  if (path === "/") {
+    // the home page always renders this deployment's site
+    if (siteId !== CURRENT_SITE_ID) return null;
+    return `/?preview=${encodeURIComponent(variantId || "A")}`;
+  }
+  if (path.startsWith("/build/") || path.startsWith("/persona/")) {
+    return `${path}?preview=1&siteId=${encodeURIComponent(siteId)}`;
+  }
+  return null;
 }
 
-/** --- component --- **/
+function describeReview(entry: ReviewEntry) {
+  const note = entry.comment ? ` — “${entry.comment}”` : "";
+  return `${new Date(entry.at).toLocaleString()} · ${entry.by} · ${entry.action.replace("_", " ")}${note}`;
+}
 
+// Keyed by site, so switching sites starts from a clean slate instead of
+// showing one site's agent output against another's data.
 export default function DashboardPage() {
+  const [siteId, setSiteId] = useState<string>(CURRENT_SITE_ID);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [operator, setOperator] = useState<Operator | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((res) => res.json())
+      .then((json) => {
+        if (!json.operator) {
+          window.location.href = "/login?next=/dashboard";
+          return;
+        }
+        setOperator(json.operator);
+      })
+      .catch((e) => console.error("Error loading session:", e));
+
+    fetch("/api/sites")
+      .then((res) => res.json())
+      .then((json) => {
+        if (!json.ok) throw new Error(json.error || "Failed");
+        setSites(json.sites);
+      })
+      .catch((e) => console.error("Error loading sites:", e));
+  }, []);
+
+  if (!operator) {
+    return (
+      <div className="min-h-screen bg-neutral-950 text-neutral-50 flex items-center justify-center">
+        <p className="text-sm text-neutral-400">Checking session…</p>
+      </div>
+    );
+  }
+
+  return (
+    <SiteDashboard
+      key={siteId}
+      siteId={siteId}
+      sites={sites}
+      onSiteChange={setSiteId}
+      operator={operator}
+    />
+  );
+}
+
+async function signOut() {
+  await fetch("/api/auth/logout", { method: "POST" });
+  window.location.href = "/login";
+}
+
+function SiteDashboard({
+  siteId,
+  sites,
+  onSiteChange,
+  operator,
+}: {
+  siteId: string;
+  sites: Site[];
+  onSiteChange: (siteId: string) => void;
+  operator: Operator;
+}) {
+  // the API enforces these too; this just avoids offering dead buttons
+  const canEdit = hasRole(operator, "editor");
+  const canApprove = hasRole(operator, "approver");
+
   const [events, setEvents] = useState<AnalyticsEvent[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -122,6 +258,16 @@ export default function DashboardPage() {
   // AUTO MODE STATE
   const [autoMode, setAutoMode] = useState(false);
   const [savingAutoMode, setSavingAutoMode] = useState(false);
+  const [guardrails, setGuardrails] = useState<AutoModeGuardrails | null>(null);
+  const [currentTest, setCurrentTest] = useState<AutoTest | null>(null);
+  const [pendingVariantId, setPendingVariantId] = useState<string | null>(null);
+  const [autoRuns, setAutoRuns] = useState<AutoRunRecord[]>([]);
+  const [runningAutoMode, setRunningAutoMode] = useState(false);
+
+  // TRAFFIC ALLOCATION (fixed split or bandit)
+  const [allocation, setAllocation] = useState<Experiment | null>(null);
+  const [weightHistory, setWeightHistory] = useState<WeightHistoryEntry[]>([]);
+  const [savingAllocation, setSavingAllocation] = useState(false);
 
   const [agentLoading, setAgentLoading] = useState(false);
   const [agentData, setAgentData] = useState<AgentResponse | null>(null);
@@ -132,7 +278,6 @@ export default function DashboardPage() {
   const [saveError, setSaveError] = useState<string | null>(null);
 
 
-  const [promoting, setPromoting] = useState(false);
   const [promoteMessage, setPromoteMessage] = useState<string | null>(null);
   const [promoteError, setPromoteError] = useState<string | null>(null);
 
@@ -145,7 +290,72 @@ export default function DashboardPage() {
   const [landingError, setLandingError] = useState<string | null>(null);
 
   const [landingSpec, setLandingSpec] = useState(null);
+  const [landingPrompt, setLandingPrompt] = useState<PromptRef | null>(null);
   const [landingLoading, setLandingLoading] = useState(false);
+  const [landingDraftSlug, setLandingDraftSlug] = useState<string | null>(null);
+
+  // REVIEW QUEUE
+  const [queueVariants, setQueueVariants] = useState<Variant[]>([]);
+  const [queueBuilds, setQueueBuilds] = useState<LandingBuild[]>([]);
+  const [reviewBusy, setReviewBusy] = useState<string | null>(null);
+
+  // VERSION HISTORY (promotion log)
+  const [promotions, setPromotions] = useState<PromotionRecord[]>([]);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+
+  // SCHEDULING
+  const [scheduleForm, setScheduleForm] =
+    useState<ScheduleForm>(EMPTY_SCHEDULE_FORM);
+  const [savingSchedule, setSavingSchedule] = useState(false);
+  const [scheduledPromotions, setScheduledPromotions] = useState<
+    ScheduledPromotion[]
+  >([]);
+  const [promoteAt, setPromoteAt] = useState("");
+
+  // GUARDRAILS + ALERTS
+  const [guardrailSettings, setGuardrailSettings] =
+    useState<GuardrailSettings | null>(null);
+  const [guardrailChecks, setGuardrailChecks] = useState<GuardrailCheck[]>([]);
+  const [savingGuardrails, setSavingGuardrails] = useState(false);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+
+  // CLICK HEATMAP ("" = most clicked page / all variants / all devices)
+  const [heatmap, setHeatmap] = useState<Heatmap | null>(null);
+  const [heatmapPages, setHeatmapPages] = useState<
+    { path: string; clicks: number }[]
+  >([]);
+  const [heatmapPath, setHeatmapPath] = useState("");
+  const [heatmapVariant, setHeatmapVariant] = useState("");
+  const [heatmapDevice, setHeatmapDevice] = useState<DeviceClass | "">("");
+  const [previewHeight, setPreviewHeight] = useState<number | null>(null);
+
+  // VARIANT PERFORMANCE, from the daily rollups
+  const [variantStats, setVariantStats] = useState<VariantStats[]>([]);
+  const [statsTotals, setStatsTotals] = useState<VariantStats | null>(null);
+  const [statsVisitors, setStatsVisitors] = useState({
+    newVisitors: 0,
+    returningSessions: 0,
+  });
+  // saved segments are matched over a capped read of the range's sessions
+  const [statsTruncated, setStatsTruncated] = useState(false);
+  const [statsDays, setStatsDays] = useState(30);
+  const [statsSegment, setStatsSegment] = useState("all");
+  const [sourceRows, setSourceRows] = useState<SourceRow[]>([]);
+  const [sourcesTruncated, setSourcesTruncated] = useState(false);
+  const [sourceTouch, setSourceTouch] = useState<TouchModel>("last");
+
+  // SEGMENTS + COHORTS
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [segmentName, setSegmentName] = useState("");
+  const [segmentRules, setSegmentRules] = useState<RuleDraft[]>([EMPTY_RULE]);
+  const [editingSegmentId, setEditingSegmentId] = useState<string | null>(
+    null
+  );
+  const [savingSegment, setSavingSegment] = useState(false);
+  const [segmentError, setSegmentError] = useState<string | null>(null);
+  const [cohorts, setCohorts] = useState<CohortRow[]>([]);
+  const [cohortsTruncated, setCohortsTruncated] = useState(false);
 
   // filters + pagination for events
   const [filterType, setFilterType] = useState<string>("all");
@@ -161,31 +371,24 @@ export default function DashboardPage() {
 
   /** --- data loading --- **/
 
-  async function loadEvents() {
+  // every API call is scoped to the selected site
+  const api = (path: string) => withSite(path, siteId);
+  // always explicit: without it the page renders the deployment's own site
+  const sitePageQuery = `?siteId=${encodeURIComponent(siteId)}`;
+
+  const loadEvents = useCallback(async () => {
     try {
-      const q = query(
-        collection(db, "events"),
-        orderBy("ts", "desc"),
-        limit(500)
-      );
-      const snap = await getDocs(q);
-      const loaded: AnalyticsEvent[] = snap.docs.map((doc) => {
-        const data = doc.data() as any;
-        return {
-          sessionId: data.sessionId ?? "unknown",
-          eventType: data.eventType ?? "unknown",
-          payload: (data.payload ?? {}) as Record<string, unknown>,
-          ts: data.ts ?? new Date().toISOString(),
-          variantId: data.variantId,
-        };
-      });
+      const res = await fetch(`${withSite("/api/analytics", siteId)}&limit=500`);
+      const json = await res.json();
+      if (!json.ok) throw new Error(json.error || "Failed");
+      const loaded: AnalyticsEvent[] = json.events;
       setEvents(loaded);
     } catch (e) {
       console.error("Error loading events:", e);
     } finally {
       setLoading(false);
     }
-  }
+  }, [siteId]);
 
   async function runAgent() {
     try {
@@ -196,7 +399,7 @@ export default function DashboardPage() {
       setPromoteMessage(null);
       setPromoteError(null);
 
-const res = await fetch("/api/agent", {
+const res = await fetch(api("/api/agent"), {
   method: "POST",
 });
       const json: AgentResponse = await res.json();
@@ -223,20 +426,19 @@ const res = await fetch("/api/agent", {
 
       const s = agentData.suggestedVariant;
 
-      const docRef = await addDoc(collection(db, "variants"), {
-        heroTitle: s.heroTitle,
-        heroSubtitle: s.heroSubtitle,
-        primaryCta: s.primaryCta,
-        secondaryCta: s.secondaryCta,
-        badge: s.badge,
-        status: "testing",
-        createdBy: "ai",
-        fromVariant: s.fromVariant,
-        meta: s.meta,
-        createdAt: new Date().toISOString(),
+      const res = await fetch(api("/api/variants"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...s,
+          createdBy: "ai",
+          prompt: agentData.prompt,
+        }),
       });
+      const json = await res.json();
+      if (!json.ok) throw new Error(json.error || "Save failed");
 
-      setSavedVariantId(docRef.id);
+      setSavedVariantId(json.variant.id);
     } catch (e) {
       console.error(e);
       setSaveError("Failed to save variant.");
@@ -245,41 +447,11 @@ const res = await fetch("/api/agent", {
     }
   }
 
-  async function promoteLastSavedVariant() {
-    if (!savedVariantId) return;
-
-    try {
-      setPromoting(true);
-      setPromoteError(null);
-      setPromoteMessage(null);
-
-      const variantsRef = collection(db, "variants");
-      const snap = await getDocs(variantsRef);
-      const batch = writeBatch(db);
-
-      snap.forEach((docSnap) => {
-        const isTarget = docSnap.id === savedVariantId;
-        batch.update(docSnap.ref, {
-          status: isTarget ? "live" : "archived",
-        });
-      });
-
-      await batch.commit();
-      setPromoteMessage(
-        "Variant promoted to live. New visitors will see it once the landing page fetches it."
-      );
-    } catch (e) {
-      console.error(e);
-      setPromoteError("Failed to promote variant to live.");
-    } finally {
-      setPromoting(false);
-    }
-  }
 async function runLandingAgent() {
   try {
     setLandingLoading(true);
 
-    const res = await fetch("/api/landing-agent", { method: "POST" });
+    const res = await fetch(api("/api/landing-agent"), { method: "POST" });
     const json = await res.json();
 
     if (!res.ok || !json.ok) {
@@ -288,6 +460,8 @@ async function runLandingAgent() {
     }
 
     setLandingSpec(json.spec);
+    setLandingPrompt(json.prompt ?? null);
+    setLandingDraftSlug(null);
     console.log("Generated landing spec:", json.spec);
 
   } catch (err) {
@@ -299,140 +473,792 @@ async function runLandingAgent() {
 }
 
 
-async function promoteLanding() {
+async function submitLanding() {
   if (!landingSpec) {
     alert("Generate a landing build first!");
     return;
   }
 
   try {
-    const res = await fetch("/api/promote-landing", {
+    // save once, then submit; a retry after a failed submit reuses the draft
+    let slug = landingDraftSlug;
+    if (!slug) {
+      const res = await fetch(api("/api/landing-builds"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ spec: landingSpec, prompt: landingPrompt }),
+      });
+      const json = await res.json();
+      if (!json.ok) {
+        alert("Failed to save landing build: " + json.error);
+        return;
+      }
+      slug = json.slug as string;
+      setLandingDraftSlug(slug);
+    }
+
+    const ok = await sendReview("landing", slug, "submit");
+    if (ok) alert("Landing build submitted for review.");
+  } catch (err) {
+    console.error(err);
+    alert("Error submitting landing build");
+  }
+}
+
+const loadReviewQueue = useCallback(async () => {
+  try {
+    const [variantsRes, buildsRes] = await Promise.all([
+      fetch(withSite("/api/variants", siteId)),
+      fetch(withSite("/api/landing-builds", siteId)),
+    ]);
+    const variantsJson = await variantsRes.json();
+    const buildsJson = await buildsRes.json();
+    if (!variantsJson.ok) throw new Error(variantsJson.error || "Failed");
+    if (!buildsJson.ok) throw new Error(buildsJson.error || "Failed");
+    setQueueVariants(
+      (variantsJson.variants as Variant[]).filter((v) =>
+        QUEUE_STATUSES.has(v.status)
+      )
+    );
+    setQueueBuilds(
+      (buildsJson.builds as LandingBuild[]).filter((b) =>
+        QUEUE_STATUSES.has(b.status)
+      )
+    );
+  } catch (e) {
+    console.error("Error loading review queue:", e);
+  }
+}, [siteId]);
+
+async function sendReview(
+  kind: ReviewKind,
+  id: string,
+  action: ReviewAction
+): Promise<boolean> {
+  let comment: string | undefined;
+  if (action === "request_changes" || action === "comment") {
+    const entered = window.prompt(
+      action === "comment" ? "Comment" : "What needs to change?"
+    );
+    if (!entered?.trim()) return false;
+    comment = entered;
+  }
+
+  try {
+    setReviewBusy(`${kind}:${id}`);
+    const res = await fetch(api(reviewPath(kind, id)), {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ spec: landingSpec })
+      body: JSON.stringify({ action, comment }),
     });
+    const json = await res.json();
+    if (!json.ok) {
+      alert("Review action failed: " + json.error);
+      return false;
+    }
+    await loadReviewQueue();
+    return true;
+  } catch (e) {
+    console.error(e);
+    alert("Review action failed");
+    return false;
+  } finally {
+    setReviewBusy(null);
+  }
+}
 
+const loadPromotions = useCallback(async () => {
+  try {
+    const res = await fetch(withSite("/api/promotions", siteId));
     const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    setPromotions(json.promotions);
+  } catch (e) {
+    console.error("Error loading version history:", e);
+  }
+}, [siteId]);
+
+async function rollbackTo(record: PromotionRecord) {
+  const reason = window.prompt(
+    `Roll back to ${record.refId ?? "no live copy"}? Reason (optional)`
+  );
+  if (reason === null) return;
 
+  try {
+    setRollingBack(record.id);
+    const res = await fetch(
+      api(`/api/promotions/${encodeURIComponent(record.id)}/rollback`),
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      }
+    );
+    const json = await res.json();
     if (!json.ok) {
-      alert("Failed to promote landing build: " + json.error);
+      alert("Rollback failed: " + json.error);
       return;
     }
-
-    alert("Landing Build promoted! Homepage will now use AI content.");
-
-   
-  window.location.href = "/";
-  }catch (err) {
-    console.error(err);
-    alert("Error promoting landing build");
+    await Promise.all([
+      loadPromotions(),
+      loadReviewQueue(),
+      loadAllocationState(),
+    ]);
+  } catch (e) {
+    console.error(e);
+    alert("Rollback failed");
+  } finally {
+    setRollingBack(null);
   }
 }
 
+function toggleCompare(record: PromotionRecord) {
+  setCompareIds((ids) => {
+    if (ids.includes(record.id)) return ids.filter((id) => id !== record.id);
+    // only versions of the same kind are comparable; keep the latest pick
+    const sameKind = ids.filter(
+      (id) => promotions.find((p) => p.id === id)?.kind === record.kind
+    );
+    return [...sameKind, record.id].slice(-2);
+  });
+}
 
-async function disableLiveVariants() {
+const loadScheduledPromotions = useCallback(async () => {
   try {
-    setDisablingLive(true);
-    setDisableError(null);
-    setDisableMessage(null);
-
-    const variantsRef = collection(db, "variants");
-    const snap = await getDocs(variantsRef);
+    const res = await fetch(withSite("/api/scheduled-promotions", siteId));
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    setScheduledPromotions(json.promotions);
+  } catch (e) {
+    console.error("Error loading scheduled promotions:", e);
+  }
+}, [siteId]);
 
-    let foundLive = 0;
-    const batch = writeBatch(db);
+async function schedulePromotionAt(kind: ReviewKind, id: string) {
+  const runAt = fromLocalInput(promoteAt);
+  if (!runAt) {
+    alert("Pick a date and time to promote at first.");
+    return;
+  }
 
-    snap.forEach((docSnap) => {
-      const data = docSnap.data();
-      if (data.status === "live") {
-        foundLive++;
-        batch.update(docSnap.ref, { status: "archived" });
-      }
+  try {
+    setReviewBusy(`${kind}:${id}`);
+    const res = await fetch(api("/api/scheduled-promotions"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ kind, refId: id, runAt }),
     });
-
-    if (foundLive === 0) {
-      setDisableMessage("No live variant was active.");
-    } else {
-      await batch.commit();
-      setDisableMessage("Live AI copy disabled. A/B mode restored.");
+    const json = await res.json();
+    if (!json.ok) {
+      alert("Failed to schedule: " + json.error);
+      return;
     }
+    await loadScheduledPromotions();
   } catch (e) {
     console.error(e);
-    setDisableError("Failed to disable live AI copy.");
+    alert("Failed to schedule");
   } finally {
-    setDisablingLive(false);
+    setReviewBusy(null);
   }
 }
 
+async function cancelScheduled(id: string) {
+  try {
+    const res = await fetch(
+      `${api("/api/scheduled-promotions")}&id=${encodeURIComponent(id)}`,
+      { method: "DELETE" }
+    );
+    const json = await res.json();
+    if (!json.ok) alert("Failed to cancel: " + json.error);
+    await loadScheduledPromotions();
+  } catch (e) {
+    console.error(e);
+    alert("Failed to cancel");
+  }
+}
 
-  useEffect(() => {
-    loadEvents();
-    const id = setInterval(loadEvents, 5000);
-    return () => clearInterval(id);
-  }, []);
+async function saveSchedule() {
+  try {
+    setSavingSchedule(true);
+    const res = await fetch(api("/api/schedule"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        startAt: fromLocalInput(scheduleForm.startAt),
+        endAt: fromLocalInput(scheduleForm.endAt),
+        stop: {
+          maxDays: scheduleForm.maxDays,
+          maxSessions: scheduleForm.maxSessions,
+          onSignificance: scheduleForm.onSignificance,
+        },
+        promoteWinner: scheduleForm.promoteWinner,
+      }),
+    });
+    const json = await res.json();
+    if (!json.ok) {
+      alert("Failed to save schedule: " + json.error);
+      return;
+    }
+    setScheduleForm(EMPTY_SCHEDULE_FORM);
+    await loadAllocationState();
+  } catch (e) {
+    console.error(e);
+    alert("Failed to save schedule");
+  } finally {
+    setSavingSchedule(false);
+  }
+}
 
-  useEffect(() => {
-    setCurrentPage(0);
-  }, [filterType, filterVariant, searchQuery]);
+async function clearSchedule() {
+  try {
+    setSavingSchedule(true);
+    const res = await fetch(api("/api/schedule"), { method: "DELETE" });
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    await loadAllocationState();
+  } catch (e) {
+    console.error(e);
+    alert("Failed to remove schedule");
+  } finally {
+    setSavingSchedule(false);
+  }
+}
 
-  /** --- derived stats --- **/
+async function runSchedulerNow() {
+  try {
+    setSavingSchedule(true);
+    const res = await fetch(api("/api/scheduler"), { method: "POST" });
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    await Promise.all([
+      loadAllocationState(),
+      loadScheduledPromotions(),
+      loadPromotions(),
+      loadReviewQueue(),
+    ]);
+  } catch (e) {
+    console.error(e);
+    alert("Scheduler run failed");
+  } finally {
+    setSavingSchedule(false);
+  }
+}
 
-  const totalEvents = events.length;
-  const uniqueSessions = new Set(events.map((e) => e.sessionId)).size;
-  const variantStats = computeVariantStats(events);
+const loadHeatmap = useCallback(async () => {
+  try {
+    const params = new URLSearchParams();
+    if (heatmapPath) params.set("path", heatmapPath);
+    if (heatmapVariant) params.set("variantId", heatmapVariant);
+    if (heatmapDevice) params.set("device", heatmapDevice);
+    const res = await fetch(`${withSite("/api/heatmap", siteId)}&${params}`);
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    setHeatmapPages(json.pages);
+    setHeatmap(json.heatmap);
+  } catch (e) {
+    console.error("Error loading heatmap:", e);
+  }
+}, [siteId, heatmapPath, heatmapVariant, heatmapDevice]);
 
-  const winner =
-    variantStats.length === 2 &&
-    variantStats[0].avgScrollPercent !== null &&
-    variantStats[1].avgScrollPercent !== null
-      ? variantStats[0].avgScrollPercent > variantStats[1].avgScrollPercent
-        ? variantStats[0].variantId
-        : variantStats[1].variantId
-      : null;
+const loadStats = useCallback(async () => {
+  try {
+    const params = new URLSearchParams({
+      ...statsRange(statsDays),
+      segment: statsSegment,
+      variantIds: STATS_VARIANTS.join(","),
+    });
+    const res = await fetch(`${withSite("/api/stats", siteId)}&${params}`);
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    const next = (json.variants as VariantStats[]).filter(
+      (s) => s.variantId !== "unknown"
+    );
+    // keep the same array when a poll brings nothing new, so the
+    // significance memo below isn't recomputed
+    setVariantStats((prev) =>
+      JSON.stringify(prev) === JSON.stringify(next) ? prev : next
+    );
+    setStatsTotals(json.totals);
+    setStatsVisitors({
+      newVisitors: json.newVisitors,
+      returningSessions: json.returningSessions,
+    });
+    setStatsTruncated(json.truncated);
+  } catch (e) {
+    console.error("Error loading stats:", e);
+  }
+}, [siteId, statsDays, statsSegment]);
 
-  // recent events (max 100) with filters + pagination
-  const baseEvents = events.slice(0, maxDisplayEvents);
+const loadSources = useCallback(async () => {
+  try {
+    const params = new URLSearchParams({
+      ...statsRange(statsDays),
+      segment: statsSegment,
+      touch: sourceTouch,
+      variantIds: STATS_VARIANTS.join(","),
+    });
+    const res = await fetch(
+      `${withSite("/api/stats/sources", siteId)}&${params}`
+    );
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    setSourceRows(json.sources);
+    setSourcesTruncated(json.sessionsTruncated);
+  } catch (e) {
+    console.error("Error loading sources:", e);
+  }
+}, [siteId, statsDays, statsSegment, sourceTouch]);
 
-  const filteredEvents = baseEvents.filter((e) => {
-    const typeOk =
-      filterType === "all"
-        ? true
-        : filterType === "other"
-        ? !["pageview", "click", "scroll"].includes(
-            e.eventType.toLowerCase()
-          )
-        : e.eventType.toLowerCase() === filterType;
+const loadSegments = useCallback(async () => {
+  try {
+    const res = await fetch(withSite("/api/segments", siteId));
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    setSegments(json.segments);
+  } catch (e) {
+    console.error("Error loading segments:", e);
+  }
+}, [siteId]);
 
-    const v = (e.variantId ?? "unknown").toUpperCase();
-    const variantOk =
-      filterVariant === "all"
-        ? true
-        : filterVariant === "unknown"
-        ? v !== "A" && v !== "B"
-        : v === filterVariant.toUpperCase();
+const loadCohorts = useCallback(async () => {
+  try {
+    const params = new URLSearchParams({
+      weeks: String(COHORT_WEEKS),
+      segment: statsSegment,
+    });
+    const res = await fetch(`${withSite("/api/cohorts", siteId)}&${params}`);
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    setCohorts(json.cohorts);
+    setCohortsTruncated(json.truncated);
+  } catch (e) {
+    console.error("Error loading cohorts:", e);
+  }
+}, [siteId, statsSegment]);
+
+function editSegment(segment: Segment | null) {
+  setSegmentError(null);
+  setEditingSegmentId(segment?.id ?? null);
+  setSegmentName(segment?.name ?? "");
+  setSegmentRules(
+    segment
+      ? segment.rules.map((r) => ({ ...r, values: r.values.join(", ") }))
+      : [EMPTY_RULE]
+  );
+}
 
-    const payloadString = JSON.stringify(e.payload ?? {}).toLowerCase();
-    const searchOk = searchQuery
-      ? payloadString.includes(searchQuery.toLowerCase())
-      : true;
+function updateRule(index: number, changes: Partial<RuleDraft>) {
+  setSegmentRules((rules) =>
+    rules.map((rule, i) => {
+      if (i !== index) return rule;
+      const next = { ...rule, ...changes };
+      // a field change can rule out the current operator
+      if (!operatorsFor(next.field).includes(next.op)) next.op = "is";
+      return next;
+    })
+  );
+}
 
-    return typeOk && variantOk && searchOk;
-  });
+async function saveSegment() {
+  try {
+    setSavingSegment(true);
+    setSegmentError(null);
+    const res = await fetch(api("/api/segments"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        id: editingSegmentId ?? undefined,
+        name: segmentName,
+        rules: segmentRules.map((r) => ({
+          field: r.field,
+          op: r.op,
+          values: r.values.split(","),
+        })),
+      }),
+    });
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    editSegment(null);
+    await loadSegments();
+  } catch (e) {
+    setSegmentError((e as Error).message);
+  } finally {
+    setSavingSegment(false);
+  }
+}
 
-  const totalPages = Math.max(
-    1,
-    Math.ceil(filteredEvents.length / pageSize)
-  );
-  const safePage = Math.min(currentPage, totalPages - 1);
-  const startIndex = safePage * pageSize;
-  const pageEvents = filteredEvents.slice(
-    startIndex,
-    startIndex + pageSize
-  );
+async function removeSegment(segment: Segment) {
+  if (!confirm(`Delete the segment “${segment.name}”?`)) return;
+  try {
+    const res = await fetch(
+      `${api("/api/segments")}&id=${encodeURIComponent(segment.id)}`,
+      { method: "DELETE" }
+    );
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    if (statsSegment === savedSegmentKey(segment.id)) setStatsSegment("all");
+    await loadSegments();
+  } catch (e) {
+    console.error(e);
+    alert("Failed to delete segment");
+  }
+}
 
-  /** --- render --- **/
+// the preview's real height, so document-relative cells line up with it
+function measurePreview(e: React.SyntheticEvent<HTMLIFrameElement>) {
+  const height =
+    e.currentTarget.contentDocument?.documentElement.scrollHeight ?? null;
+  setPreviewHeight(height);
+}
 
-  return (
+const loadGuardrails = useCallback(async () => {
+  try {
+    const [guardrailsRes, alertsRes] = await Promise.all([
+      fetch(withSite("/api/guardrails", siteId)),
+      fetch(`${withSite("/api/alerts", siteId)}&open=1`),
+    ]);
+    const guardrailsJson = await guardrailsRes.json();
+    const alertsJson = await alertsRes.json();
+    if (!guardrailsJson.ok) throw new Error(guardrailsJson.error || "Failed");
+    if (!alertsJson.ok) throw new Error(alertsJson.error || "Failed");
+    setGuardrailSettings(guardrailsJson.settings);
+    setGuardrailChecks(guardrailsJson.checks ?? []);
+    setAlerts(alertsJson.alerts ?? []);
+  } catch (e) {
+    console.error("Error loading guardrails:", e);
+  }
+}, [siteId]);
+
+async function saveGuardrails(patch: Partial<GuardrailSettings>) {
+  try {
+    setSavingGuardrails(true);
+    const res = await fetch(api("/api/guardrails"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(patch),
+    });
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    setGuardrailSettings(json.settings);
+  } catch (e) {
+    console.error(e);
+    alert("Failed to save guardrails");
+  } finally {
+    setSavingGuardrails(false);
+  }
+}
+
+async function runGuardrailsNow() {
+  try {
+    setSavingGuardrails(true);
+    const res = await fetch(api("/api/guardrails/run"), { method: "POST" });
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    await Promise.all([
+      loadGuardrails(),
+      loadPromotions(),
+      loadAllocationState(),
+    ]);
+  } catch (e) {
+    console.error(e);
+    alert("Guardrail check failed");
+  } finally {
+    setSavingGuardrails(false);
+  }
+}
+
+async function acknowledge(id: string) {
+  try {
+    const res = await fetch(api("/api/alerts"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id }),
+    });
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    setAlerts((current) => current.filter((a) => a.id !== id));
+  } catch (e) {
+    console.error(e);
+    alert("Failed to acknowledge alert");
+  }
+}
+
+async function promoteReviewed(kind: ReviewKind, id: string) {
+  try {
+    setReviewBusy(`${kind}:${id}`);
+    const res = await fetch(
+      api(kind === "variant" ? "/api/promote-variant" : "/api/promote-landing"),
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          kind === "variant" ? { variantId: id } : { slug: id }
+        ),
+      }
+    );
+    const json = await res.json();
+    if (!json.ok) {
+      alert("Failed to promote: " + json.error);
+      return;
+    }
+    await Promise.all([
+      loadReviewQueue(),
+      loadAllocationState(),
+      loadPromotions(),
+    ]);
+  } catch (e) {
+    console.error(e);
+    alert("Error promoting");
+  } finally {
+    setReviewBusy(null);
+  }
+}
+
+
+const loadAutoModeState = useCallback(async () => {
+  try {
+    const res = await fetch(withSite("/api/auto-mode", siteId));
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    setAutoMode(json.autoMode);
+    setGuardrails(json.guardrails);
+    setCurrentTest(json.currentTest);
+    setPendingVariantId(json.pendingVariantId ?? null);
+    setAutoRuns(json.runs ?? []);
+  } catch (e) {
+    console.error("Error loading auto mode:", e);
+  }
+}, [siteId]);
+
+async function runAutoModeNow() {
+  try {
+    setRunningAutoMode(true);
+    const res = await fetch(api("/api/agent/run"), { method: "POST" });
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    await Promise.all([loadAutoModeState(), loadAllocationState()]);
+  } catch (e) {
+    console.error(e);
+    alert("Auto mode run failed");
+  } finally {
+    setRunningAutoMode(false);
+  }
+}
+
+const loadAllocationState = useCallback(async () => {
+  try {
+    const res = await fetch(withSite("/api/bandit", siteId));
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+    setAllocation(json.allocation);
+    setWeightHistory(json.history ?? []);
+  } catch (e) {
+    console.error("Error loading traffic allocation:", e);
+  }
+}, [siteId]);
+
+async function changeAllocationMode(mode: AllocationMode) {
+  try {
+    setSavingAllocation(true);
+    const res = await fetch(api("/api/bandit"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ mode, epsilon: allocation?.epsilon }),
+    });
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Failed");
+
+    // recompute right away so the new mode takes effect
+    if (mode !== "fixed") {
+      await fetch(api("/api/bandit/recompute"), { method: "POST" });
+    }
+    await loadAllocationState();
+  } catch (e) {
+    console.error(e);
+    alert("Failed to change allocation mode");
+  } finally {
+    setSavingAllocation(false);
+  }
+}
+
+
+async function disableLiveVariants() {
+  try {
+    setDisablingLive(true);
+    setDisableError(null);
+    setDisableMessage(null);
+
+    const res = await fetch(api("/api/active-variant"), {
+      method: "DELETE",
+    });
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Disable failed");
+
+    await loadPromotions();
+    if (json.archived === 0) {
+      setDisableMessage("No live variant was active.");
+    } else {
+      setDisableMessage("Live AI copy disabled. A/B mode restored.");
+    }
+  } catch (e) {
+    console.error(e);
+    setDisableError("Failed to disable live AI copy.");
+  } finally {
+    setDisablingLive(false);
+  }
+}
+
+
+  useEffect(() => {
+    loadEvents();
+    const id = setInterval(loadEvents, 5000);
+    return () => clearInterval(id);
+  }, [loadEvents]);
+
+  useEffect(() => {
+    loadAllocationState();
+    loadAutoModeState();
+    loadReviewQueue();
+    loadPromotions();
+    loadScheduledPromotions();
+    loadGuardrails();
+  }, [
+    loadAllocationState,
+    loadAutoModeState,
+    loadReviewQueue,
+    loadPromotions,
+    loadScheduledPromotions,
+    loadGuardrails,
+  ]);
+
+  useEffect(() => {
+    loadHeatmap();
+  }, [loadHeatmap]);
+
+  useEffect(() => {
+    loadSources();
+    loadCohorts();
+  }, [loadSources, loadCohorts]);
+
+  useEffect(() => {
+    loadSegments();
+  }, [loadSegments]);
+
+  useEffect(() => {
+    loadStats();
+    const id = setInterval(loadStats, STATS_REFRESH_MS);
+    return () => clearInterval(id);
+  }, [loadStats]);
+
+  useEffect(() => {
+    setCurrentPage(0);
+  }, [filterType, filterVariant, searchQuery]);
+
+  /** --- derived stats --- **/
+
+  const segmentLabel =
+    segments.find((seg) => savedSegmentKey(seg.id) === statsSegment)?.name ??
+    (statsSegment === "all" ? "All visitors" : statsSegment);
+  const primaryGoalLabel = getGoal(PRIMARY_GOAL_ID)?.label ?? PRIMARY_GOAL_ID;
+  // "winner" is only set once the difference is statistically significant;
+  // Monte Carlo, so only rerun when the stats change
+  const significance = useMemo(
+    () => compareVariants(variantStats, { controlId: "A" }),
+    [variantStats]
+  );
+  const winner = significance.winner;
+
+  // the newest record of each kind is what's live right now
+  const livePromotionIds = new Set(
+    (["variant", "landing"] as const)
+      .map((kind) => promotions.find((p) => p.kind === kind)?.id)
+      .filter((id): id is string => Boolean(id))
+  );
+  const compared = compareIds
+    .map((id) => promotions.find((p) => p.id === id))
+    .filter((p): p is PromotionRecord => Boolean(p))
+    .sort((a, b) => a.at.localeCompare(b.at));
+  const comparedChanges =
+    compared.length === 2
+      ? diffContent(
+          compared[0].spec ?? compared[0].hero ?? {},
+          compared[1].spec ?? compared[1].hero ?? {}
+        )
+      : [];
+
+  // heatmap preview: laid out at the device's width, scaled into the frame
+  const previewUrl = heatmap
+    ? heatmapPreviewUrl(heatmap.path, heatmapVariant, siteId)
+    : null;
+  const previewWidth = heatmapDevice
+    ? PREVIEW_WIDTHS[heatmapDevice]
+    : heatmap?.docWidth ?? PREVIEW_WIDTHS.desktop;
+  const previewFullHeight = Math.max(
+    previewHeight ?? 0,
+    heatmap?.docHeight ?? 0,
+    previewWidth
+  );
+  const previewScale = HEATMAP_FRAME_WIDTH / previewWidth;
+  const hottestCell = Math.max(
+    1,
+    ...(heatmap?.cells ?? []).map((c) => c.clicks)
+  );
+
+  function formatPercent(value: number | null, digits = 1) {
+    return value !== null ? `${(value * 100).toFixed(digits)}%` : "–";
+  }
+
+  function formatDuration(ms: number | null) {
+    if (ms === null) return "–";
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60
+      ? `${seconds}s`
+      : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  }
+
+  // recent events (max 100) with filters + pagination
+  const baseEvents = events.slice(0, maxDisplayEvents);
+
+  const filteredEvents = baseEvents.filter((e) => {
+    const typeOk =
+      filterType === "all"
+        ? true
+        : filterType === "other"
+        ? !["pageview", "click", "scroll", "goal", "engagement"].includes(
+            e.eventType.toLowerCase()
+          )
+        : e.eventType.toLowerCase() === filterType;
+
+    const v = (e.variantId ?? "unknown").toUpperCase();
+    const variantOk =
+      filterVariant === "all"
+        ? true
+        : filterVariant === "unknown"
+        ? v !== "A" && v !== "B"
+        : v === filterVariant.toUpperCase();
+
+    const payloadString = JSON.stringify(e.payload ?? {}).toLowerCase();
+    const searchOk = searchQuery
+      ? payloadString.includes(searchQuery.toLowerCase())
+      : true;
+
+    return typeOk && variantOk && searchOk;
+  });
+
+  const totalPages = Math.max(
+    1,
+    Math.ceil(filteredEvents.length / pageSize)
+  );
+  const safePage = Math.min(currentPage, totalPages - 1);
+  const startIndex = safePage * pageSize;
+  const pageEvents = filteredEvents.slice(
+    startIndex,
+    startIndex + pageSize
+  );
+
+  /** --- render --- **/
+
+  return (
     <div className="min-h-screen bg-neutral-950 text-neutral-50">
       <div className="mx-auto max-w-6xl px-5 py-6 space-y-8 md:px-8">
         {/* HEADER */}
@@ -451,18 +1277,116 @@ async function disableLiveVariants() {
             </div>
           </div>
 
-          <a
-            href="/"
-            className="inline-flex items-center justify-center rounded-full border border-neutral-700 px-3 py-1.5 text-[11px] text-neutral-100 hover:border-neutral-400"
-          >
-            Back to site
-          </a>
+          <div className="flex items-center gap-2">
+            <select
+              value={siteId}
+              onChange={(e) => onSiteChange(e.target.value)}
+              className="rounded-full border border-neutral-700 bg-neutral-950 px-3 py-1.5 text-[11px] text-neutral-200"
+            >
+              {(sites.length > 0
+                ? sites
+                : [{ id: siteId, name: siteId }]
+              ).map((site) => (
+                <option key={site.id} value={site.id}>
+                  {site.name}
+                </option>
+              ))}
+            </select>
+
+            <a
+              href="/"
+              className="inline-flex items-center justify-center rounded-full border border-neutral-700 px-3 py-1.5 text-[11px] text-neutral-100 hover:border-neutral-400"
+            >
+              Back to site
+            </a>
+
+            <button
+              onClick={signOut}
+              title={`${operator.email} · ${operator.role}`}
+              className="inline-flex items-center justify-center rounded-full border border-neutral-700 px-3 py-1.5 text-[11px] text-neutral-300 hover:border-neutral-400"
+            >
+              Sign out {operator.name}
+            </button>
+          </div>
         </header>
 
+        {/* ALERTS */}
+        {alerts.length > 0 && (
+          <section className="space-y-2">
+            {alerts.map((a) => (
+              <div
+                key={a.id}
+                className={`flex flex-wrap items-center justify-between gap-2 rounded-lg border px-3 py-2 text-xs ${
+                  a.severity === "critical"
+                    ? "border-red-700 bg-red-500/10 text-red-200"
+                    : "border-amber-700 bg-amber-500/10 text-amber-200"
+                }`}
+              >
+                <span>
+                  <span className="font-medium">{a.source}</span> ·{" "}
+                  {new Date(a.createdAt).toLocaleString()} · {a.message}
+                </span>
+                <button
+                  onClick={() => acknowledge(a.id)}
+                  disabled={!canEdit}
+                  className="rounded-full border border-current px-3 py-0.5 text-[11px] disabled:opacity-40"
+                >
+                  Acknowledge
+                </button>
+              </div>
+            ))}
+          </section>
+        )}
+
         {loading ? (
           <p className="text-sm text-neutral-300">Loading telemetry…</p>
         ) : (
           <>
+            {/* FILTERS: range and segment for every metric below */}
+            <section className="flex flex-col gap-3 rounded-xl border border-neutral-800 bg-neutral-950/80 p-4 text-xs sm:flex-row sm:items-center sm:justify-between">
+              <p className="text-neutral-400">
+                Showing{" "}
+                <span className="text-neutral-100">{segmentLabel}</span>, last{" "}
+                {statsDays} days.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <select
+                  value={statsDays}
+                  onChange={(e) => setStatsDays(Number(e.target.value))}
+                  className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-xs text-neutral-200"
+                >
+                  {STATS_RANGES.map((days) => (
+                    <option key={days} value={days}>
+                      Last {days} days
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={statsSegment}
+                  onChange={(e) => setStatsSegment(e.target.value)}
+                  className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-xs text-neutral-200"
+                >
+                  <option value="all">All visitors</option>
+                  <optgroup label="Device">
+                    {DEVICE_CLASSES.map((d) => (
+                      <option key={d} value={`device:${d}`}>
+                        {d}
+                      </option>
+                    ))}
+                  </optgroup>
+                  {segments.length > 0 && (
+                    <optgroup label="Saved segments">
+                      {segments.map((seg) => (
+                        <option key={seg.id} value={savedSegmentKey(seg.id)}>
+                          {seg.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+              </div>
+            </section>
+
             {/* METRICS */}
             <section className="grid gap-4 md:grid-cols-3 text-sm">
               <div className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4">
@@ -470,10 +1394,11 @@ async function disableLiveVariants() {
                   Total events
                 </p>
                 <p className="mt-2 text-2xl font-semibold text-neutral-50">
-                  {totalEvents}
+                  {statsTotals?.totalEvents ?? 0}
                 </p>
                 <p className="mt-1 text-xs text-neutral-500">
-                  Scrolls, clicks and pageviews combined.
+                  Scrolls, clicks and pageviews combined, last {statsDays}{" "}
+                  days.
                 </p>
               </div>
               <div className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4">
@@ -481,10 +1406,18 @@ async function disableLiveVariants() {
                   Unique sessions
                 </p>
                 <p className="mt-2 text-2xl font-semibold text-neutral-50">
-                  {uniqueSessions}
+                  {statsTotals?.sessions ?? 0}
                 </p>
                 <p className="mt-1 text-xs text-neutral-500">
-                  Distinct visitors based on sessionId.
+                  {statsVisitors.newVisitors} new visitors ·{" "}
+                  {statsVisitors.returningSessions} sessions from returning
+                  visitors (30 min inactivity ends a session).
+                  {statsTruncated && (
+                    <span className="text-amber-300">
+                      {" "}
+                      Only the most recent sessions in this range were read.
+                    </span>
+                  )}
                 </p>
               </div>
               <div className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4">
@@ -492,72 +1425,697 @@ async function disableLiveVariants() {
                   Current winner
                 </p>
                 <p className="mt-2 text-2xl font-semibold text-neutral-50">
-                  {winner ? `Variant ${winner}` : "Not enough data"}
+                  {winner ? `Variant ${winner}` : "No significant winner"}
                 </p>
                 <p className="mt-1 text-xs text-neutral-500">
-                  Determined by higher average scroll depth.
+                  Conversion on “{primaryGoalLabel}”. {significance.reason}
                 </p>
               </div>
             </section>
 
-            {/* VARIANT PERFORMANCE */}
+            {/* VARIANT PERFORMANCE */}
+            <section className="space-y-3">
+              <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-neutral-500">
+                Variant performance
+              </h2>
+              <div className="grid gap-4 md:grid-cols-2 text-sm">
+                {variantStats.map((s) => (
+                  <div
+                    key={s.variantId}
+                    className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4"
+                  >
+                    <div className="mb-2 flex items-center justify-between">
+                      <p className="text-sm font-semibold text-neutral-50">
+                        Variant {s.variantId}
+                      </p>
+                      {winner === s.variantId ? (
+                        <span className="rounded-full bg-neutral-100 px-2 py-0.5 text-[10px] font-medium text-neutral-900">
+                          Winner
+                        </span>
+                      ) : (
+                        significance.leader === s.variantId && (
+                          <span className="rounded-full border border-neutral-700 px-2 py-0.5 text-[10px] font-medium text-neutral-300">
+                            Leading (not significant)
+                          </span>
+                        )
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <p className="text-[11px] text-neutral-500">
+                          Sessions
+                        </p>
+                        <p className="text-neutral-100">{s.sessions}</p>
+                      </div>
+                      <div>
+                        <p className="text-[11px] text-neutral-500">
+                          Total events
+                        </p>
+                        <p className="text-neutral-100">
+                          {s.totalEvents}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-[11px] text-neutral-500">
+                          Avg max scroll
+                        </p>
+                        <p className="text-neutral-100">
+                          {s.avgScroll !== null
+                            ? `${s.avgScroll.toFixed(1)}%`
+                            : "–"}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-[11px] text-neutral-500">
+                          Click events
+                        </p>
+                        <p className="text-neutral-100">
+                          {s.clicks}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-[11px] text-neutral-500">
+                          Conversions
+                        </p>
+                        <p className="text-neutral-100">
+                          {s.conversions}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-[11px] text-neutral-500">
+                          Conversion rate
+                        </p>
+                        <p className="text-neutral-100">
+                          {formatPercent(s.conversionRate)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-[11px] text-neutral-500">
+                          Avg time on page
+                        </p>
+                        <p className="text-neutral-100">
+                          {formatDuration(s.avgDwellMs)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-[11px] text-neutral-500">
+                          Avg active time
+                        </p>
+                        <p className="text-neutral-100">
+                          {formatDuration(s.avgActiveMs)}
+                        </p>
+                      </div>
+                      <div className="col-span-2">
+                        <p className="text-[11px] text-neutral-500">
+                          Sessions reaching scroll depth
+                        </p>
+                        <p className="text-neutral-100">
+                          {SCROLL_MILESTONES.map(
+                            (m) =>
+                              `${m}%: ${formatPercent(s.scrollReach[m], 0)}`
+                          ).join(" · ")}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* SIGNIFICANCE */}
+            <section className="space-y-3">
+              <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-neutral-500">
+                Significance
+              </h2>
+              <div className="overflow-x-auto rounded-xl border border-neutral-800 bg-neutral-950/80">
+                <table className="min-w-full text-left text-xs text-neutral-300">
+                  <thead className="border-b border-neutral-800 bg-neutral-900">
+                    <tr>
+                      <th className="px-4 py-2">Variant</th>
+                      <th className="px-4 py-2">Conversion</th>
+                      <th className="px-4 py-2">95% CI</th>
+                      <th className="px-4 py-2">
+                        Lift vs {significance.controlId}
+                      </th>
+                      <th className="px-4 py-2">p-value</th>
+                      <th className="px-4 py-2">P(best)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {significance.variants.map((v) => (
+                      <tr
+                        key={v.variantId}
+                        className="border-b border-neutral-900"
+                      >
+                        <td className="px-4 py-2 text-neutral-100">
+                          {v.variantId}
+                          {v.variantId === significance.controlId &&
+                            " (control)"}
+                        </td>
+                        <td className="px-4 py-2">
+                          {formatPercent(v.conversionRate)}{" "}
+                          <span className="text-neutral-500">
+                            ({v.conversions}/{v.sessions})
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-neutral-400">
+                          {v.confidenceInterval
+                            ? `${formatPercent(v.confidenceInterval[0])} – ${formatPercent(v.confidenceInterval[1])}`
+                            : "–"}
+                        </td>
+                        <td className="px-4 py-2">
+                          {v.liftVsControl !== null
+                            ? `${v.liftVsControl >= 0 ? "+" : ""}${formatPercent(v.liftVsControl)}`
+                            : "–"}
+                        </td>
+                        <td className="px-4 py-2">
+                          {v.pValueVsControl !== null
+                            ? v.pValueVsControl.toFixed(4)
+                            : "–"}
+                        </td>
+                        <td className="px-4 py-2">
+                          {formatPercent(v.probabilityToBeBest)}
+                        </td>
+                      </tr>
+                    ))}
+                    {significance.variants.length === 0 && (
+                      <tr>
+                        <td
+                          className="px-4 py-4 text-center text-neutral-500"
+                          colSpan={6}
+                        >
+                          No variant traffic yet.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-neutral-500">
+                A winner needs {significance.settings.minSessions}+ sessions
+                per variant, p &lt; {significance.settings.alpha} (Bonferroni
+                corrected) against the runner-up and ≥{" "}
+                {formatPercent(significance.settings.probabilityThreshold, 0)}{" "}
+                probability to be best.
+              </p>
+            </section>
+
+            {/* PERFORMANCE BY SOURCE */}
+            <section className="space-y-3">
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-neutral-500">
+                  Performance by source (last {statsDays} days)
+                </h2>
+                <select
+                  value={sourceTouch}
+                  onChange={(e) =>
+                    setSourceTouch(e.target.value as TouchModel)
+                  }
+                  className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-xs text-neutral-200"
+                >
+                  <option value="last">Last touch</option>
+                  <option value="first">First touch</option>
+                </select>
+              </div>
+              <div className="overflow-x-auto rounded-xl border border-neutral-800 bg-neutral-950/80">
+                <table className="min-w-full text-left text-xs text-neutral-300">
+                  <thead className="border-b border-neutral-800 bg-neutral-900">
+                    <tr>
+                      <th className="px-4 py-2">Source / medium</th>
+                      <th className="px-4 py-2">Sessions</th>
+                      {STATS_VARIANTS.map((id) => (
+                        <th key={id} className="px-4 py-2">
+                          {id} conversion
+                        </th>
+                      ))}
+                      <th className="px-4 py-2">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sourceRows.map((row) => (
+                      <tr
+                        key={`${row.source}/${row.medium}`}
+                        className="border-b border-neutral-900"
+                      >
+                        <td className="px-4 py-2 text-neutral-100">
+                          {row.source}{" "}
+                          <span className="text-neutral-500">
+                            / {row.medium}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2">{row.sessions}</td>
+                        {STATS_VARIANTS.map((id) => {
+                          const v = row.variants.find(
+                            (s) => s.variantId === id
+                          );
+                          return (
+                            <td key={id} className="px-4 py-2">
+                              {formatPercent(v?.conversionRate ?? null)}{" "}
+                              <span className="text-neutral-500">
+                                ({v?.conversions ?? 0}/{v?.sessions ?? 0})
+                              </span>
+                            </td>
+                          );
+                        })}
+                        <td className="px-4 py-2" title={row.reason}>
+                          {row.winner
+                            ? `${row.winner} wins`
+                            : row.leader
+                              ? `${row.leader} leads (not significant)`
+                              : "–"}
+                        </td>
+                      </tr>
+                    ))}
+                    {sourceRows.length === 0 && (
+                      <tr>
+                        <td
+                          className="px-4 py-4 text-center text-neutral-500"
+                          colSpan={STATS_VARIANTS.length + 3}
+                        >
+                          No sessions with a recorded source yet.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-neutral-500">
+                Last touch credits the latest non-direct source before a
+                visit; first touch credits the visitor&apos;s first source.
+                Sources come from UTM parameters, else the referrer.
+                {sourcesTruncated && (
+                  <span className="text-amber-300">
+                    {" "}
+                    Only the most recent sessions in this range were read.
+                  </span>
+                )}
+              </p>
+            </section>
+
+            {/* SEGMENTS */}
+            <section className="space-y-3">
+              <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-neutral-500">
+                Segments
+              </h2>
+              <div className="grid gap-4 md:grid-cols-2 text-xs">
+                <div className="space-y-2 rounded-xl border border-neutral-800 bg-neutral-950/80 p-4">
+                  {segments.length === 0 && (
+                    <p className="text-neutral-500">
+                      No saved segments yet. Every metric above can be
+                      filtered by one once it&apos;s saved.
+                    </p>
+                  )}
+                  {segments.map((seg) => (
+                    <div
+                      key={seg.id}
+                      className="flex items-start justify-between gap-3 border-b border-neutral-900 pb-2 last:border-0"
+                    >
+                      <div>
+                        <p className="text-sm text-neutral-100">{seg.name}</p>
+                        <p className="text-neutral-500">
+                          {describeRules(seg.rules)}
+                        </p>
+                      </div>
+                      <div className="flex shrink-0 gap-2">
+                        <button
+                          onClick={() =>
+                            setStatsSegment(savedSegmentKey(seg.id))
+                          }
+                          className="rounded-full border border-neutral-700 px-3 py-1 text-[11px] text-neutral-300 hover:border-neutral-400"
+                        >
+                          View
+                        </button>
+                        {canEdit && (
+                          <>
+                            <button
+                              onClick={() => editSegment(seg)}
+                              className="rounded-full border border-neutral-700 px-3 py-1 text-[11px] text-neutral-300 hover:border-neutral-400"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => removeSegment(seg)}
+                              className="rounded-full border border-red-900 px-3 py-1 text-[11px] text-red-300 hover:border-red-700"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {canEdit && (
+                  <div className="space-y-3 rounded-xl border border-neutral-800 bg-neutral-950/80 p-4">
+                    <p className="text-sm text-neutral-100">
+                      {editingSegmentId ? "Edit segment" : "New segment"}
+                    </p>
+                    <input
+                      value={segmentName}
+                      onChange={(e) => setSegmentName(e.target.value)}
+                      placeholder="Name, e.g. Returning visitors from Google"
+                      className="w-full rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-neutral-100"
+                    />
+                    {segmentRules.map((rule, i) => (
+                      <div key={i} className="flex flex-wrap gap-2">
+                        <select
+                          value={rule.field}
+                          onChange={(e) =>
+                            updateRule(i, {
+                              field: e.target.value as RuleDraft["field"],
+                            })
+                          }
+                          className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-neutral-200"
+                        >
+                          {SEGMENT_FIELDS.map((field) => (
+                            <option key={field} value={field}>
+                              {SEGMENT_FIELD_LABELS[field]}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={rule.op}
+                          onChange={(e) =>
+                            updateRule(i, {
+                              op: e.target.value as SegmentOperator,
+                            })
+                          }
+                          className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-neutral-200"
+                        >
+                          {operatorsFor(rule.field).map((op) => (
+                            <option key={op} value={op}>
+                              {SEGMENT_OPERATOR_LABELS[op]}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          value={rule.values}
+                          onChange={(e) =>
+                            updateRule(i, { values: e.target.value })
+                          }
+                          list={`segment-values-${rule.field}`}
+                          placeholder={
+                            rule.field === "firstVisit"
+                              ? "YYYY-MM-DD"
+                              : "value, another value"
+                          }
+                          className="min-w-0 flex-1 rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-neutral-100"
+                        />
+                        {segmentRules.length > 1 && (
+                          <button
+                            onClick={() =>
+                              setSegmentRules((rules) =>
+                                rules.filter((_, j) => j !== i)
+                              )
+                            }
+                            className="rounded-full border border-neutral-700 px-3 py-1 text-[11px] text-neutral-400 hover:border-neutral-400"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {Object.entries(SEGMENT_FIELD_VALUES).map(
+                      ([field, values]) => (
+                        <datalist key={field} id={`segment-values-${field}`}>
+                          {values.map((value) => (
+                            <option key={value} value={value} />
+                          ))}
+                        </datalist>
+                      )
+                    )}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <button
+                        onClick={() =>
+                          setSegmentRules((rules) => [...rules, EMPTY_RULE])
+                        }
+                        className="rounded-full border border-neutral-700 px-3 py-1 text-[11px] text-neutral-300 hover:border-neutral-400"
+                      >
+                        Add rule
+                      </button>
+                      <button
+                        onClick={saveSegment}
+                        disabled={savingSegment}
+                        className="rounded-full border border-neutral-200 bg-neutral-50 px-4 py-1.5 text-[11px] font-medium text-neutral-900 disabled:opacity-60"
+                      >
+                        {savingSegment ? "Saving…" : "Save segment"}
+                      </button>
+                      {editingSegmentId && (
+                        <button
+                          onClick={() => editSegment(null)}
+                          className="text-neutral-400 hover:text-neutral-200"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-neutral-500">
+                      All rules have to match. Separate alternatives with
+                      commas; source, medium and campaign are the last
+                      non-direct touch.
+                    </p>
+                    {segmentError && (
+                      <p className="text-red-400">{segmentError}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </section>
+
+            {/* COHORTS */}
+            <section className="space-y-3">
+              <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-neutral-500">
+                Returning visitors by weekly cohort ({segmentLabel})
+              </h2>
+              <div className="overflow-x-auto rounded-xl border border-neutral-800 bg-neutral-950/80">
+                <table className="min-w-full text-left text-xs text-neutral-300">
+                  <thead className="border-b border-neutral-800 bg-neutral-900">
+                    <tr>
+                      <th className="px-4 py-2">First visit (week of)</th>
+                      <th className="px-4 py-2">Visitors</th>
+                      {Array.from({ length: COHORT_WEEKS }, (_, week) => (
+                        <th key={week} className="px-4 py-2">
+                          Week {week}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {cohorts.map((row) => (
+                      <tr key={row.week} className="border-b border-neutral-900">
+                        <td className="px-4 py-2 text-neutral-100">
+                          {row.week}
+                        </td>
+                        <td className="px-4 py-2">{row.visitors}</td>
+                        {row.retention.map((share, week) => (
+                          <td
+                            key={week}
+                            className="px-4 py-2"
+                            style={
+                              share !== null
+                                ? {
+                                    backgroundColor: `rgba(250, 250, 250, ${(share * 0.25).toFixed(3)})`,
+                                  }
+                                : undefined
+                            }
+                          >
+                            {share !== null ? formatPercent(share, 0) : ""}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                    {cohorts.length === 0 && (
+                      <tr>
+                        <td
+                          className="px-4 py-4 text-center text-neutral-500"
+                          colSpan={COHORT_WEEKS + 2}
+                        >
+                          No visitors first seen in the last {COHORT_WEEKS}{" "}
+                          weeks.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-neutral-500">
+                Each row is the visitors first seen that week (UTC, Monday
+                start); week N is the share who had a session N weeks later.
+                {cohortsTruncated && (
+                  <span className="text-amber-300">
+                    {" "}
+                    Only the most recent sessions in these weeks were read.
+                  </span>
+                )}
+              </p>
+            </section>
+
+            {/* CLICK HEATMAP */}
             <section className="space-y-3">
-              <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-neutral-500">
-                Variant performance
-              </h2>
-              <div className="grid gap-4 md:grid-cols-2 text-sm">
-                {variantStats.map((s) => (
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-neutral-500">
+                  Click heatmap (last 7 days)
+                </h2>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  <select
+                    value={heatmapPath || heatmap?.path || ""}
+                    onChange={(e) => {
+                      setHeatmapPath(e.target.value);
+                      setHeatmapVariant("");
+                      setPreviewHeight(null);
+                    }}
+                    className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-xs text-neutral-200"
+                  >
+                    {heatmapPages.length === 0 && (
+                      <option value="">No pages yet</option>
+                    )}
+                    {heatmapPages.map((p) => (
+                      <option key={p.path} value={p.path}>
+                        {p.path} ({p.clicks})
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={heatmapVariant}
+                    onChange={(e) => setHeatmapVariant(e.target.value)}
+                    className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-xs text-neutral-200"
+                  >
+                    <option value="">All variants</option>
+                    {heatmap?.variants.map((v) => (
+                      <option key={v.variantId} value={v.variantId}>
+                        {v.variantId} ({v.clicks})
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={heatmapDevice}
+                    onChange={(e) => {
+                      setHeatmapDevice(e.target.value as DeviceClass | "");
+                      setPreviewHeight(null);
+                    }}
+                    className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-xs text-neutral-200"
+                  >
+                    <option value="">All devices</option>
+                    {DEVICE_CLASSES.map((d) => (
+                      <option key={d} value={d}>
+                        {d} ({heatmap?.devices[d] ?? 0})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {!heatmap ? (
+                <p className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4 text-xs text-neutral-500">
+                  No clicks recorded yet.
+                </p>
+              ) : (
+                <div className="flex flex-col gap-4 lg:flex-row">
                   <div
-                    key={s.variantId}
-                    className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4"
+                    className="relative shrink-0 overflow-hidden rounded-xl border border-neutral-800 bg-neutral-900"
+                    style={{
+                      width: HEATMAP_FRAME_WIDTH,
+                      height: previewFullHeight * previewScale,
+                    }}
                   >
-                    <div className="mb-2 flex items-center justify-between">
-                      <p className="text-sm font-semibold text-neutral-50">
-                        Variant {s.variantId}
-                      </p>
-                      {winner === s.variantId && (
-                        <span className="rounded-full bg-neutral-100 px-2 py-0.5 text-[10px] font-medium text-neutral-900">
-                          Leading
-                        </span>
+                    <div
+                      className="relative origin-top-left"
+                      style={{
+                        width: previewWidth,
+                        height: previewFullHeight,
+                        transform: `scale(${previewScale})`,
+                      }}
+                    >
+                      {previewUrl && (
+                        <iframe
+                          key={previewUrl + previewWidth}
+                          src={previewUrl}
+                          title={`Preview of ${heatmap.path}`}
+                          width={previewWidth}
+                          height={previewFullHeight}
+                          onLoad={measurePreview}
+                          className="pointer-events-none border-0"
+                        />
                       )}
-                    </div>
-                    <div className="grid grid-cols-2 gap-3">
-                      <div>
-                        <p className="text-[11px] text-neutral-500">
-                          Sessions
-                        </p>
-                        <p className="text-neutral-100">{s.sessions}</p>
-                      </div>
-                      <div>
-                        <p className="text-[11px] text-neutral-500">
-                          Total events
-                        </p>
-                        <p className="text-neutral-100">
-                          {s.totalEvents}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-[11px] text-neutral-500">
-                          Avg scroll
-                        </p>
-                        <p className="text-neutral-100">
-                          {s.avgScrollPercent !== null
-                            ? `${s.avgScrollPercent.toFixed(1)}%`
-                            : "–"}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-[11px] text-neutral-500">
-                          Click events
-                        </p>
-                        <p className="text-neutral-100">
-                          {s.clickEvents}
-                        </p>
+                      <div className="pointer-events-none absolute inset-0">
+                        {heatmap.cells.map((c) => (
+                          <div
+                            key={`${c.col}:${c.row}`}
+                            className="absolute rounded-sm"
+                            title={`${c.clicks} clicks`}
+                            style={{
+                              left: `${(c.col / heatmap.columns) * 100}%`,
+                              top: `${(c.row / heatmap.rows) * 100}%`,
+                              width: `${100 / heatmap.columns}%`,
+                              height: `${100 / heatmap.rows}%`,
+                              backgroundColor: `rgba(249, 115, 22, ${
+                                0.2 + 0.7 * (c.clicks / hottestCell)
+                              })`,
+                            }}
+                          />
+                        ))}
                       </div>
                     </div>
                   </div>
-                ))}
-              </div>
+
+                  <div className="min-w-0 flex-1 space-y-2">
+                    <p className="text-xs text-neutral-400">
+                      {heatmap.clicks} clicks on {heatmap.path}
+                      {heatmap.variantId && ` · variant ${heatmap.variantId}`}
+                      {heatmap.device && ` · ${heatmap.device}`}
+                      {!previewUrl &&
+                        " · no preview for pages outside this app"}
+                    </p>
+                    <div className="overflow-x-auto rounded-xl border border-neutral-800 bg-neutral-950/80">
+                      <table className="min-w-full text-left text-xs text-neutral-300">
+                        <thead className="border-b border-neutral-800 bg-neutral-900">
+                          <tr>
+                            <th className="px-4 py-2">Element</th>
+                            <th className="px-4 py-2">Clicks</th>
+                            <th className="px-4 py-2">Share</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {heatmap.targets.map((t) => (
+                            <tr
+                              key={t.selector}
+                              className="border-b border-neutral-900"
+                            >
+                              <td className="px-4 py-2">
+                                <p className="text-neutral-100">
+                                  {t.text || t.tag.toLowerCase()}
+                                </p>
+                                <p className="break-all font-mono text-[10px] text-neutral-500">
+                                  {t.selector}
+                                </p>
+                              </td>
+                              <td className="px-4 py-2">{t.clicks}</td>
+                              <td className="px-4 py-2">
+                                {formatPercent(
+                                  heatmap.clicks
+                                    ? t.clicks / heatmap.clicks
+                                    : null
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                          {heatmap.targets.length === 0 && (
+                            <tr>
+                              <td
+                                className="px-4 py-4 text-center text-neutral-500"
+                                colSpan={3}
+                              >
+                                No clicks match these filters.
+                              </td>
+                            </tr>
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </div>
+              )}
             </section>
 
             {/* AI VARIANT LAB */}
@@ -579,7 +2137,7 @@ async function disableLiveVariants() {
                   </div>
                   <button
                     onClick={runAgent}
-                    disabled={agentLoading}
+                    disabled={agentLoading || !canEdit}
                     className="inline-flex items-center justify-center rounded-full border border-neutral-200 bg-neutral-50 px-4 py-1.5 text-[11px] font-medium text-neutral-900 hover:bg-neutral-200 disabled:opacity-60"
                   >
                     {agentLoading ? "Running…" : "Run agent"}
@@ -626,7 +2184,13 @@ async function disableLiveVariants() {
                         <span className="text-neutral-200">
                           {agentData.aiUsed === "gemini"
                             ? "Gemini"
+                            : agentData.aiUsed === "openai"
+                            ? "OpenAI-compatible model"
+                            : agentData.aiUsed === "stub"
+                            ? "Offline stub"
                             : "Heuristic"}
+                          {agentData.prompt &&
+                            ` · prompt ${agentData.prompt.id}@${agentData.prompt.version}`}
                         </span>
                       </p>
                       {agentData.aiError && (
@@ -674,7 +2238,7 @@ async function disableLiveVariants() {
                   {agentData && (
                     <button
                       onClick={saveSuggestedVariant}
-                      disabled={savingVariant}
+                      disabled={savingVariant || !canEdit}
                       className="inline-flex items-center justify-center rounded-full border border-neutral-200 bg-neutral-50 px-4 py-1.5 text-[11px] font-medium text-neutral-900 hover:bg-neutral-200 disabled:opacity-60"
                     >
                       {savingVariant ? "Saving…" : "Save as variant"}
@@ -683,37 +2247,19 @@ async function disableLiveVariants() {
 
                   {savedVariantId && (
                     <button
-  onClick={async () => {
-    try {
-      if (!agentData || !agentData.suggestedVariant) return;
-
-      const res = await fetch("/api/promote-variant", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          variant: agentData.suggestedVariant,
-          variantId: agentData.suggestedVariant.fromVariant || "build-c",
-        }),
-      });
-
-      const json = await res.json();
-      console.log("Promote response:", json);
-
-      if (!json.ok) {
-        alert("Failed to promote variant: " + json.error);
-        return;
-      }
-
-      alert("Promoted to live variant!");
-    } catch (err) {
-      console.error(err);
-      alert("Error promoting variant");
-    }
-  }}
->
-  Promote to live
-</button>
-
+                      onClick={async () => {
+                        const ok = await sendReview(
+                          "variant",
+                          savedVariantId,
+                          "submit"
+                        );
+                        if (ok) alert("Variant submitted for review.");
+                      }}
+                      disabled={!canEdit || reviewBusy !== null}
+                      className="inline-flex items-center justify-center rounded-full border border-neutral-700 px-4 py-1.5 text-[11px] font-medium text-neutral-200 hover:bg-neutral-800 disabled:opacity-60"
+                    >
+                      Submit for review
+                    </button>
                   )}
                 </div>
 
@@ -727,6 +2273,7 @@ async function disableLiveVariants() {
 
   <button
     onClick={runLandingAgent}
+    disabled={!canEdit}
     className="mt-4 rounded-md bg-neutral-100 text-neutral-900 px-4 py-2 font-medium"
   >
     {landingLoading ? "Generating…" : "Generate Landing Build C"}
@@ -739,15 +2286,379 @@ async function disableLiveVariants() {
       </pre>
 
       <button
-        onClick={promoteLanding}
+        onClick={submitLanding}
+        disabled={!canEdit || reviewBusy !== null}
         className="mt-4 rounded-md border border-neutral-600 px-4 py-2 text-neutral-200"
       >
-        Save & Promote Landing Build
+        Save & Submit for Review
       </button>
     </div>
   )}
 </div>
 
+                {/* REVIEW QUEUE */}
+<section className="mt-10 rounded-xl border border-neutral-800 bg-neutral-950/80 p-4 mb-6">
+  <div className="flex items-center justify-between">
+    <h3 className="text-sm font-semibold text-neutral-100">Review queue</h3>
+    <button
+      onClick={loadReviewQueue}
+      className="text-[11px] text-neutral-400 hover:text-neutral-200"
+    >
+      Refresh
+    </button>
+  </div>
+  <p className="text-xs text-neutral-400">
+    Variants and landing builds need approval before they can be promoted or
+    receive traffic.
+  </p>
+  <label className="mt-2 flex items-center gap-2 text-[11px] text-neutral-400">
+    Promote at
+    <input
+      type="datetime-local"
+      value={promoteAt}
+      onChange={(e) => setPromoteAt(e.target.value)}
+      className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-0.5 text-neutral-200"
+    />
+    <span className="text-neutral-600">(for “Schedule” below)</span>
+  </label>
+
+  {queueVariants.length === 0 && queueBuilds.length === 0 ? (
+    <p className="mt-3 text-[11px] text-neutral-500">Nothing waiting.</p>
+  ) : (
+    <ul className="mt-3 space-y-3">
+      {[
+        ...queueVariants.map((v) => ({
+          kind: "variant" as const,
+          id: v.id,
+          title: v.heroTitle,
+          item: v,
+        })),
+        ...queueBuilds.map((b) => ({
+          kind: "landing" as const,
+          id: b.slug,
+          title: `Landing build ${b.slug}`,
+          item: b,
+        })),
+      ].map(({ kind, id, title, item }) => {
+        const busy = reviewBusy === `${kind}:${id}`;
+        const ownSubmission = item.submittedBy === operator.email;
+        return (
+          <li
+            key={`${kind}:${id}`}
+            className="rounded-lg border border-neutral-800 p-3 text-xs"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <span className="text-neutral-200">{title}</span>{" "}
+                <span className="text-neutral-500">
+                  · {kind} · {item.status.replace("_", " ")}
+                  {item.status === "in_review" &&
+                    ` · ${item.approvals.length} approval(s)`}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {item.status === "in_review" && (
+                  <>
+                    <button
+                      onClick={() => sendReview(kind, id, "approve")}
+                      disabled={!canApprove || ownSubmission || busy}
+                      title={
+                        ownSubmission
+                          ? "You can't approve your own submission"
+                          : undefined
+                      }
+                      className="rounded-full border border-green-700 px-3 py-1 text-green-300 disabled:opacity-40"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => sendReview(kind, id, "request_changes")}
+                      disabled={!canApprove || busy}
+                      className="rounded-full border border-amber-700 px-3 py-1 text-amber-300 disabled:opacity-40"
+                    >
+                      Request changes
+                    </button>
+                  </>
+                )}
+                {item.status === "approved" && (
+                  <button
+                    onClick={() => promoteReviewed(kind, id)}
+                    disabled={!canApprove || busy}
+                    className="rounded-full border border-neutral-200 bg-neutral-50 px-3 py-1 text-neutral-900 disabled:opacity-40"
+                  >
+                    Promote to live
+                  </button>
+                )}
+                {item.status === "approved" && (
+                  <button
+                    onClick={() => schedulePromotionAt(kind, id)}
+                    disabled={!canApprove || !promoteAt || busy}
+                    className="rounded-full border border-neutral-700 px-3 py-1 text-neutral-300 disabled:opacity-40"
+                  >
+                    Schedule
+                  </button>
+                )}
+                <button
+                  onClick={() => sendReview(kind, id, "comment")}
+                  disabled={busy}
+                  className="rounded-full border border-neutral-700 px-3 py-1 text-neutral-300 disabled:opacity-40"
+                >
+                  Comment
+                </button>
+                <button
+                  onClick={() => sendReview(kind, id, "archive")}
+                  disabled={!canApprove || busy}
+                  className="rounded-full border border-neutral-700 px-3 py-1 text-neutral-400 disabled:opacity-40"
+                >
+                  Archive
+                </button>
+              </div>
+            </div>
+            {item.reviews.length > 0 && (
+              <ul className="mt-2 space-y-0.5 text-[11px] text-neutral-500">
+                {item.reviews.map((entry, i) => (
+                  <li key={i}>{describeReview(entry)}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  )}
+
+  {scheduledPromotions.length > 0 && (
+    <div className="mt-4 space-y-1 text-[11px] text-neutral-500">
+      <p className="uppercase tracking-[0.16em]">Scheduled promotions</p>
+      {scheduledPromotions.slice(0, 10).map((p) => (
+        <p key={p.id} className="flex flex-wrap items-center gap-2">
+          <span className="text-neutral-300">
+            {new Date(p.runAt).toLocaleString()}
+          </span>
+          · {p.kind} {p.refId} · {p.status} · {p.by}
+          {p.error && <span className="text-red-400"> — {p.error}</span>}
+          {p.status === "pending" && (
+            <button
+              onClick={() => cancelScheduled(p.id)}
+              disabled={!canApprove}
+              className="text-neutral-400 underline disabled:opacity-40"
+            >
+              cancel
+            </button>
+          )}
+        </p>
+      ))}
+    </div>
+  )}
+</section>
+
+                {/* VERSION HISTORY */}
+<section className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4 mb-6">
+  <h3 className="text-sm font-semibold text-neutral-100">Version history</h3>
+  <p className="text-xs text-neutral-400">
+    Every change to the live hero and landing page. Pick two versions of the
+    same kind to compare them, or roll back to any earlier one.
+  </p>
+
+  {promotions.length === 0 ? (
+    <p className="mt-3 text-[11px] text-neutral-500">Nothing promoted yet.</p>
+  ) : (
+    <ul className="mt-3 space-y-1 text-xs">
+      {promotions.map((record) => (
+        <li
+          key={record.id}
+          className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-neutral-900 px-3 py-2"
+        >
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={compareIds.includes(record.id)}
+              onChange={() => toggleCompare(record)}
+              disabled={record.action === "clear"}
+            />
+            <span className="text-neutral-200">
+              {record.refId ?? "(cleared)"}
+            </span>
+            <span className="text-neutral-500">
+              · {record.kind} · {record.action}
+              {record.restoredFrom && " (restore)"} · {record.by} ·{" "}
+              {new Date(record.at).toLocaleString()}
+              {record.reason && ` — “${record.reason}”`}
+            </span>
+            {livePromotionIds.has(record.id) && (
+              <span className="rounded-full bg-green-500/20 px-2 text-[10px] text-green-300">
+                live
+              </span>
+            )}
+          </label>
+          {!livePromotionIds.has(record.id) && (
+            <button
+              onClick={() => rollbackTo(record)}
+              disabled={!canApprove || rollingBack !== null}
+              className="rounded-full border border-neutral-700 px-3 py-1 text-[11px] text-neutral-300 disabled:opacity-40"
+            >
+              {rollingBack === record.id ? "Rolling back…" : "Roll back to this"}
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  )}
+
+  {compared.length === 2 && (
+    <div className="mt-4">
+      <p className="text-[11px] text-neutral-500">
+        {compared[0].refId} → {compared[1].refId}:{" "}
+        {comparedChanges.length === 0
+          ? "no differences"
+          : `${comparedChanges.length} field(s) changed`}
+      </p>
+      {comparedChanges.length > 0 && (
+        <table className="mt-2 w-full text-left text-[11px]">
+          <thead className="text-neutral-500">
+            <tr>
+              <th className="py-1 pr-2 font-medium">Field</th>
+              <th className="py-1 pr-2 font-medium">Before</th>
+              <th className="py-1 font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparedChanges.map((change) => (
+              <tr key={change.path} className="border-t border-neutral-900 align-top">
+                <td className="py-1 pr-2 font-mono text-neutral-400">
+                  {change.path}
+                </td>
+                <td className="py-1 pr-2 text-red-300/80">
+                  {change.before ?? "—"}
+                </td>
+                <td className="py-1 text-green-300/80">
+                  {change.after ?? "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )}
+</section>
+
+
+                {/* GUARDRAILS BLOCK */}
+<section className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4 mb-6">
+  <div className="flex flex-wrap items-center justify-between gap-3">
+    <div>
+      <h3 className="text-sm font-semibold text-neutral-100">
+        Promotion guardrails
+      </h3>
+      <p className="text-xs text-neutral-400">
+        After each promotion, compares conversion, bounce and scroll depth
+        with the same window before it and rolls back automatically on a
+        significant regression.
+      </p>
+    </div>
+    <div className="flex items-center gap-2">
+      <button
+        onClick={runGuardrailsNow}
+        disabled={savingGuardrails || !canApprove}
+        className="rounded-full border border-neutral-700 px-3 py-1 text-[11px] text-neutral-300 disabled:opacity-40"
+      >
+        Check now
+      </button>
+      <button
+        onClick={() =>
+          saveGuardrails({ enabled: !guardrailSettings?.enabled })
+        }
+        disabled={!guardrailSettings || savingGuardrails || !canApprove}
+        className={`px-4 py-1.5 rounded-full text-xs font-medium border ${
+          guardrailSettings?.enabled
+            ? "bg-green-500/20 border-green-400 text-green-300"
+            : "bg-neutral-800 border-neutral-700 text-neutral-300"
+        }`}
+      >
+        {guardrailSettings?.enabled ? "ON" : "OFF"}
+      </button>
+    </div>
+  </div>
+
+  {guardrailSettings && (
+    <div className="mt-3 flex flex-wrap gap-3 text-[11px] text-neutral-400">
+      <label className="flex items-center gap-1">
+        Window (h)
+        <input
+          type="number"
+          min={1}
+          defaultValue={guardrailSettings.windowHours}
+          onBlur={(e) => saveGuardrails({ windowHours: Number(e.target.value) })}
+          disabled={!canApprove}
+          className="w-16 rounded-md border border-neutral-700 bg-neutral-950 px-2 py-0.5 text-neutral-200"
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        Min sessions
+        <input
+          type="number"
+          min={1}
+          defaultValue={guardrailSettings.minSessions}
+          onBlur={(e) => saveGuardrails({ minSessions: Number(e.target.value) })}
+          disabled={!canApprove}
+          className="w-20 rounded-md border border-neutral-700 bg-neutral-950 px-2 py-0.5 text-neutral-200"
+        />
+      </label>
+      {(
+        [
+          ["conversionRate", "Max conversion drop"],
+          ["bounceRate", "Max bounce rise"],
+          ["scrollDepth", "Max scroll drop"],
+        ] as const
+      ).map(([metric, label]) => (
+        <label key={metric} className="flex items-center gap-1">
+          {label} (%)
+          <input
+            type="number"
+            min={1}
+            max={100}
+            defaultValue={Math.round(guardrailSettings.thresholds[metric] * 100)}
+            onBlur={(e) =>
+              saveGuardrails({
+                thresholds: {
+                  ...guardrailSettings.thresholds,
+                  [metric]: Number(e.target.value) / 100,
+                },
+              })
+            }
+            disabled={!canApprove}
+            className="w-16 rounded-md border border-neutral-700 bg-neutral-950 px-2 py-0.5 text-neutral-200"
+          />
+        </label>
+      ))}
+    </div>
+  )}
+
+  {guardrailChecks.length > 0 && (
+    <div className="mt-3 space-y-1 text-[11px] text-neutral-500">
+      <p className="uppercase tracking-[0.16em]">Recent checks</p>
+      {guardrailChecks.slice(0, 5).map((check) => (
+        <p key={check.promotionId}>
+          <span className="text-neutral-400">
+            {new Date(check.checkedAt).toLocaleString()}
+          </span>{" "}
+          · {check.kind} {check.refId} ·{" "}
+          <span
+            className={
+              check.status === "rolled_back" || check.status === "regressed"
+                ? "text-red-300"
+                : "text-neutral-300"
+            }
+          >
+            {check.status.replace("_", " ")}
+          </span>{" "}
+          · {check.detail}
+        </p>
+      ))}
+    </div>
+  )}
+</section>
 
                 {/* AUTO MODE BLOCK */}
 <section className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4 mb-6">
@@ -769,7 +2680,7 @@ async function disableLiveVariants() {
           setAutoMode(!autoMode);
 
           // update to Firestore
-          await fetch("/api/auto-mode", {
+          await fetch(api("/api/auto-mode"), {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({ autoMode: !autoMode }),
@@ -785,7 +2696,7 @@ async function disableLiveVariants() {
           ? "bg-green-500/20 border-green-400 text-green-300"
           : "bg-neutral-800 border-neutral-700 text-neutral-300"
       }`}
-      disabled={savingAutoMode}
+      disabled={savingAutoMode || !canApprove}
     >
       {savingAutoMode ? "Saving..." : autoMode ? "ON" : "OFF"}
     </button>
@@ -796,6 +2707,245 @@ async function disableLiveVariants() {
       ✓ Agent can now automatically promote winning variants.
     </p>
   )}
+
+  {guardrails && (
+    <p className="mt-2 text-[11px] text-neutral-500">
+      Guardrails: {guardrails.minSessions}+ sessions per arm · p &lt;{" "}
+      {guardrails.alpha} · ≥{" "}
+      {(guardrails.probabilityThreshold * 100).toFixed(0)}% to be best ·
+      challenger gets {guardrails.challengerTrafficShare}% traffic · gives up
+      after {guardrails.maxTestDays} days.
+    </p>
+  )}
+
+  <div className="mt-3 flex flex-wrap items-center justify-between gap-3 text-[11px]">
+    <span className="text-neutral-400">
+      {currentTest
+        ? `Testing ${currentTest.variantId} vs ${currentTest.incumbentId} since ${new Date(
+            currentTest.startedAt
+          ).toLocaleString()}`
+        : pendingVariantId
+          ? `Challenger ${pendingVariantId} is waiting for review.`
+          : "No auto test running."}
+    </span>
+    <button
+      onClick={runAutoModeNow}
+      disabled={runningAutoMode || !canApprove}
+      className="rounded-full border border-neutral-700 px-3 py-1 text-neutral-200 hover:border-neutral-400 disabled:opacity-60"
+    >
+      {runningAutoMode ? "Running…" : "Run now"}
+    </button>
+  </div>
+
+  {autoRuns.length > 0 && (
+    <div className="mt-3 space-y-1 text-[11px] text-neutral-500">
+      <p className="uppercase tracking-[0.16em]">Recent runs</p>
+      {autoRuns.slice(0, 5).map((run) => (
+        <p key={run.ranAt}>
+          <span className="text-neutral-400">
+            {new Date(run.ranAt).toLocaleString()}
+          </span>{" "}
+          · <span className="text-neutral-200">{run.action}</span> ·{" "}
+          {run.detail}
+        </p>
+      ))}
+    </div>
+  )}
+</section>
+
+                {/* TRAFFIC ALLOCATION BLOCK */}
+<section className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4 mb-6">
+  <div className="flex flex-wrap items-center justify-between gap-3">
+    <div>
+      <h3 className="text-sm font-semibold text-neutral-100">
+        Traffic allocation
+      </h3>
+      <p className="text-xs text-neutral-400">
+        Fixed split, or let a bandit shift traffic towards the variant that
+        converts best (recomputed every 15 minutes).
+      </p>
+    </div>
+
+    <select
+      value={allocation?.mode ?? "fixed"}
+      onChange={(e) => changeAllocationMode(e.target.value as AllocationMode)}
+      disabled={!allocation || savingAllocation || !canEdit}
+      className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-xs text-neutral-200 disabled:opacity-60"
+    >
+      <option value="fixed">Fixed split</option>
+      <option value="thompson">Thompson sampling</option>
+      <option value="epsilon-greedy">
+        Epsilon-greedy (ε = {allocation?.epsilon ?? 0.1})
+      </option>
+    </select>
+  </div>
+
+  {allocation && (
+    <div className="mt-3 flex flex-wrap gap-2 text-[11px]">
+      {allocation.arms.map((arm) => (
+        <span
+          key={arm.variantId}
+          className="rounded-full border border-neutral-700 px-2 py-0.5 text-neutral-300"
+        >
+          {arm.variantId}: {arm.weight}%
+        </span>
+      ))}
+    </div>
+  )}
+
+  {weightHistory.length > 0 && (
+    <div className="mt-3 space-y-1 text-[11px] text-neutral-500">
+      <p className="uppercase tracking-[0.16em]">Weight history</p>
+      {weightHistory.slice(0, 5).map((entry) => (
+        <p key={entry.recomputedAt}>
+          <span className="text-neutral-400">
+            {new Date(entry.recomputedAt).toLocaleString()}
+          </span>{" "}
+          ·{" "}
+          {entry.arms.map((a) => `${a.variantId} ${a.weight}%`).join(" / ")}{" "}
+          · {entry.reason}
+        </p>
+      ))}
+    </div>
+  )}
+</section>
+
+                {/* EXPERIMENT SCHEDULE BLOCK */}
+<section className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4 mb-6">
+  <div className="flex flex-wrap items-center justify-between gap-3">
+    <div>
+      <h3 className="text-sm font-semibold text-neutral-100">
+        Experiment schedule
+      </h3>
+      <p className="text-xs text-neutral-400">
+        Time-box the current split: start later, and stop after a date, a
+        number of days or sessions, or once a winner is significant.
+      </p>
+    </div>
+    <button
+      onClick={runSchedulerNow}
+      disabled={savingSchedule || !canApprove}
+      className="rounded-full border border-neutral-700 px-3 py-1 text-[11px] text-neutral-300 disabled:opacity-40"
+    >
+      Run scheduler now
+    </button>
+  </div>
+
+  {allocation?.schedule && (
+    <div className="mt-3 text-[11px] text-neutral-400">
+      <p>
+        <span className="text-neutral-200">{allocation.status}</span>
+        {allocation.schedule.startAt &&
+          ` · starts ${new Date(allocation.schedule.startAt).toLocaleString()}`}
+        {allocation.startedAt &&
+          ` · started ${new Date(allocation.startedAt).toLocaleString()}`}
+        {allocation.schedule.endAt &&
+          ` · ends ${new Date(allocation.schedule.endAt).toLocaleString()}`}
+        {allocation.schedule.stop.maxDays &&
+          ` · max ${allocation.schedule.stop.maxDays} day(s)`}
+        {allocation.schedule.stop.maxSessions &&
+          ` · max ${allocation.schedule.stop.maxSessions} sessions`}
+        {allocation.schedule.stop.onSignificance && " · stops on significance"}
+        {allocation.schedule.promoteWinner && " · promotes the winner"}
+      </p>
+      {allocation.outcome && (
+        <p className="mt-1">
+          Stopped {new Date(allocation.outcome.stoppedAt).toLocaleString()}:{" "}
+          {allocation.outcome.detail} Kept{" "}
+          <span className="text-neutral-200">{allocation.outcome.keptId}</span>
+          {allocation.outcome.winnerId
+            ? ` (winner${allocation.outcome.promoted ? ", promoted" : ""})`
+            : " (no winner)"}
+          {allocation.outcome.promotionError &&
+            ` — promotion failed: ${allocation.outcome.promotionError}`}
+        </p>
+      )}
+      <button
+        onClick={clearSchedule}
+        disabled={savingSchedule || !canEdit}
+        className="mt-2 text-neutral-400 underline disabled:opacity-40"
+      >
+        Remove schedule
+      </button>
+    </div>
+  )}
+
+  <div className="mt-3 grid gap-2 text-[11px] text-neutral-400 md:grid-cols-3">
+    <label className="flex flex-col gap-1">
+      Start (empty = now)
+      <input
+        type="datetime-local"
+        value={scheduleForm.startAt}
+        onChange={(e) =>
+          setScheduleForm({ ...scheduleForm, startAt: e.target.value })
+        }
+        className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-neutral-200"
+      />
+    </label>
+    <label className="flex flex-col gap-1">
+      End
+      <input
+        type="datetime-local"
+        value={scheduleForm.endAt}
+        onChange={(e) =>
+          setScheduleForm({ ...scheduleForm, endAt: e.target.value })
+        }
+        className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-neutral-200"
+      />
+    </label>
+    <label className="flex flex-col gap-1">
+      Max days
+      <input
+        type="number"
+        min={1}
+        value={scheduleForm.maxDays}
+        onChange={(e) =>
+          setScheduleForm({ ...scheduleForm, maxDays: e.target.value })
+        }
+        className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-neutral-200"
+      />
+    </label>
+    <label className="flex flex-col gap-1">
+      Max sessions
+      <input
+        type="number"
+        min={1}
+        value={scheduleForm.maxSessions}
+        onChange={(e) =>
+          setScheduleForm({ ...scheduleForm, maxSessions: e.target.value })
+        }
+        className="rounded-md border border-neutral-700 bg-neutral-950 px-2 py-1 text-neutral-200"
+      />
+    </label>
+    <label className="flex items-center gap-2">
+      <input
+        type="checkbox"
+        checked={scheduleForm.onSignificance}
+        onChange={(e) =>
+          setScheduleForm({ ...scheduleForm, onSignificance: e.target.checked })
+        }
+      />
+      Stop when significant
+    </label>
+    <label className="flex items-center gap-2">
+      <input
+        type="checkbox"
+        checked={scheduleForm.promoteWinner}
+        onChange={(e) =>
+          setScheduleForm({ ...scheduleForm, promoteWinner: e.target.checked })
+        }
+        disabled={!canApprove}
+      />
+      Promote the winner
+    </label>
+  </div>
+  <button
+    onClick={saveSchedule}
+    disabled={savingSchedule || !canEdit}
+    className="mt-3 rounded-full border border-neutral-200 bg-neutral-50 px-4 py-1.5 text-[11px] font-medium text-neutral-900 disabled:opacity-60"
+  >
+    {savingSchedule ? "Saving…" : "Save schedule"}
+  </button>
 </section>
 
 
@@ -822,7 +2972,7 @@ async function disableLiveVariants() {
             setPersonaError(null);
             setPersonaSlug(null);
 
-            const res = await fetch("/api/persona-page", {
+            const res = await fetch(api("/api/persona-page"), {
               method: "POST",
             });
             const json = await res.json();
@@ -839,7 +2989,7 @@ async function disableLiveVariants() {
             setPersonaGenerating(false);
           }
         }}
-        disabled={personaGenerating}
+        disabled={personaGenerating || !canEdit}
         className="inline-flex items-center justify-center rounded-full border border-neutral-200 bg-neutral-50 px-4 py-1.5 text-[11px] font-medium text-neutral-900 hover:bg-neutral-200 disabled:opacity-60"
       >
         {personaGenerating ? "Generating…" : "Generate persona page"}
@@ -850,7 +3000,7 @@ async function disableLiveVariants() {
       <p className="mt-2 text-xs text-neutral-400">
         Persona page created:{" "}
         <a
-          href={`/persona/${personaSlug}`}
+          href={`/persona/${personaSlug}${sitePageQuery}`}
           className="text-neutral-100 underline underline-offset-2"
         >
           /persona/{personaSlug}
@@ -887,7 +3037,9 @@ async function disableLiveVariants() {
             setLandingError(null);
             setLandingSlug(null);
 
-            const res = await fetch("/api/landing-page", { method: "POST" });
+            const res = await fetch(api("/api/landing-page"), {
+              method: "POST",
+            });
             const json = await res.json();
 
             if (!json.ok) {
@@ -902,7 +3054,7 @@ async function disableLiveVariants() {
             setLandingGenerating(false);
           }
         }}
-        disabled={landingGenerating}
+        disabled={landingGenerating || !canEdit}
         className="inline-flex items-center justify-center rounded-full border border-neutral-200 bg-neutral-50 px-4 py-1.5 text-[11px] font-medium text-neutral-900 hover:bg-neutral-200 disabled:opacity-60"
       >
         {landingGenerating ? "Generating…" : "Generate landing Build"}
@@ -913,7 +3065,7 @@ async function disableLiveVariants() {
       <p className="mt-2 text-xs text-neutral-400">
         Landing build created:{" "}
         <a
-          href={`/build/${landingSlug}`}
+          href={`/build/${landingSlug}${sitePageQuery}`}
           className="text-neutral-100 underline underline-offset-2"
         >
           /build/{landingSlug}
@@ -933,7 +3085,7 @@ async function disableLiveVariants() {
 <div className="mt-3 flex justify-end">
   <button
     onClick={disableLiveVariants}
-    disabled={disablingLive}
+    disabled={disablingLive || !canApprove}
     className="inline-flex items-center justify-center rounded-full border border-neutral-700 px-4 py-1.5 text-[11px] text-neutral-200 hover:border-neutral-400 disabled:opacity-60"
   >
     {disablingLive ? "Disabling…" : "Disable live AI copy"}
@@ -997,6 +3149,8 @@ async function disableLiveVariants() {
                     <option value="pageview">Pageview</option>
                     <option value="click">Click</option>
                     <option value="scroll">Scroll</option>
+                    <option value="goal">Goal</option>
+                    <option value="engagement">Engagement</option>
                     <option value="other">Other</option>
                   </select>
 
@@ -0,0 +1,14 @@
+import { renderEmbedScript } from "@/lib/embed";
+
+// GET /embed.js — the tracking + content-swap snippet for external sites.
+// The site is chosen by the tag's data-site attribute, so one cached script
+// serves every site.
+export async function GET() {
+  return new Response(renderEmbedScript(), {
+    headers: {
+      "Content-Type": "application/javascript; charset=utf-8",
+      "Cache-Control": "public, max-age=300, s-maxage=3600",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Mode = "loading" | "login" | "setup";
+
+// only same-app paths, so ?next= can't bounce an operator to another site
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//")
+    ? next
+    : "/dashboard";
+}
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<Mode>("loading");
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((res) => res.json())
+      .then((json) => {
+        if (json.operator) {
+          window.location.href = nextPath();
+          return;
+        }
+        setMode(json.setupRequired ? "setup" : "login");
+      })
+      .catch(() => setMode("login"));
+  }, []);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const res = await fetch(
+        mode === "setup" ? "/api/auth/setup" : "/api/auth/login",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, name, password }),
+        }
+      );
+      const json = await res.json();
+      if (!json.ok) throw new Error(json.error || "Sign-in failed");
+
+      window.location.href = nextPath();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-950 text-neutral-50 flex items-center justify-center px-5">
+      <form
+        onSubmit={submit}
+        className="w-full max-w-sm space-y-4 rounded-xl border border-neutral-800 bg-neutral-900/40 p-6"
+      >
+        <div>
+          <p className="text-sm font-semibold tracking-tight">
+            {mode === "setup" ? "Create the first admin" : "cMindX dashboard"}
+          </p>
+          <p className="text-xs text-neutral-500">
+            {mode === "setup"
+              ? "No operators exist yet. This account can invite the rest."
+              : "Sign in to continue."}
+          </p>
+        </div>
+
+        {mode === "loading" ? (
+          <p className="text-xs text-neutral-400">Checking session…</p>
+        ) : (
+          <>
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full rounded-md border border-neutral-700 bg-neutral-950 px-3 py-2 text-sm text-neutral-100"
+            />
+            {mode === "setup" && (
+              <input
+                type="text"
+                autoComplete="name"
+                placeholder="Name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full rounded-md border border-neutral-700 bg-neutral-950 px-3 py-2 text-sm text-neutral-100"
+              />
+            )}
+            <input
+              type="password"
+              required
+              autoComplete={mode === "setup" ? "new-password" : "current-password"}
+              placeholder="Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full rounded-md border border-neutral-700 bg-neutral-950 px-3 py-2 text-sm text-neutral-100"
+            />
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full rounded-full bg-neutral-100 px-4 py-2 text-sm font-medium text-neutral-900 hover:bg-neutral-200 disabled:opacity-60"
+            >
+              {submitting
+                ? "Signing in…"
+                : mode === "setup"
+                ? "Create admin"
+                : "Sign in"}
+            </button>
+          </>
+        )}
+      </form>
+    </div>
+  );
+}
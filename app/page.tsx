@@ -1,39 +1,24 @@
-"use client";
-
-import React, { useEffect, useState } from "react";
-import { useAnalytics } from "@/hooks/useAnalytics";
-
-type VariantId = "A" | "B";
-
-type LandingPageSpec = {
-  hero: {
-    title: string;
-    subtitle: string;
-    primaryCta: string;
-    secondaryCta: string;
-    badge: string;
-    strip: string;
-  };
-  system: {
-    currentVariantLabel: string;
-    dataSourceLabel: string;
-    agentLabel: string;
-    description: string;
-  };
-  pillars: {
-    label: string;
-    title: string;
-    body: string;
-  }[];
-  stackPoints: string[];
-  editCards: {
-    title: string;
-    body: string;
-  }[];
-};
-
-// fallback spec = your current copy, used if no AI spec yet
-const DEFAULT_SPEC: LandingPageSpec = {
+import { cookies } from "next/headers";
+import { AnalyticsBeacon } from "@/app/analytics-beacon";
+import {
+  previewArmContent,
+  resolveVisitorContent,
+  type LandingPageSpec,
+  type ResolvedContent,
+} from "@/lib/experiments";
+import { hasRole, sessionOperator } from "@/lib/auth";
+import { VISITOR_COOKIE } from "@/lib/identity";
+import { SESSION_COOKIE } from "@/lib/session";
+import {
+  CURRENT_SITE_ID,
+  DEFAULT_SITE_ID,
+  getSite,
+  isDocId,
+} from "@/lib/sites";
+
+// the default site is cMindX's own page: its current copy, used if no AI
+// spec is live yet
+const CMINDX_SPEC: LandingPageSpec = {
   hero: {
     title: "A landing page that rewrites itself from live behaviour.",
     subtitle:
@@ -93,49 +78,95 @@ const DEFAULT_SPEC: LandingPageSpec = {
   ],
 };
 
-export default function Home() {
-
-  const [landingContent, setLandingContent] = useState<any>(null);
-
-  const [variantId, setVariantId] = useState<VariantId>("A");
-  const [spec, setSpec] = useState<LandingPageSpec | null>(null);
-  const [usingAiSpec, setUsingAiSpec] = useState(false);
-
-  const [usingAiLanding, setUsingAiLanding] = useState(false);
-  const [activeLandingSlug, setActiveLandingSlug] = useState<string | null>(null);
-
-  // A/B assignment for analytics
-  useEffect(() => {
-    const v: VariantId = Math.random() < 0.5 ? "A" : "B";
-    setVariantId(v);
-  }, []);
-
-  useAnalytics(variantId);
-
-  // Fetch active landing spec
-useEffect(() => {
-  async function loadLanding() {
-    try {
-      const res = await fetch("/api/active-landing");
-      const json = await res.json();
+// any other site gets neutral copy under its own name until a build is live
+function defaultSpec(siteId: string, name: string): LandingPageSpec {
+  if (siteId === DEFAULT_SITE_ID) return CMINDX_SPEC;
+  return {
+    hero: {
+      title: name,
+      subtitle: "",
+      primaryCta: "Get started",
+      secondaryCta: "Learn more",
+      badge: "",
+      strip: "",
+    },
+    system: {
+      currentVariantLabel: "Variant A",
+      dataSourceLabel: "Firestore events & variants",
+      agentLabel: "Website agent",
+      description: "",
+    },
+    pillars: [],
+    stackPoints: [],
+    editCards: [],
+  };
+}
 
-      if (json.ok && json.spec) {
-        setUsingAiLanding(true);
-        setActiveLandingSlug(json.slug);
-        setLandingContent(json.spec); // <-- NEW: store AI hero content
-      }
-    } catch (e) {
-      console.error("active landing load failed", e);
+// Rendered per request: the visitor's arm, its hero copy and the live
+// landing build are resolved here (from the live-content cache), so the
+// first HTML already shows the right copy.
+// `?preview=<variantId>` renders that arm without assigning or tracking
+// anyone (dashboard heatmap); it needs a viewer session since drafts can be
+// previewed, and is ignored otherwise.
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const { preview } = await searchParams;
+  const requested = typeof preview === "string" && preview ? preview : null;
+  const store = await cookies();
+  const operator = requested
+    ? await sessionOperator(store.get(SESSION_COOKIE)?.value).catch(() => null)
+    : null;
+  const previewArm = operator && hasRole(operator, "viewer") ? requested : null;
+
+  // the registry's name for this deployment's site; a lookup failure only
+  // costs the branding
+  const site = await getSite(CURRENT_SITE_ID).catch(() => null);
+  const siteName =
+    site?.name ?? (CURRENT_SITE_ID === DEFAULT_SITE_ID ? "cMindX" : CURRENT_SITE_ID);
+
+  // proxy.ts sets a valid cookie before the first render; without one
+  // (the proxy didn't run) the control is rendered untracked
+  const cookie = store.get(VISITOR_COOKIE)?.value;
+  const visitorId = isDocId(cookie) ? cookie : null;
+  const tracked = !previewArm && visitorId !== null;
+
+  let content: ResolvedContent | null = null;
+  try {
+    if (previewArm) {
+      content = await previewArmContent(CURRENT_SITE_ID, previewArm);
+    } else if (visitorId) {
+      content = await resolveVisitorContent(CURRENT_SITE_ID, visitorId);
+    } else {
+      content = await previewArmContent(CURRENT_SITE_ID, "A");
     }
+  } catch (e) {
+    // fall back to the default copy on the control so the page still renders
+    console.error("variant assignment failed", e);
   }
 
-  loadLanding();
-}, []);
-
-  const page = spec ?? DEFAULT_SPEC;
+  const variantId = content?.variantId ?? "A";
+  const variantContent = content?.hero ?? null;
+
+  const landing = content?.landing ?? null;
+  const spec: LandingPageSpec | null = landing?.spec ?? null;
+  const page = spec ?? defaultSpec(CURRENT_SITE_ID, siteName);
+  const hero = variantContent
+    ? {
+        ...page.hero,
+        title: variantContent.heroTitle,
+        subtitle: variantContent.heroSubtitle,
+        primaryCta: variantContent.primaryCta,
+        secondaryCta: variantContent.secondaryCta,
+        badge: variantContent.badge ?? page.hero.badge,
+      }
+    : page.hero;
 
   return (
     <div className="min-h-screen bg-neutral-950 text-neutral-50">
+      {tracked && <AnalyticsBeacon variantId={variantId} />}
       {/* NAVBAR */}
       <header className="border-b border-neutral-900">
         <div className="mx-auto flex max-w-6xl items-center justify-between px-5 py-4 md:px-8">
@@ -145,11 +176,12 @@ useEffect(() => {
             </div>
             <div className="flex flex-col">
               <span className="text-sm font-semibold tracking-tight">
-                cMindX
+                {siteName}
               </span>
               <span className="text-[11px] text-neutral-500">
-                Self-evolving website agent · Variant {variantId}
-                {usingAiSpec && " · Live AI page"}
+                Self-evolving website agent
+                {variantId && ` · Variant ${variantId}`}
+                {spec && " · Live AI page"}
               </span>
             </div>
           </div>
@@ -170,16 +202,14 @@ useEffect(() => {
           </nav>
         </div>
 
-        {usingAiLanding && (
+        {landing && (
   <div className="border-b border-emerald-600/40 bg-emerald-900/20">
     <div className="mx-auto flex max-w-6xl items-center justify-between px-5 py-2 text-[11px] text-emerald-200 md:px-8">
       <span className="font-medium tracking-[0.16em] uppercase">
         AI Landing Build Active
       </span>
       <span className="text-emerald-300/90">
-        {activeLandingSlug
-          ? `Now serving: ${activeLandingSlug}`
-          : "Now serving: Build C"}
+        {`Now serving: ${landing.slug}`}
       </span>
     </div>
   </div>
@@ -194,36 +224,36 @@ useEffect(() => {
           {/* Left: copy */}
           <div className="space-y-6">
             <p className="text-[11px] uppercase tracking-[0.22em] text-neutral-500">
-              AI FOR WEB · CMINDX
+              AI FOR WEB · {siteName.toUpperCase()}
             </p>
 
             <h1 className="text-4xl font-semibold leading-tight tracking-tight text-neutral-50 md:text-5xl">
-  {landingContent?.heroTitle || 
-    "A landing page that rewrites itself from live behaviour."}
+  {hero.title}
 </h1>
 
 
             <p className="max-w-xl text-sm leading-relaxed text-neutral-300 md:text-[15px]">
-              {page.hero.subtitle}
+              {hero.subtitle}
             </p>
 
             <div className="flex flex-wrap items-center gap-3 pt-2">
               <a
                 href="/dashboard"
+                data-goal="primary_cta"
                 className="inline-flex items-center justify-center rounded-full bg-neutral-100 px-4 py-2 text-sm font-medium text-neutral-900 shadow-sm hover:bg-neutral-200"
               >
-                {page.hero.primaryCta}
+                {hero.primaryCta}
               </a>
               <a
                 href="#how"
                 className="inline-flex items-center justify-center rounded-full border border-neutral-700 px-4 py-2 text-sm font-medium text-neutral-100 hover:border-neutral-400"
               >
-                {page.hero.secondaryCta}
+                {hero.secondaryCta}
               </a>
             </div>
 
             <div className="mt-4 text-[11px] text-neutral-400">
-              {page.hero.strip}
+              {hero.strip}
             </div>
 
             <div className="mt-6 grid gap-4 text-xs text-neutral-400 sm:grid-cols-3">
@@ -287,54 +317,56 @@ useEffect(() => {
         </section>
 
         {/* HOW IT WORKS */}
-        <section
-          id="how"
-          className="grid gap-10 border-t border-neutral-900 pt-10 md:grid-cols-2"
-        >
-          <div>
-            <h2 className="text-xs font-semibold uppercase tracking-[0.2em] text-neutral-500">
-              How cMindX fits into your stack
-            </h2>
-            <p className="mt-4 text-sm text-neutral-300">
-              You don’t rebuild your website. You give it one intelligent
-              entry point: this page, a tiny analytics hook and a dashboard.
-              Everything else — events, variants, agent decisions — is just
-              data.
-            </p>
-            <ul className="mt-4 space-y-2 text-xs text-neutral-400">
-              {page.stackPoints.map((point) => (
-                <li key={point}>• {point}</li>
-              ))}
-            </ul>
-          </div>
+        {(page.stackPoints.length > 0 || page.editCards.length > 0) && (
+          <section
+            id="how"
+            className="grid gap-10 border-t border-neutral-900 pt-10 md:grid-cols-2"
+          >
+            <div>
+              <h2 className="text-xs font-semibold uppercase tracking-[0.2em] text-neutral-500">
+                How {siteName} fits into your stack
+              </h2>
+              <p className="mt-4 text-sm text-neutral-300">
+                You don’t rebuild your website. You give it one intelligent
+                entry point: this page, a tiny analytics hook and a dashboard.
+                Everything else — events, variants, agent decisions — is just
+                data.
+              </p>
+              <ul className="mt-4 space-y-2 text-xs text-neutral-400">
+                {page.stackPoints.map((point) => (
+                  <li key={point}>• {point}</li>
+                ))}
+              </ul>
+            </div>
 
-          <div id="what">
-            <h2 className="text-xs font-semibold uppercase tracking-[0.2em] text-neutral-500">
-              What exactly cMindX edits
-            </h2>
-            <div className="mt-4 grid gap-4 text-sm text-neutral-300">
-              {page.editCards.map((card) => (
-                <div
-                  key={card.title}
-                  className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4"
-                >
-                  <p className="font-medium text-neutral-100">
-                    {card.title}
-                  </p>
-                  <p className="mt-1 text-xs text-neutral-400">
-                    {card.body}
-                  </p>
-                </div>
-              ))}
+            <div id="what">
+              <h2 className="text-xs font-semibold uppercase tracking-[0.2em] text-neutral-500">
+                What exactly {siteName} edits
+              </h2>
+              <div className="mt-4 grid gap-4 text-sm text-neutral-300">
+                {page.editCards.map((card) => (
+                  <div
+                    key={card.title}
+                    className="rounded-xl border border-neutral-800 bg-neutral-950/80 p-4"
+                  >
+                    <p className="font-medium text-neutral-100">
+                      {card.title}
+                    </p>
+                    <p className="mt-1 text-xs text-neutral-400">
+                      {card.body}
+                    </p>
+                  </div>
+                ))}
+              </div>
             </div>
-          </div>
-        </section>
+          </section>
+        )}
       </main>
 
       {/* FOOTER */}
       <footer className="border-t border-neutral-900 px-5 py-4 text-xs text-neutral-500 md:px-8">
         <div className="mx-auto flex max-w-6xl flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-          <span>© {new Date().getFullYear()} cMindX.</span>
+          <span>© {new Date().getFullYear()} {siteName}.</span>
           <span>
             Built for teams who want their website to think for itself.
           </span>
@@ -1,42 +1,21 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useParams } from "next/navigation";
-import { db } from "@/lib/firebase";
-import { doc, getDoc } from "firebase/firestore";
-
-type PersonaSection =
-  | {
-      type: "section";
-      title: string;
-      body: string;
-    }
-  | {
-      type: "bullets";
-      title: string;
-      items: string[];
-    }
-  | {
-      type: "cta";
-      title: string;
-      body: string;
-    };
-
-type PersonaPageDoc = {
-  slug: string;
-  personaName: string;
-  pageTitle: string;
-  heroTitle: string;
-  heroSubtitle: string;
-  primaryCta: string;
-  secondaryCta: string;
-  sections: PersonaSection[];
-  createdAt?: string;
-};
+import { useParams, useSearchParams } from "next/navigation";
+import { useAnalytics } from "@/hooks/useAnalytics";
+import type { PersonaPageDoc } from "@/lib/schemas";
+import { CURRENT_SITE_ID, isSiteId } from "@/lib/site-id";
 
 export default function PersonaPage() {
   const params = useParams<{ slug: string }>();
   const slug = params.slug;
+  // pages of other sites are linked as /persona/{slug}?siteId=…
+  const searchParams = useSearchParams();
+  const requestedSite = searchParams.get("siteId");
+  const siteId = isSiteId(requestedSite) ? requestedSite : CURRENT_SITE_ID;
+
+  // not part of an experiment; ?preview (dashboard heatmap) isn't a visit
+  useAnalytics(searchParams.has("preview") ? null : undefined, siteId);
 
   const [page, setPage] = useState<PersonaPageDoc | null>(null);
   const [loading, setLoading] = useState(true);
@@ -50,14 +29,17 @@ export default function PersonaPage() {
         setError(null);
         setNotFound(false);
 
-        const ref = doc(db, "personaPages", slug);
-        const snap = await getDoc(ref);
+        const query = new URLSearchParams({ slug, siteId });
+        const res = await fetch(`/api/persona-page?${query}`);
+        const data = await res.json();
 
-        if (!snap.exists()) {
+        if (res.status === 404) {
           setNotFound(true);
           setPage(null);
+        } else if (!data.ok) {
+          setError(data.error ?? "Failed to load persona page.");
         } else {
-          setPage(snap.data() as PersonaPageDoc);
+          setPage(data.page as PersonaPageDoc);
         }
       } catch (e) {
         console.error(e);
@@ -70,7 +52,7 @@ export default function PersonaPage() {
     if (slug) {
       load();
     }
-  }, [slug]);
+  }, [slug, siteId]);
 
   if (loading) {
     return (
@@ -1,60 +1,266 @@
 "use client";
 
-import { useEffect } from "react";
+import { useCallback, useEffect, useRef } from "react";
+import {
+  getVisitorId,
+  newPageviewId,
+  touchSession,
+} from "@/lib/identity";
+import {
+  ACTIVE_SAMPLE_MS,
+  ENGAGEMENT_EVENT,
+  IDLE_TIMEOUT_MS,
+  SCROLL_MILESTONES,
+  type EngagementPayload,
+} from "@/lib/engagement";
+import { MAX_BATCH_SIZE } from "@/lib/events";
+import { GOALS } from "@/lib/goals";
+import { describeClick, deviceClass } from "@/lib/heatmap";
+import { CURRENT_SITE_ID } from "@/lib/site-id";
+import { pageviewSource } from "@/lib/traffic";
+
+type SendFn = (eventType: string, payload?: Record<string, unknown>) => void;
+
+type QueuedEvent = {
+  visitorId: string;
+  sessionId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  ts: string;
+  variantId?: string;
+};
+
+const ENDPOINT = "/api/analytics";
+const FLUSH_INTERVAL_MS = 5000;
+
+/**
+ * Tracks pageview, click, scroll and goal events for the current page.
+ * Clicks carry an element selector and viewport/document-relative
+ * positions (see lib/heatmap.ts) so they can be drawn as a heatmap.
+ * Scrolling is reported once per milestone (25/50/75/100%), and leaving or
+ * hiding the page sends an engagement event with dwell time, active time
+ * and max scroll depth (see lib/engagement.ts). The pageview carries the
+ * external referrer's host and UTM parameters (see lib/traffic.ts).
+ * Pass `null` while the variant is still being assigned; nothing is
+ * tracked until a real value (or `undefined` for untested pages) arrives.
+ *
+ * Events are stored under `siteId` (this deployment's site by default).
+ *
+ * Returns `track` for custom events, e.g. `track("goal", { goalId })`.
+ */
+export function useAnalytics(
+  variantId?: string | null,
+  siteId: string = CURRENT_SITE_ID
+) {
+  const sendRef = useRef<SendFn | null>(null);
 
-export function useAnalytics(variantId?: string) {
   useEffect(() => {
-    const sessionId =
-      crypto.randomUUID?.() ?? `sess_${Date.now()}_${Math.random()}`;
+    if (variantId === null) return;
+    const activeVariantId = variantId;
+
+    const visitorId = getVisitorId();
+
+    let queue: QueuedEvent[] = [];
+
+    const pageviewId = newPageviewId();
+    const path = window.location.pathname;
+    const startedAt = Date.now();
+    let activeMs = 0;
+    let lastSample = startedAt;
+    let lastInput = startedAt;
+    let maxScrollPercent = 0;
+    const milestonesReached = new Set<number>();
 
     function send(eventType: string, payload: Record<string, unknown> = {}) {
-      fetch("/api/analytics", {
+      queue.push({
+        visitorId,
+        sessionId: touchSession(),
+        eventType,
+        payload,
+        ts: new Date().toISOString(),
+        variantId: activeVariantId,
+      });
+
+      if (queue.length >= MAX_BATCH_SIZE) flush();
+    }
+
+    // Regular flushes go through fetch; on exit we hand the batch to
+    // sendBeacon, which the browser delivers even after the page is gone.
+    function flush(useBeacon = false) {
+      if (queue.length === 0) return;
+
+      const batch = queue.slice(0, MAX_BATCH_SIZE);
+      queue = queue.slice(batch.length);
+      const body = JSON.stringify({ siteId, events: batch });
+
+      if (useBeacon && navigator.sendBeacon) {
+        const queued = navigator.sendBeacon(
+          ENDPOINT,
+          new Blob([body], { type: "text/plain" })
+        );
+        if (queued) {
+          if (queue.length > 0) flush(true);
+          return;
+        }
+      }
+
+      fetch(ENDPOINT, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          sessionId,
-          eventType,
-          payload,
-          ts: new Date().toISOString(),
-          variantId,
-        }),
+        body,
+        keepalive: true,
       }).catch(() => {
         // ignore errors on client
       });
+
+      if (queue.length > 0) flush(useBeacon);
     }
 
+    sendRef.current = send;
+
     // pageview once
-    send("pageview", { path: window.location.pathname });
+    // device class and source decide the session's segments in the rollups
+    send("pageview", {
+      path,
+      pageviewId,
+      device: deviceClass(document.documentElement.clientWidth),
+      ...pageviewSource(),
+    });
+
+    // Counts the time since the last sample if the visitor was active
+    // throughout: page visible, window focused, recent input.
+    function sampleActivity() {
+      const now = Date.now();
+      if (
+        document.visibilityState === "visible" &&
+        document.hasFocus() &&
+        now - lastInput < IDLE_TIMEOUT_MS
+      ) {
+        activeMs += now - lastSample;
+      }
+      lastSample = now;
+    }
+
+    function handleInput() {
+      sampleActivity();
+      lastInput = Date.now();
+    }
+
+    // Repeats on every hide, so the last report per pageview is the total.
+    function reportEngagement() {
+      sampleActivity();
+      const payload: EngagementPayload = {
+        pageviewId,
+        path,
+        dwellMs: Date.now() - startedAt,
+        activeMs,
+        maxScrollPercent,
+      };
+      send(ENGAGEMENT_EVENT, payload);
+    }
 
     function handleClick(e: MouseEvent) {
       const target = e.target as HTMLElement;
-      const text = target.innerText?.slice(0, 80);
-      send("click", {
-        x: e.clientX,
-        y: e.clientY,
-        tag: target.tagName,
-        text,
-      });
+      const click = describeClick(e);
+      if (click) send("click", click);
+
+      for (const goal of GOALS) {
+        if (
+          goal.trigger.type === "click" &&
+          target.closest?.(goal.trigger.selector)
+        ) {
+          send("goal", { goalId: goal.id, trigger: "click" });
+        }
+      }
+    }
+
+    function handleSubmit(e: SubmitEvent) {
+      const form = e.target as HTMLElement;
+      for (const goal of GOALS) {
+        if (
+          goal.trigger.type === "submit" &&
+          form.matches?.(goal.trigger.selector)
+        ) {
+          send("goal", { goalId: goal.id, trigger: "submit" });
+        }
+      }
     }
 
+    // Raw scroll fires many times per second; only the deepest point and
+    // the first crossing of each milestone are kept.
     function handleScroll() {
+      handleInput();
+
       const scrollTop =
         window.pageYOffset || document.documentElement.scrollTop;
       const docHeight =
         document.documentElement.scrollHeight -
         document.documentElement.clientHeight;
       const scrollPercent =
-        docHeight > 0 ? Math.round((scrollTop / docHeight) * 100) : 0;
+        docHeight > 0
+          ? Math.min(100, Math.round((scrollTop / docHeight) * 100))
+          : 0;
 
-      send("scroll", { scrollPercent });
+      if (scrollPercent <= maxScrollPercent) return;
+      maxScrollPercent = scrollPercent;
+
+      for (const milestone of SCROLL_MILESTONES) {
+        if (scrollPercent >= milestone && !milestonesReached.has(milestone)) {
+          milestonesReached.add(milestone);
+          send("scroll", { scrollPercent: milestone, pageviewId });
+        }
+      }
+    }
+
+    function handleVisibilityChange() {
+      if (document.visibilityState === "hidden") {
+        reportEngagement();
+        flush(true);
+      } else {
+        // time spent hidden is never active
+        lastSample = Date.now();
+      }
+    }
+
+    function handlePageHide() {
+      reportEngagement();
+      flush(true);
     }
 
+    const flushTimer = window.setInterval(() => flush(), FLUSH_INTERVAL_MS);
+    const activityTimer = window.setInterval(sampleActivity, ACTIVE_SAMPLE_MS);
+    const inputEvents = ["pointerdown", "pointermove", "keydown", "wheel"];
+
     window.addEventListener("click", handleClick);
-    window.addEventListener("scroll", handleScroll);
+    window.addEventListener("submit", handleSubmit);
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    for (const type of inputEvents) {
+      window.addEventListener(type, handleInput, { passive: true });
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", handlePageHide);
 
     return () => {
+      // client-side navigation ends the pageview without a pagehide
+      reportEngagement();
+      sendRef.current = null;
+      window.clearInterval(flushTimer);
+      window.clearInterval(activityTimer);
       window.removeEventListener("click", handleClick);
+      window.removeEventListener("submit", handleSubmit);
       window.removeEventListener("scroll", handleScroll);
+      for (const type of inputEvents) {
+        window.removeEventListener(type, handleInput);
+      }
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", handlePageHide);
+      flush(true);
     };
-  }, [variantId]);
+  }, [variantId, siteId]);
+
+  const track = useCallback<SendFn>((eventType, payload = {}) => {
+    sendRef.current?.(eventType, payload);
+  }, []);
+
+  return { track };
 }
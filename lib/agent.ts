@@ -0,0 +1,145 @@
+// lib/agent.ts
+// Variant agent: turns live stats into a suggested hero variant. Shared by
+// /api/agent (manual runs) and the auto-mode runner.
+import {
+  generateJson,
+  getAiProvider,
+  NO_PROVIDER_MESSAGE,
+  type AiProviderName,
+} from "@/lib/ai";
+import { rankVariants, type VariantStats } from "@/lib/aggregate";
+import { renderPrompt, type PromptRef } from "@/lib/prompts";
+import { suggestedVariantSchema, type SuggestedVariant } from "@/lib/schemas";
+import { queryVariantStats } from "@/lib/rollups";
+import { compareVariants, type SignificanceResult } from "@/lib/stats";
+
+export type { SuggestedVariant };
+
+// Simple heuristic winner if the AI provider fails
+function buildMockSuggestion(
+  stats: VariantStats[],
+  significance: SignificanceResult
+): {
+  suggestedVariant: SuggestedVariant;
+  aiUsed: "mock";
+  aiError?: string;
+} {
+  if (stats.length === 0) {
+    const suggestedVariant: SuggestedVariant = {
+      fromVariant: "A",
+      heroTitle: "SELF-EVOLVING WEBSITE // BUILD C",
+      heroSubtitle:
+        "New variant evolved from the current winner, tuned to push visitors deeper into the page and increase interaction based on live analytics.",
+      primaryCta: "▶ Deploy Build C",
+      secondaryCta: "◎ Inspect experiment logs",
+      badge: "AGENT MODE • EVOLUTION",
+      meta: {
+        basedOn: null,
+        explanation:
+          "Mock agent: assumes that high scroll + clicks correlate with better engagement.",
+      },
+    };
+    return { suggestedVariant, aiUsed: "mock" };
+  }
+
+  // Prefer a statistically significant winner; otherwise build on the
+  // current leader (conversion rate, scroll depth as tie-break).
+  const winner =
+    stats.find((s) => s.variantId === significance.winner) ??
+    rankVariants(stats)[0];
+
+  const suggestedVariant: SuggestedVariant = {
+    fromVariant: winner.variantId,
+    heroTitle: "AUTONOMOUS GROWTH AGENT // BUILD C",
+    heroSubtitle:
+      "New variant evolved from the current winning variant, tuned from live conversion and scroll behaviour to drive more visitors to act.",
+    primaryCta: "▶ Deploy Build C",
+    secondaryCta: "◎ Inspect experiment logs",
+    badge: "AGENT MODE • EVOLUTION",
+    meta: {
+      basedOn: winner,
+      explanation: significance.winner
+        ? `Mock agent: variant ${winner.variantId} is the significant winner on primary-goal conversion, so Build C evolves from it. ${significance.reason}`
+        : `Mock agent: no significant winner yet, so Build C evolves from the current leader ${winner.variantId}. ${significance.reason}`,
+    },
+  };
+
+  return { suggestedVariant, aiUsed: "mock" };
+}
+
+export type VariantAgentResult = {
+  stats: VariantStats[];
+  significance: SignificanceResult;
+  suggestedVariant: SuggestedVariant;
+  aiUsed: AiProviderName | "mock";
+  aiError?: string;
+  /** Template behind `suggestedVariant`; null for the mock heuristic. */
+  prompt: PromptRef | null;
+};
+
+/**
+ * Runs the variant agent against the last 30 days of rollups. Returns
+ * `null` when there are no sessions to learn from yet.
+ */
+export async function runVariantAgent(
+  siteId: string,
+  { controlId = "A" }: { controlId?: string } = {}
+): Promise<VariantAgentResult | null> {
+  // 1) Per-variant stats, including goal conversions, from the rollups
+  const all = await queryVariantStats(siteId);
+
+  if (all.length === 0) return null;
+
+  // 2) Drop sessions without a variant
+  const stats: VariantStats[] = all.filter((s) => s.variantId !== "unknown");
+  const significance = compareVariants(stats, { controlId });
+
+  // 3) Try the configured provider first, fallback to mock
+  let suggestedVariant: SuggestedVariant;
+  let aiUsed: AiProviderName | "mock" = "mock";
+  let aiError: string | undefined;
+  let prompt: PromptRef | null = null;
+
+  const provider = getAiProvider();
+
+  if (provider) {
+    try {
+      const rendered = await renderPrompt(siteId, "variant", {
+        stats,
+        significance,
+      });
+
+      const result = await generateJson(provider, {
+        task: "variant",
+        prompt: rendered.prompt,
+        schema: suggestedVariantSchema,
+      });
+
+      if (result.ok) {
+        suggestedVariant = result.value;
+        aiUsed = provider.name;
+        prompt = rendered.ref;
+      } else {
+        const mock = buildMockSuggestion(stats, significance);
+        suggestedVariant = mock.suggestedVariant;
+        aiUsed = mock.aiUsed;
+        aiError = `${provider.name} output failed validation after ${result.attempts} attempts (${result.errors
+          .slice(0, 3)
+          .join("; ")}), used mock heuristic.`;
+      }
+    } catch (err) {
+      console.error(`${provider.name} error:`, err);
+      const mock = buildMockSuggestion(stats, significance);
+      suggestedVariant = mock.suggestedVariant;
+      aiUsed = mock.aiUsed;
+      aiError = String((err as Error)?.message || "AI call failed");
+    }
+  } else {
+    const mock = buildMockSuggestion(stats, significance);
+    suggestedVariant = mock.suggestedVariant;
+    aiUsed = mock.aiUsed;
+    aiError = `${NO_PROVIDER_MESSAGE} Using mock heuristic.`;
+  }
+
+  return { stats, significance, suggestedVariant, aiUsed, aiError, prompt };
+}
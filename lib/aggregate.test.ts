@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { computeSessionStats } from "@/lib/aggregate";
+import { ENGAGEMENT_EVENT } from "@/lib/engagement";
+
+const event = (
+  eventType: string,
+  payload: Record<string, unknown> = {}
+) => ({ sessionId: "s1", variantId: "A", eventType, payload });
+
+const exitReport = (maxScrollPercent: number, activeMs = 4000) =>
+  event(ENGAGEMENT_EVENT, {
+    pageviewId: "pv1",
+    path: "/",
+    dwellMs: 5000,
+    activeMs,
+    maxScrollPercent,
+  });
+
+describe("computeSessionStats", () => {
+  it("counts a pageview with only an unscrolled exit report as a bounce", () => {
+    const [session] = computeSessionStats([event("pageview"), exitReport(0)]);
+    expect(session.engaged).toBe(false);
+    expect(session.activeMs).toBe(4000);
+  });
+
+  it("counts scrolling short of the first milestone as engaged", () => {
+    const [session] = computeSessionStats([event("pageview"), exitReport(10)]);
+    expect(session.engaged).toBe(true);
+    expect(session.maxScroll).toBe(10);
+  });
+
+  it("counts clicks and milestones as engaged", () => {
+    const [clicked] = computeSessionStats([event("pageview"), event("click")]);
+    const [scrolled] = computeSessionStats([
+      event("pageview"),
+      event("scroll", { scrollPercent: 25 }),
+    ]);
+    expect(clicked.engaged).toBe(true);
+    expect(scrolled.engaged).toBe(true);
+    expect(scrolled.maxScroll).toBe(25);
+  });
+
+  it("keeps the largest of repeated exit reports per pageview", () => {
+    const [session] = computeSessionStats([
+      event("pageview"),
+      exitReport(0, 2000),
+      exitReport(0, 6000),
+    ]);
+    expect(session.activeMs).toBe(6000);
+    expect(session.dwellMs).toBe(5000);
+  });
+});
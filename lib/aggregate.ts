@@ -0,0 +1,468 @@
+// lib/aggregate.ts
+// Shared per-session and per-variant aggregation. Events fold into
+// SessionStats; sessions reduce to additive RollupCounters; counters become
+// VariantStats. lib/rollups.ts runs the same steps incrementally at ingest,
+// so stats from stored rollups and from a list of events always agree.
+import type { AnalyticsEvent } from "@/lib/events";
+import {
+  ENGAGEMENT_EVENT,
+  readEngagement,
+  SCROLL_MILESTONES,
+  type ScrollMilestone,
+} from "@/lib/engagement";
+import { PRIMARY_GOAL_ID } from "@/lib/goals";
+import type { BehaviourSummary } from "@/lib/prompts";
+
+type AggregatedEvent = Pick<
+  AnalyticsEvent,
+  "sessionId" | "eventType" | "payload" | "variantId"
+>;
+
+export type SessionStats = {
+  sessionId: string;
+  /** Arm of the session's first event ("unknown" when untested). */
+  variantId: string;
+  events: number;
+  pageviews: number;
+  clicks: number;
+  scrollEvents: number;
+  /**
+   * Didn't bounce: did anything besides pageviews and exit reports, or
+   * scrolled at all. Scroll events only mark milestones, so scrolling short
+   * of the first one shows up in the exit report's max depth instead.
+   */
+  engaged: boolean;
+  /** Deepest scroll reached (0–100); null if the session never reported one. */
+  maxScroll: number | null;
+  /** Largest exit report per pageview; reports repeat on every hide. */
+  pageviewTimes: Record<string, { dwellMs: number; activeMs: number }>;
+  /** Summed over `pageviewTimes`; null when no pageview reported on exit. */
+  dwellMs: number | null;
+  activeMs: number | null;
+  /** Goal IDs the session converted on. */
+  goals: string[];
+};
+
+export type VariantStats = {
+  variantId: string;
+  totalEvents: number;
+  sessions: number;
+  scrollEvents: number;
+  /** Mean of each session's deepest scroll, over sessions that reported one. */
+  avgScroll: number | null;
+  /** Share of sessions that scrolled at least this far. */
+  scrollReach: Record<ScrollMilestone, number | null>;
+  /** Means over sessions with an engagement report. */
+  avgDwellMs: number | null;
+  avgActiveMs: number | null;
+  clicks: number;
+  /** Sessions with at least one goal event for the scored goal. */
+  conversions: number;
+  conversionRate: number | null;
+  /** Converted sessions per goal ID, for every goal seen. */
+  goalConversions: Record<string, number>;
+};
+
+export type AggregateOptions = {
+  /** Goal used for `conversions` / `conversionRate`. */
+  goalId?: string;
+  /** Always include these variants, even with no events yet. */
+  variantIds?: string[];
+};
+
+/* ---------- sessions ---------- */
+
+export function emptySessionStats(
+  sessionId: string,
+  variantId: string
+): SessionStats {
+  return {
+    sessionId,
+    variantId,
+    events: 0,
+    pageviews: 0,
+    clicks: 0,
+    scrollEvents: 0,
+    engaged: false,
+    maxScroll: null,
+    pageviewTimes: {},
+    dwellMs: null,
+    activeMs: null,
+    goals: [],
+  };
+}
+
+/** Folds one event into `session` (in place) and returns it. */
+export function addEventToSession(
+  session: SessionStats,
+  e: AggregatedEvent
+): SessionStats {
+  const deeper = (percent: number) => {
+    if (Number.isFinite(percent)) {
+      session.maxScroll = Math.max(session.maxScroll ?? 0, percent);
+    }
+  };
+
+  session.events += 1;
+  if (e.eventType !== "pageview" && e.eventType !== ENGAGEMENT_EVENT) {
+    session.engaged = true;
+  }
+
+  if (e.eventType === "pageview") session.pageviews += 1;
+  if (e.eventType === "click") session.clicks += 1;
+  if (e.eventType === "scroll") {
+    session.scrollEvents += 1;
+    deeper(Number(e.payload.scrollPercent));
+  }
+  if (
+    e.eventType === "goal" &&
+    typeof e.payload.goalId === "string" &&
+    !session.goals.includes(e.payload.goalId)
+  ) {
+    session.goals.push(e.payload.goalId);
+  }
+  if (e.eventType === ENGAGEMENT_EVENT) {
+    const report = readEngagement(e.payload);
+    if (report) {
+      deeper(report.maxScrollPercent);
+      if (report.maxScrollPercent > 0) session.engaged = true;
+      const seen = session.pageviewTimes[report.pageviewId];
+      session.pageviewTimes[report.pageviewId] = {
+        dwellMs: Math.max(seen?.dwellMs ?? 0, report.dwellMs),
+        activeMs: Math.max(seen?.activeMs ?? 0, report.activeMs),
+      };
+      const reports = Object.values(session.pageviewTimes);
+      session.dwellMs = reports.reduce((sum, r) => sum + r.dwellMs, 0);
+      session.activeMs = reports.reduce((sum, r) => sum + r.activeMs, 0);
+    }
+  }
+
+  return session;
+}
+
+/** One entry per session seen in `events`, in first-seen order. */
+export function computeSessionStats(
+  events: AggregatedEvent[]
+): SessionStats[] {
+  const bySession = new Map<string, SessionStats>();
+
+  for (const e of events) {
+    let session = bySession.get(e.sessionId);
+    if (!session) {
+      session = emptySessionStats(e.sessionId, e.variantId || "unknown");
+      bySession.set(e.sessionId, session);
+    }
+    addEventToSession(session, e);
+  }
+
+  return [...bySession.values()];
+}
+
+/* ---------- counters ---------- */
+
+/**
+ * Additive totals over a set of sessions — what a daily rollup stores, and
+ * all VariantStats needs. Summing counters of disjoint session sets gives
+ * the counters of their union.
+ */
+export type RollupCounters = {
+  sessions: number;
+  events: number;
+  pageviews: number;
+  clicks: number;
+  scrollEvents: number;
+  engagedSessions: number;
+  /** Sessions with a scroll depth, and the sum of their deepest scroll. */
+  scrollSessions: number;
+  scrollSum: number;
+  /** Sessions whose deepest scroll reached each milestone. */
+  reach: Record<ScrollMilestone, number>;
+  /** Sessions with an exit report, and their summed times. */
+  timedSessions: number;
+  dwellMsSum: number;
+  activeMsSum: number;
+  /** Converted sessions per goal ID. */
+  goals: Record<string, number>;
+  /**
+   * Sessions that were a visitor's first (so each visitor counts once,
+   * ever) and sessions of visitors seen before. Distinct visitors over a
+   * range don't add up across days; these do. Rollups stored before they
+   * existed read as zero until rebuilt.
+   */
+  newVisitors: number;
+  returningSessions: number;
+};
+
+const COUNTER_FIELDS = [
+  "sessions",
+  "events",
+  "pageviews",
+  "clicks",
+  "scrollEvents",
+  "engagedSessions",
+  "scrollSessions",
+  "scrollSum",
+  "timedSessions",
+  "dwellMsSum",
+  "activeMsSum",
+  "newVisitors",
+  "returningSessions",
+] as const;
+
+export function emptyCounters(): RollupCounters {
+  const reach = {} as Record<ScrollMilestone, number>;
+  for (const milestone of SCROLL_MILESTONES) reach[milestone] = 0;
+  return {
+    sessions: 0,
+    events: 0,
+    pageviews: 0,
+    clicks: 0,
+    scrollEvents: 0,
+    engagedSessions: 0,
+    scrollSessions: 0,
+    scrollSum: 0,
+    reach,
+    timedSessions: 0,
+    dwellMsSum: 0,
+    activeMsSum: 0,
+    goals: {},
+    newVisitors: 0,
+    returningSessions: 0,
+  };
+}
+
+/** What a session needs beyond SessionStats to count visitors; rollups have it. */
+type SessionVisitor = Partial<{
+  startedAt: string;
+  visitorFirstSeenAt: string | null;
+}>;
+
+export function sessionCounters(
+  session: SessionStats & SessionVisitor
+): RollupCounters {
+  const counters = emptyCounters();
+  counters.sessions = 1;
+  counters.events = session.events;
+  counters.pageviews = session.pageviews;
+  counters.clicks = session.clicks;
+  counters.scrollEvents = session.scrollEvents;
+  counters.engagedSessions = session.engaged ? 1 : 0;
+  if (session.maxScroll !== null) {
+    counters.scrollSessions = 1;
+    counters.scrollSum = session.maxScroll;
+  }
+  for (const milestone of SCROLL_MILESTONES) {
+    counters.reach[milestone] = (session.maxScroll ?? 0) >= milestone ? 1 : 0;
+  }
+  if (session.dwellMs !== null) {
+    counters.timedSessions = 1;
+    counters.dwellMsSum = session.dwellMs;
+    counters.activeMsSum = session.activeMs ?? 0;
+  }
+  for (const goalId of session.goals) counters.goals[goalId] = 1;
+  const { startedAt, visitorFirstSeenAt } = session;
+  if (startedAt && visitorFirstSeenAt) {
+    if (visitorFirstSeenAt === startedAt) counters.newVisitors = 1;
+    if (visitorFirstSeenAt < startedAt) counters.returningSessions = 1;
+  }
+  return counters;
+}
+
+/**
+ * `a + sign * b`, field by field. Accepts partial counters (stored rollup
+ * docs only carry fields that were ever incremented).
+ */
+export function addCounters(
+  a: Partial<RollupCounters>,
+  b: Partial<RollupCounters>,
+  sign: 1 | -1 = 1
+): RollupCounters {
+  const sum = emptyCounters();
+  for (const field of COUNTER_FIELDS) {
+    sum[field] = (a[field] ?? 0) + sign * (b[field] ?? 0);
+  }
+  for (const milestone of SCROLL_MILESTONES) {
+    sum.reach[milestone] =
+      (a.reach?.[milestone] ?? 0) + sign * (b.reach?.[milestone] ?? 0);
+  }
+  for (const goals of [a.goals ?? {}, b.goals ?? {}]) {
+    for (const goalId of Object.keys(goals)) {
+      sum.goals[goalId] =
+        (a.goals?.[goalId] ?? 0) + sign * (b.goals?.[goalId] ?? 0);
+    }
+  }
+  return sum;
+}
+
+/** What changed between two versions of a session, as counters. */
+export function counterDelta(
+  before: (SessionStats & SessionVisitor) | null,
+  after: SessionStats & SessionVisitor
+): RollupCounters {
+  return addCounters(
+    sessionCounters(after),
+    before ? sessionCounters(before) : emptyCounters(),
+    -1
+  );
+}
+
+/* ---------- variants ---------- */
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+const numbers = (values: (number | null)[]) =>
+  values.filter((v): v is number => v !== null);
+
+export function statsFromCounters(
+  variantId: string,
+  c: RollupCounters,
+  goalId: string = PRIMARY_GOAL_ID
+): VariantStats {
+  const ratio = (value: number, total: number) =>
+    total > 0 ? value / total : null;
+
+  const scrollReach = {} as Record<ScrollMilestone, number | null>;
+  for (const milestone of SCROLL_MILESTONES) {
+    scrollReach[milestone] = ratio(c.reach[milestone], c.sessions);
+  }
+
+  const goalConversions: Record<string, number> = {};
+  for (const [id, count] of Object.entries(c.goals)) {
+    if (count > 0) goalConversions[id] = count;
+  }
+  const conversions = goalConversions[goalId] ?? 0;
+
+  return {
+    variantId,
+    totalEvents: c.events,
+    sessions: c.sessions,
+    scrollEvents: c.scrollEvents,
+    avgScroll: ratio(c.scrollSum, c.scrollSessions),
+    scrollReach,
+    avgDwellMs: ratio(c.dwellMsSum, c.timedSessions),
+    avgActiveMs: ratio(c.activeMsSum, c.timedSessions),
+    clicks: c.clicks,
+    conversions,
+    conversionRate: ratio(conversions, c.sessions),
+    goalConversions,
+  };
+}
+
+/**
+ * Per-variant stats from counters keyed by variant ID; `variantIds` are
+ * included even without traffic.
+ */
+export function variantStatsFromCounters(
+  byVariant: Map<string, RollupCounters>,
+  options: AggregateOptions = {}
+): VariantStats[] {
+  const all = new Map<string, RollupCounters>();
+  for (const variantId of options.variantIds ?? []) {
+    all.set(variantId, byVariant.get(variantId) ?? emptyCounters());
+  }
+  for (const [variantId, counters] of byVariant) {
+    if (!all.has(variantId)) all.set(variantId, counters);
+  }
+  return [...all].map(([variantId, counters]) =>
+    statsFromCounters(variantId, counters, options.goalId)
+  );
+}
+
+/** Per-variant stats from sessions, each counted towards its own arm. */
+export function variantStatsFromSessions(
+  sessions: SessionStats[],
+  options: AggregateOptions = {}
+): VariantStats[] {
+  const counters = new Map<string, RollupCounters>();
+  for (const session of sessions) {
+    counters.set(
+      session.variantId,
+      addCounters(
+        counters.get(session.variantId) ?? emptyCounters(),
+        sessionCounters(session)
+      )
+    );
+  }
+  return variantStatsFromCounters(counters, options);
+}
+
+export function computeVariantStats(
+  events: AggregatedEvent[],
+  options: AggregateOptions = {}
+): VariantStats[] {
+  const byVariant = new Map<string, AggregatedEvent[]>();
+  for (const e of events) {
+    const vId = e.variantId || "unknown";
+    const list = byVariant.get(vId) ?? [];
+    list.push(e);
+    byVariant.set(vId, list);
+  }
+
+  const counters = new Map<string, RollupCounters>();
+  for (const [variantId, variantEvents] of byVariant) {
+    counters.set(
+      variantId,
+      computeSessionStats(variantEvents)
+        .map(sessionCounters)
+        .reduce((sum, c) => addCounters(sum, c), emptyCounters())
+    );
+  }
+  return variantStatsFromCounters(counters, options);
+}
+
+export const PERSONAS = ["skimmer", "deep_reader", "clicky"] as const;
+
+export type Persona = (typeof PERSONAS)[number];
+
+/**
+ * Rough reader types a session falls into, if any: skimmers stop above 30%
+ * of the page, deep readers get past 70%, clicky sessions click 3+ times.
+ */
+export function sessionPersonas(session: SessionStats): Persona[] {
+  const scroll = session.maxScroll ?? 0;
+  const personas: Persona[] = [];
+  if (scroll < 30) personas.push("skimmer");
+  if (scroll >= 70) personas.push("deep_reader");
+  if (session.clicks >= 3) personas.push("clicky");
+  return personas;
+}
+
+/**
+ * The behaviour summary the page-building prompts get: averages per
+ * session plus how many sessions fall into each reader type.
+ */
+export function summarizeSessions(
+  sessions: SessionStats[]
+): Required<BehaviourSummary> {
+  const avgSeconds = (key: "dwellMs" | "activeMs") => {
+    const ms = mean(numbers(sessions.map((s) => s[key])));
+    return ms === null ? null : Math.round(ms / 100) / 10;
+  };
+
+  const personaCount = (persona: Persona) =>
+    sessions.filter((s) => sessionPersonas(s).includes(persona)).length;
+
+  return {
+    totalSessions: sessions.length,
+    avgScrollAll: mean(numbers(sessions.map((s) => s.maxScroll))),
+    avgClicksAll: mean(sessions.map((s) => s.clicks)) ?? 0,
+    avgDwellSeconds: avgSeconds("dwellMs"),
+    avgActiveSeconds: avgSeconds("activeMs"),
+    skimmers: personaCount("skimmer"),
+    deepReaders: personaCount("deep_reader"),
+    clicky: personaCount("clicky"),
+  };
+}
+
+/**
+ * Orders variants best-first: conversion rate, then scroll depth as a
+ * tie-break for variants that haven't converted anyone yet.
+ */
+export function rankVariants(stats: VariantStats[]): VariantStats[] {
+  return [...stats].sort(
+    (a, b) =>
+      (b.conversionRate ?? 0) - (a.conversionRate ?? 0) ||
+      (b.avgScroll ?? 0) - (a.avgScroll ?? 0)
+  );
+}
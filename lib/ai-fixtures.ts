@@ -0,0 +1,114 @@
+// lib/ai-fixtures.ts
+// Canned replies for AI_PROVIDER=stub. Each one must pass its schema in
+// lib/schemas.ts, so the full agent → validate → save path runs offline.
+import type { LandingPageSpec } from "@/lib/experiments";
+import type {
+  BuildPageDoc,
+  PersonaPageDoc,
+  SuggestedVariant,
+} from "@/lib/schemas";
+
+export type AiTask = "variant" | "landing-spec" | "build-page" | "persona-page";
+
+const variant: SuggestedVariant = {
+  fromVariant: "A",
+  heroTitle: "Your landing page, tuned by your visitors.",
+  heroSubtitle:
+    "cMindX reads live scroll and click behaviour and rewrites the hero that converts best — no guesswork, no redeploys.",
+  primaryCta: "Open the dashboard",
+  secondaryCta: "See how it works",
+  badge: "STUB • EVOLUTION",
+  meta: {
+    explanation: "Stub provider fixture; not generated from live data.",
+  },
+};
+
+const landingSpec: LandingPageSpec = {
+  hero: {
+    title: "A landing page that learns from every visit.",
+    subtitle:
+      "cMindX watches how visitors scroll, click and leave, then evolves your hero and CTAs towards what actually converts.",
+    primaryCta: "View live dashboard",
+    secondaryCta: "See how it works",
+    badge: "Stub build",
+    strip: "Offline fixture • deterministic output",
+  },
+  system: {
+    currentVariantLabel: "Stub build",
+    dataSourceLabel: "Firestore events & variants",
+    agentLabel: "Stub provider",
+    description:
+      "Generated by the offline stub provider so agent flows can be developed without network access.",
+  },
+  pillars: [
+    {
+      label: "Live traffic",
+      title: "Traffic becomes training data.",
+      body: "Every scroll and click is stored against the variant that produced it.",
+    },
+    {
+      label: "Analytics → agent",
+      title: "Behaviour becomes decisions.",
+      body: "The agent compares variants and proposes the next one to test.",
+    },
+  ],
+  stackPoints: [
+    "Frontend: this page with a lightweight analytics hook.",
+    "Agent: stub provider returning fixed fixtures.",
+  ],
+  editCards: [
+    {
+      title: "Hero headline & subcopy",
+      body: "The core promise, tuned from real traffic.",
+    },
+  ],
+};
+
+const sections: BuildPageDoc["sections"] = [
+  {
+    type: "section",
+    title: "Why this page exists",
+    body: "It was generated by the offline stub provider to exercise the build pipeline.",
+  },
+  {
+    type: "bullets",
+    title: "What it focuses on",
+    items: ["Clear promise", "One primary action", "Proof from live data"],
+  },
+  {
+    type: "cta",
+    title: "Ready to evolve your site?",
+    body: "Connect a real provider to generate copy from your own traffic.",
+  },
+];
+
+const buildPage: Omit<BuildPageDoc, "createdAt"> = {
+  slug: "stub-build",
+  name: "Stub build",
+  pageTitle: "cMindX — Stub build",
+  heroTitle: "Turn behaviour into better copy.",
+  heroSubtitle:
+    "A fixed page from the offline stub provider, shaped exactly like a real build.",
+  primaryCta: "Open the dashboard",
+  secondaryCta: "See how it works",
+  sections,
+};
+
+const personaPage: Omit<PersonaPageDoc, "createdAt"> = {
+  slug: "stub-persona",
+  personaName: "Deep readers",
+  pageTitle: "cMindX for deep readers",
+  heroTitle: "For visitors who read every word.",
+  heroSubtitle:
+    "A fixed persona page from the offline stub provider, shaped exactly like a real one.",
+  primaryCta: "Open the dashboard",
+  secondaryCta: "See how it works",
+  sections,
+};
+
+export const STUB_FIXTURES: Record<AiTask, unknown> = {
+  variant,
+  "landing-spec": landingSpec,
+  "build-page": buildPage,
+  "persona-page": personaPage,
+};
@@ -1,27 +1,259 @@
 // lib/ai.ts
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+// LLM provider layer. Every agent goes through `getAiProvider()` so the
+// backing model is a deployment choice, not a code change:
+//
+//   AI_PROVIDER=gemini   Google Gemini (GEMINI_API_KEY)
+//   AI_PROVIDER=openai   any OpenAI-compatible /chat/completions endpoint —
+//                        OpenAI, or a local Ollama at http://localhost:11434/v1
+//                        (OPENAI_BASE_URL, OPENAI_API_KEY)
+//   AI_PROVIDER=stub     deterministic offline fixtures, no network
+//
+// AI_MODEL overrides the provider's default model. With AI_PROVIDER unset,
+// Gemini is used when GEMINI_API_KEY is present; otherwise there is no
+// provider and callers use their own heuristic fallback.
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { STUB_FIXTURES, type AiTask } from "@/lib/ai-fixtures";
+import { validate, type Schema } from "@/lib/schemas";
 
-let cachedModel: GenerativeModel | null = null;
+export type { AiTask };
+
+export type AiProviderName = "gemini" | "openai" | "stub";
+
+export type GenerateOptions = {
+  /** Ask the provider for a bare JSON object if it supports that. */
+  json?: boolean;
+  /** What is being generated; the stub uses it to pick a fixture. */
+  task?: AiTask;
+};
+
+export interface AiProvider {
+  name: AiProviderName;
+  model: string;
+  generateText(prompt: string, options?: GenerateOptions): Promise<string>;
+}
+
+const DEFAULT_MODELS: Record<AiProviderName, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "gpt-4o-mini",
+  stub: "stub-v1",
+};
+
+/** Local models can be slow, but a hung endpoint mustn't hang the agent. */
+const OPENAI_TIMEOUT_MS = 120_000;
+
+/* ---------- providers ---------- */
+
+function geminiProvider(apiKey: string, model: string): AiProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: "gemini",
+    model,
+    async generateText(prompt, { json = false } = {}) {
+      const result = await genAI
+        .getGenerativeModel({
+          model,
+          generationConfig: json
+            ? { responseMimeType: "application/json" }
+            : undefined,
+        })
+        .generateContent(prompt);
+      return result.response.text();
+    },
+  };
+}
+
+function openAiCompatibleProvider(
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string
+): AiProvider {
+  async function complete(prompt: string, json: boolean): Promise<string> {
+    const res = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        ...(json ? { response_format: { type: "json_object" } } : {}),
+      }),
+      signal: AbortSignal.timeout(OPENAI_TIMEOUT_MS),
+    });
+
+    if (!res.ok) {
+      throw new Error(
+        `${baseUrl} returned ${res.status}: ${(await res.text()).slice(0, 200)}`
+      );
+    }
+
+    const data = await res.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error(`${baseUrl} returned no message content`);
+    }
+    return content;
+  }
+
+  return {
+    name: "openai",
+    model,
+    async generateText(prompt, { json = false } = {}) {
+      try {
+        return await complete(prompt, json);
+      } catch (err) {
+        // the timeout also covers reading the body
+        if ((err as Error).name === "TimeoutError") {
+          throw new Error(
+            `${baseUrl} did not respond within ${OPENAI_TIMEOUT_MS / 1000}s`
+          );
+        }
+        throw err;
+      }
+    },
+  };
+}
+
+/** Same task → same output, so agent flows can be exercised offline. */
+function stubProvider(model: string): AiProvider {
+  return {
+    name: "stub",
+    model,
+    async generateText(_prompt, { task } = {}) {
+      if (!task) return "Stub provider: no task given.";
+      return JSON.stringify(STUB_FIXTURES[task]);
+    },
+  };
+}
+
+/* ---------- selection ---------- */
+
+export function isAiProviderName(value: unknown): value is AiProviderName {
+  return value === "gemini" || value === "openai" || value === "stub";
+}
+
+let cachedProvider: AiProvider | null | undefined;
 
 /**
- * Returns a Gemini model instance if GEMINI_API_KEY is set.
- * If not, returns null so the caller can fall back to a mock agent.
+ * The configured provider, or null when none is set up so the caller can
+ * fall back to its heuristic. Misconfiguration (unknown name, missing key)
+ * is logged and also yields null rather than crashing the route.
  */
-export function getAiModel(): GenerativeModel | null {
-  const apiKey = process.env.GEMINI_API_KEY;
+export function getAiProvider(): AiProvider | null {
+  if (cachedProvider !== undefined) return cachedProvider;
+
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+  const name = configured || (process.env.GEMINI_API_KEY ? "gemini" : null);
 
-  // If no key, don't crash the app – just log and let caller fallback.
-  if (!apiKey) {
-    console.warn("GEMINI_API_KEY not set – agent will use mock generator.");
-    return null;
+  if (!name) {
+    console.warn("No AI provider configured – agents will use heuristics.");
+    return (cachedProvider = null);
+  }
+  if (!isAiProviderName(name)) {
+    console.warn(`Unknown AI_PROVIDER "${name}" – agents will use heuristics.`);
+    return (cachedProvider = null);
   }
 
-  if (!cachedModel) {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    cachedModel = genAI.getGenerativeModel({
-      model: "gemini-2.5-flash" 
-    });
+  const model = process.env.AI_MODEL?.trim() || DEFAULT_MODELS[name];
+
+  if (name === "gemini") {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      console.warn("AI_PROVIDER=gemini but GEMINI_API_KEY is not set.");
+      return (cachedProvider = null);
+    }
+    return (cachedProvider = geminiProvider(apiKey, model));
+  }
+
+  if (name === "openai") {
+    return (cachedProvider = openAiCompatibleProvider(
+      process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+      process.env.OPENAI_API_KEY,
+      model
+    ));
+  }
+
+  return (cachedProvider = stubProvider(model));
+}
+
+/** Shown in agent responses when `getAiProvider()` returns null. */
+export const NO_PROVIDER_MESSAGE =
+  "No AI provider configured (set AI_PROVIDER or GEMINI_API_KEY).";
+
+/* ---------- structured output ---------- */
+
+/**
+ * Models like to wrap JSON in ```json fences or a sentence of preamble.
+ * Takes the outermost {...} and parses it.
+ */
+export function parseModelJson(text: string): unknown {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("No JSON object in model output");
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export type StructuredResult<T> =
+  | { ok: true; value: T; attempts: number }
+  | { ok: false; errors: string[]; attempts: number };
+
+function repairPrompt(prompt: string, reply: string, errors: string[]) {
+  return `${prompt}
+
+Your previous reply was:
+${reply}
+
+It was rejected because:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Reply again with ONLY the corrected JSON object, fixing every issue above.`;
+}
+
+/**
+ * Asks the provider for JSON matching `schema`. Invalid replies are sent
+ * back with the validation errors, up to `maxRepairs` times. Never throws on
+ * bad output — callers decide the fallback when `ok` is false. Transport
+ * errors (network, quota) still throw.
+ */
+export async function generateJson<T>(
+  provider: AiProvider,
+  {
+    task,
+    prompt,
+    schema,
+    maxRepairs = MAX_REPAIR_ATTEMPTS,
+  }: { task: AiTask; prompt: string; schema: Schema<T>; maxRepairs?: number }
+): Promise<StructuredResult<T>> {
+  let nextPrompt = prompt;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const reply = await provider.generateText(nextPrompt, { json: true, task });
+
+    let parsed: unknown;
+    try {
+      parsed = parseModelJson(reply);
+    } catch (err) {
+      errors = [`(root): not valid JSON (${(err as Error).message})`];
+      nextPrompt = repairPrompt(prompt, reply, errors);
+      continue;
+    }
+
+    const checked = validate(schema, parsed);
+    if (checked.ok) {
+      return { ok: true, value: checked.value, attempts: attempt };
+    }
+
+    errors = checked.errors;
+    console.warn(`model output failed validation (attempt ${attempt}):`, errors);
+    nextPrompt = repairPrompt(prompt, reply, errors);
   }
 
-  return cachedModel;
+  return { ok: false, errors, attempts: maxRepairs + 1 };
 }
@@ -0,0 +1,76 @@
+// lib/alerts.ts
+// Operator-facing alerts (per site, `alerts/{id}`). Written by automated
+// jobs when they act on their own — e.g. a guardrail rollback — and shown
+// on the dashboard until someone acknowledges them.
+import type { DocumentData } from "firebase-admin/firestore";
+import { siteCollection, siteDoc } from "@/lib/sites";
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export type Alert = {
+  id: string;
+  /** What raised it, e.g. "guardrail". */
+  source: string;
+  severity: AlertSeverity;
+  message: string;
+  /** Source-specific details (metrics, IDs) for the dashboard. */
+  details: Record<string, unknown>;
+  createdAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+};
+
+function alertFromData(id: string, data: DocumentData): Alert {
+  return {
+    id,
+    source: data.source ?? "unknown",
+    severity: data.severity ?? "warning",
+    message: data.message ?? "",
+    details: data.details ?? {},
+    createdAt: data.createdAt ?? "",
+    acknowledgedAt: data.acknowledgedAt ?? null,
+    acknowledgedBy: data.acknowledgedBy ?? null,
+  };
+}
+
+export async function raiseAlert(
+  siteId: string,
+  alert: Pick<Alert, "source" | "severity" | "message" | "details">
+): Promise<Alert> {
+  const data: Omit<Alert, "id"> = {
+    ...alert,
+    createdAt: new Date().toISOString(),
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+  };
+  const ref = await siteCollection(siteId, "alerts").add(data);
+  return { ...data, id: ref.id };
+}
+
+/** Newest first; acknowledged ones included unless `openOnly`. */
+export async function listAlerts(
+  siteId: string,
+  { openOnly = false, max = 20 }: { openOnly?: boolean; max?: number } = {}
+): Promise<Alert[]> {
+  const snap = await siteCollection(siteId, "alerts")
+    .orderBy("createdAt", "desc")
+    .limit(max)
+    .get();
+  const alerts = snap.docs.map((d) => alertFromData(d.id, d.data()));
+  return openOnly ? alerts.filter((a) => !a.acknowledgedAt) : alerts;
+}
+
+/** False when the alert doesn't exist. */
+export async function acknowledgeAlert(
+  siteId: string,
+  id: string,
+  by: string
+): Promise<boolean> {
+  const ref = siteDoc(siteId, "alerts", id);
+  if (!(await ref.get()).exists) return false;
+  await ref.update({
+    acknowledgedAt: new Date().toISOString(),
+    acknowledgedBy: by,
+  });
+  return true;
+}
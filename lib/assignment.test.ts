@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { validateArms } from "@/lib/assignment";
+
+describe("validateArms", () => {
+  it("keeps valid arms with numeric weights", () => {
+    expect(
+      validateArms([
+        { variantId: "A", weight: "1" },
+        { variantId: "abc_123", weight: 0 },
+      ])
+    ).toEqual([
+      { variantId: "A", weight: 1 },
+      { variantId: "abc_123", weight: 0 },
+    ]);
+  });
+
+  it.each(["a/b", "..", ""])(
+    "rejects %j as a variant ID, since it ends up in a doc path",
+    (variantId) => {
+      expect(validateArms([{ variantId, weight: 1 }])).toBeNull();
+    }
+  );
+
+  it("rejects duplicates, negative weights and all-zero splits", () => {
+    expect(
+      validateArms([
+        { variantId: "A", weight: 1 },
+        { variantId: "A", weight: 1 },
+      ])
+    ).toBeNull();
+    expect(validateArms([{ variantId: "A", weight: -1 }])).toBeNull();
+    expect(validateArms([{ variantId: "A", weight: 0 }])).toBeNull();
+  });
+});
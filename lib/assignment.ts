@@ -0,0 +1,98 @@
+// lib/assignment.ts
+// Pure traffic-splitting logic. Persistence lives in lib/experiments.ts.
+import { isDocId } from "@/lib/site-id";
+
+export type TrafficArm = {
+  variantId: string;
+  weight: number;
+};
+
+/**
+ * - fixed: weights only change when someone edits them
+ * - thompson / epsilon-greedy: weights are recomputed from conversion data
+ *   by /api/bandit (see lib/bandit.ts)
+ */
+export type AllocationMode = "fixed" | "thompson" | "epsilon-greedy";
+
+export const ALLOCATION_MODES: AllocationMode[] = [
+  "fixed",
+  "thompson",
+  "epsilon-greedy",
+];
+
+export const DEFAULT_EPSILON = 0.1;
+
+export const HOME_EXPERIMENT_ID = "home";
+
+// Used until someone saves weights for the experiment.
+export const DEFAULT_ARMS: TrafficArm[] = [
+  { variantId: "A", weight: 50 },
+  { variantId: "B", weight: 50 },
+];
+
+/** Built-in arms have no `variants` doc and render the live/default copy. */
+export function isBuiltInArm(variantId: string): boolean {
+  return DEFAULT_ARMS.some((a) => a.variantId === variantId);
+}
+
+/**
+ * FNV-1a hash mapped onto [0, 1). Same input → same bucket, on every
+ * server instance, without storing assignments anywhere.
+ */
+export function hashToUnit(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Deterministically buckets a visitor into one of the arms, proportional to
+ * the arm weights. Salting with the experiment ID keeps buckets independent
+ * between experiments.
+ */
+export function pickArm(
+  visitorId: string,
+  experimentId: string,
+  arms: TrafficArm[]
+): string {
+  const active = arms.filter((a) => a.weight > 0);
+  if (active.length === 0) return DEFAULT_ARMS[0].variantId;
+
+  const total = active.reduce((sum, a) => sum + a.weight, 0);
+  const point = hashToUnit(`${experimentId}:${visitorId}`) * total;
+
+  let cumulative = 0;
+  for (const arm of active) {
+    cumulative += arm.weight;
+    if (point < cumulative) return arm.variantId;
+  }
+  return active[active.length - 1].variantId;
+}
+
+/** Null unless every arm has a doc-safe variant ID and a weight ≥ 0. */
+export function validateArms(input: unknown): TrafficArm[] | null {
+  if (!Array.isArray(input) || input.length === 0) return null;
+
+  const arms: TrafficArm[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of input) {
+    const variantId = raw?.variantId;
+    const weight = Number(raw?.weight);
+    // variant IDs end up in Firestore paths
+    if (!isDocId(variantId)) return null;
+    if (!Number.isFinite(weight) || weight < 0) return null;
+    if (seen.has(variantId)) return null;
+    seen.add(variantId);
+    arms.push({ variantId, weight });
+  }
+
+  return arms.some((a) => a.weight > 0) ? arms : null;
+}
+
+export function isAllocationMode(value: unknown): value is AllocationMode {
+  return ALLOCATION_MODES.includes(value as AllocationMode);
+}
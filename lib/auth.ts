@@ -0,0 +1,318 @@
+// lib/auth.ts
+// Dashboard operators and role checks. Operators live in the top-level
+// `operators` collection, keyed by lower-cased email, and apply to every
+// site. Roles (lib/roles.ts) are ordered:
+//
+//   viewer     read stats, runs, settings
+//   editor     run agents, create variants, change traffic allocation
+//   approver   promote or retire live content, turn auto mode on/off
+//   admin      manage sites and operators
+//
+// Route handlers call `authorize(req, role)` first and return its response
+// when it fails.
+import { NextResponse } from "next/server";
+import {
+  createHash,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+} from "node:crypto";
+import { promisify } from "node:util";
+import type { DocumentReference } from "firebase-admin/firestore";
+import { db } from "@/lib/firebase";
+import {
+  createSessionToken,
+  readCookie,
+  SESSION_COOKIE,
+  sessionCookie,
+  verifySessionToken,
+} from "@/lib/session";
+import { hasRole, isRole, type Role } from "@/lib/roles";
+
+export { hasRole, isRole, ROLES, type Role } from "@/lib/roles";
+
+export type Operator = {
+  email: string;
+  name: string;
+  role: Role;
+  createdAt: string;
+};
+
+type StoredOperator = Omit<Operator, "email"> & { passwordHash: string };
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+export function normalizeEmail(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const email = value.trim().toLowerCase();
+  return /^[^\s@/]+@[^\s@/]+\.[^\s@/]+$/.test(email) ? email : null;
+}
+
+/* ---------- passwords ---------- */
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/** "scrypt$<salt>$<hash>", both base64url. */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "base64url"),
+    expected.length
+  );
+  return timingSafeEqual(expected, actual);
+}
+
+/* ---------- repository ---------- */
+
+function operatorFromData(email: string, data: Partial<StoredOperator>) {
+  const operator: Operator = {
+    email,
+    name: data.name ?? email,
+    role: isRole(data.role) ? data.role : "viewer",
+    createdAt: data.createdAt ?? "",
+  };
+  return operator;
+}
+
+const operators = () => db.collection("operators");
+
+export async function getOperator(email: string): Promise<Operator | null> {
+  const snap = await operators().doc(email).get();
+  return snap.exists ? operatorFromData(email, snap.data() ?? {}) : null;
+}
+
+export async function listOperators(): Promise<Operator[]> {
+  const snap = await operators().get();
+  return snap.docs
+    .map((d) => operatorFromData(d.id, d.data()))
+    .sort((a, b) => a.email.localeCompare(b.email));
+}
+
+export async function hasAnyOperator(): Promise<boolean> {
+  const snap = await operators().limit(1).get();
+  return !snap.empty;
+}
+
+/**
+ * Creates or updates an operator. A password is required for new operators;
+ * for existing ones it is only changed when given.
+ */
+export async function saveOperator(
+  email: string,
+  input: { name?: string; role?: Role; password?: string }
+): Promise<Operator> {
+  const ref = operators().doc(email);
+  const snap = await ref.get();
+  const existing = snap.exists ? (snap.data() as StoredOperator) : null;
+
+  if (!existing && !input.password) {
+    throw new Error("A password is required for new operators");
+  }
+
+  const data: StoredOperator = {
+    name: input.name ?? existing?.name ?? email,
+    role: input.role ?? existing?.role ?? "viewer",
+    createdAt: existing?.createdAt || new Date().toISOString(),
+    passwordHash: input.password
+      ? await hashPassword(input.password)
+      : existing!.passwordHash,
+  };
+
+  await ref.set(data);
+  return operatorFromData(email, data);
+}
+
+/**
+ * Creates the first operator, as an admin. The emptiness check and the write
+ * share a transaction, so of two concurrent setups only one succeeds. Null
+ * when an operator already exists.
+ */
+export async function createFirstAdmin(
+  email: string,
+  input: { name?: string; password: string }
+): Promise<Operator | null> {
+  const passwordHash = await hashPassword(input.password);
+
+  return db.runTransaction(async (tx) => {
+    const existing = await tx.get(operators().limit(1));
+    if (!existing.empty) return null;
+
+    const data: StoredOperator = {
+      name: input.name || email,
+      role: "admin",
+      createdAt: new Date().toISOString(),
+      passwordHash,
+    };
+    tx.create(operators().doc(email), data);
+    return operatorFromData(email, data);
+  });
+}
+
+export async function deleteOperator(email: string) {
+  await operators().doc(email).delete();
+}
+
+/** The operator for these credentials; null for an unknown email or wrong password. */
+export async function checkCredentials(
+  email: string,
+  password: string
+): Promise<Operator | null> {
+  const snap = await operators().doc(email).get();
+  if (!snap.exists) return null;
+
+  const data = snap.data() as StoredOperator;
+  const valid =
+    Boolean(data.passwordHash) &&
+    (await verifyPassword(password, data.passwordHash));
+  return valid ? operatorFromData(email, data) : null;
+}
+
+/* ---------- login throttling ---------- */
+
+// Failed sign-ins are counted per email and per client IP over a fixed
+// window, in loginAttempts/{sha256 of the key} so neither is stored as is.
+// Once either count reaches its limit, sign-in is refused until the window
+// ends, even with the right password.
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILURES_PER_EMAIL = 5;
+const MAX_FAILURES_PER_IP = 20;
+
+type LoginAttempts = { failures: number; windowStart: number };
+
+export type LoginThrottle = { ref: DocumentReference; max: number }[];
+
+const attemptsRef = (key: string) =>
+  db
+    .collection("loginAttempts")
+    .doc(createHash("sha256").update(key).digest("hex"));
+
+function clientIp(req: Request): string {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0].trim();
+  return forwarded || req.headers.get("x-real-ip") || "unknown";
+}
+
+/** The counters a sign-in attempt for `email` from this request falls under. */
+export function loginThrottle(
+  req: Request,
+  email: string | null
+): LoginThrottle {
+  const throttle = [
+    { ref: attemptsRef(`ip:${clientIp(req)}`), max: MAX_FAILURES_PER_IP },
+  ];
+  if (email) {
+    throttle.push({
+      ref: attemptsRef(`email:${email}`),
+      max: MAX_FAILURES_PER_EMAIL,
+    });
+  }
+  return throttle;
+}
+
+/** Seconds until sign-in is allowed again; 0 when it is now. */
+export async function loginRetryAfter(
+  throttle: LoginThrottle,
+  now: number = Date.now()
+): Promise<number> {
+  const snaps = await Promise.all(throttle.map(({ ref }) => ref.get()));
+  let retryAfter = 0;
+  snaps.forEach((snap, i) => {
+    const attempts = snap.data() as LoginAttempts | undefined;
+    const windowEnd = (attempts?.windowStart ?? 0) + LOGIN_WINDOW_MS;
+    if (attempts && attempts.failures >= throttle[i].max && windowEnd > now) {
+      retryAfter = Math.max(retryAfter, Math.ceil((windowEnd - now) / 1000));
+    }
+  });
+  return retryAfter;
+}
+
+export async function recordLoginFailure(
+  throttle: LoginThrottle,
+  now: number = Date.now()
+) {
+  await db.runTransaction(async (tx) => {
+    const snaps = await Promise.all(throttle.map(({ ref }) => tx.get(ref)));
+    snaps.forEach((snap, i) => {
+      const attempts = snap.data() as LoginAttempts | undefined;
+      const next: LoginAttempts =
+        attempts && attempts.windowStart + LOGIN_WINDOW_MS > now
+          ? { ...attempts, failures: attempts.failures + 1 }
+          : { failures: 1, windowStart: now };
+      tx.set(throttle[i].ref, next);
+    });
+  });
+}
+
+/** After a successful sign-in; the IP counter keeps running. */
+export async function clearLoginFailures(email: string) {
+  await attemptsRef(`email:${email}`).delete();
+}
+
+/* ---------- request helpers ---------- */
+
+/** The operator a session cookie value belongs to, or null. */
+export async function sessionOperator(
+  token: string | null | undefined
+): Promise<Operator | null> {
+  const claims = verifySessionToken(token);
+  return claims ? getOperator(claims.email) : null;
+}
+
+/** The signed-in operator, or null for anonymous/expired/removed ones. */
+export async function currentOperator(req: Request): Promise<Operator | null> {
+  return sessionOperator(readCookie(req, SESSION_COOKIE));
+}
+
+export type AuthResult =
+  | { ok: true; operator: Operator }
+  | { ok: false; response: NextResponse };
+
+/** 401 when not signed in, 403 when signed in without `role`. */
+export async function authorize(req: Request, role: Role): Promise<AuthResult> {
+  const operator = await currentOperator(req);
+
+  if (!operator) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { ok: false, error: "Sign in required" },
+        { status: 401 }
+      ),
+    };
+  }
+  if (!hasRole(operator, role)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { ok: false, error: `Requires the ${role} role` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true, operator };
+}
+
+/** Signs `operator` in by attaching a fresh session cookie to `response`. */
+export function withSession(response: NextResponse, operator: Operator) {
+  response.headers.append(
+    "Set-Cookie",
+    sessionCookie(createSessionToken(operator.email))
+  );
+  return response;
+}
@@ -0,0 +1,372 @@
+// lib/autopilot.ts
+// Auto mode: when a site's settings/agent.autoMode is on, each run either
+// submits a new agent-generated challenger for review, launches the test once
+// reviewers approved it (the usual REQUIRED_APPROVALS, see lib/review.ts), or
+// decides a running test, promoting the challenger once it clears the
+// guardrails.
+import type { DocumentData } from "firebase-admin/firestore";
+import { runVariantAgent } from "@/lib/agent";
+import { HOME_EXPERIMENT_ID, type TrafficArm } from "@/lib/assignment";
+import {
+  createVariant,
+  getExperiment,
+  getVariant,
+  promoteVariant,
+  reviewVariant,
+  updateExperiment,
+} from "@/lib/experiments";
+import { requiredApprovals } from "@/lib/review";
+import { queryVariantStatsSince } from "@/lib/rollups";
+import { siteCollection, siteDoc } from "@/lib/sites";
+import { compareVariants } from "@/lib/stats";
+
+export type AutoModeGuardrails = {
+  /** Sessions each arm needs before the test can be decided. */
+  minSessions: number;
+  alpha: number;
+  probabilityThreshold: number;
+  /** Share of traffic (0–100) the challenger gets while being tested. */
+  challengerTrafficShare: number;
+  /** Give up on a challenger that hasn't won after this many days. */
+  maxTestDays: number;
+};
+
+export const DEFAULT_GUARDRAILS: AutoModeGuardrails = {
+  minSessions: 200,
+  alpha: 0.05,
+  probabilityThreshold: 0.95,
+  challengerTrafficShare: 20,
+  maxTestDays: 14,
+};
+
+export type AutoTest = {
+  variantId: string;
+  incumbentId: string;
+  startedAt: string;
+  /** Arms before the challenger joined; put back when the test ends. */
+  previousArms?: TrafficArm[];
+};
+
+export type AgentSettings = {
+  autoMode: boolean;
+  guardrails: AutoModeGuardrails;
+  currentTest: AutoTest | null;
+  /** Challenger submitted for review; the test starts once it's approved. */
+  pendingVariantId: string | null;
+};
+
+export type AutoRunAction =
+  | "skipped"
+  | "submitted"
+  | "launched"
+  | "waiting"
+  | "promoted"
+  | "rejected";
+
+export type AutoRunRecord = {
+  action: AutoRunAction;
+  detail: string;
+  variantId?: string;
+  incumbentId?: string;
+  ranAt: string;
+};
+
+const settingsRef = (siteId: string) => siteDoc(siteId, "settings", "agent");
+
+/** Recorded as the actor on variants auto mode creates, promotes or archives. */
+const AUTO_MODE_ACTOR = "auto-mode";
+
+export function parseGuardrails(input: unknown): AutoModeGuardrails {
+  const raw = (input ?? {}) as Partial<Record<keyof AutoModeGuardrails, unknown>>;
+  const pick = (key: keyof AutoModeGuardrails, min: number, max: number) => {
+    const value = Number(raw[key]);
+    return Number.isFinite(value) && value >= min && value <= max
+      ? value
+      : DEFAULT_GUARDRAILS[key];
+  };
+
+  return {
+    minSessions: pick("minSessions", 1, 1_000_000),
+    alpha: pick("alpha", 0.0001, 0.5),
+    probabilityThreshold: pick("probabilityThreshold", 0.5, 0.9999),
+    challengerTrafficShare: pick("challengerTrafficShare", 1, 99),
+    maxTestDays: pick("maxTestDays", 1, 365),
+  };
+}
+
+export async function loadAgentSettings(
+  siteId: string
+): Promise<AgentSettings> {
+  const snap = await settingsRef(siteId).get();
+  const data: DocumentData = snap.data() ?? {};
+
+  return {
+    autoMode: data.autoMode === true,
+    guardrails: parseGuardrails(data.guardrails),
+    currentTest: data.currentTest ?? null,
+    pendingVariantId: data.pendingVariantId ?? null,
+  };
+}
+
+export async function saveAgentSettings(
+  siteId: string,
+  patch: Partial<AgentSettings>
+) {
+  await settingsRef(siteId).set(patch, { merge: true });
+}
+
+/** The arm with the most traffic: what a challenger is tested against. */
+const heaviestArm = (arms: TrafficArm[]) =>
+  [...arms].sort((a, b) => b.weight - a.weight)[0].variantId;
+
+async function recordRun(
+  siteId: string,
+  run: Omit<AutoRunRecord, "ranAt">
+) {
+  const record: AutoRunRecord = { ...run, ranAt: new Date().toISOString() };
+  // drop undefined optionals, Firestore rejects them
+  const clean = Object.fromEntries(
+    Object.entries(record).filter(([, v]) => v !== undefined)
+  );
+  await siteCollection(siteId, "agentRuns").add(clean);
+  return record;
+}
+
+export async function loadRecentRuns(
+  siteId: string,
+  max = 10
+): Promise<AutoRunRecord[]> {
+  const snap = await siteCollection(siteId, "agentRuns")
+    .orderBy("ranAt", "desc")
+    .limit(max)
+    .get();
+  return snap.docs.map((d) => d.data() as AutoRunRecord);
+}
+
+async function submitChallenger(
+  siteId: string,
+  incumbentId: string
+): Promise<AutoRunRecord> {
+  const result = await runVariantAgent(siteId, { controlId: incumbentId });
+  if (!result) {
+    return recordRun(siteId, {
+      action: "skipped",
+      detail: "Not enough events for the agent to propose a variant yet.",
+    });
+  }
+
+  const s = result.suggestedVariant;
+  const challenger = await createVariant(siteId, {
+    heroTitle: s.heroTitle,
+    heroSubtitle: s.heroSubtitle,
+    primaryCta: s.primaryCta,
+    secondaryCta: s.secondaryCta,
+    badge: s.badge,
+    author: AUTO_MODE_ACTOR,
+    createdBy: "auto-mode",
+    fromVariant: s.fromVariant,
+    meta: s.meta,
+    prompt: result.prompt ?? undefined,
+  });
+  // auto mode is the submitter, so every approval has to come from people
+  await reviewVariant(siteId, challenger.id, "submit", AUTO_MODE_ACTOR);
+  await saveAgentSettings(siteId, { pendingVariantId: challenger.id });
+
+  return recordRun(siteId, {
+    action: "submitted",
+    detail: `Submitted ${challenger.id} for review; the test against ${incumbentId} starts once it's approved (${result.aiUsed}).`,
+    variantId: challenger.id,
+    incumbentId,
+  });
+}
+
+async function launchTest(
+  siteId: string,
+  settings: AgentSettings,
+  challengerId: string
+): Promise<AutoRunRecord> {
+  const experiment = await getExperiment(siteId, HOME_EXPERIMENT_ID);
+  const incumbentId = heaviestArm(experiment.arms);
+
+  // The running arms keep their relative weights in what's left; pinned so
+  // the bandit can't shift the challenger's share during the test.
+  const share = settings.guardrails.challengerTrafficShare;
+  const total = experiment.arms.reduce((sum, a) => sum + a.weight, 0);
+  await updateExperiment(siteId, HOME_EXPERIMENT_ID, {
+    arms: [
+      ...experiment.arms.map((a) => ({
+        ...a,
+        weight: Math.round((a.weight / total) * (100 - share) * 10) / 10,
+      })),
+      { variantId: challengerId, weight: share },
+    ],
+    pinnedBy: AUTO_MODE_ACTOR,
+  });
+
+  await saveAgentSettings(siteId, {
+    pendingVariantId: null,
+    currentTest: {
+      variantId: challengerId,
+      incumbentId,
+      startedAt: new Date().toISOString(),
+      previousArms: experiment.arms,
+    },
+  });
+
+  return recordRun(siteId, {
+    action: "launched",
+    detail: `Testing ${challengerId} against ${incumbentId} at ${share}% traffic.`,
+    variantId: challengerId,
+    incumbentId,
+  });
+}
+
+/**
+ * Launches the test once reviewers approved the pending challenger; drops
+ * it when they sent it back or archived it, so the next run proposes a new
+ * one.
+ */
+async function checkPending(
+  siteId: string,
+  settings: AgentSettings,
+  variantId: string
+): Promise<AutoRunRecord> {
+  const variant = await getVariant(siteId, variantId);
+
+  if (variant?.status === "approved") {
+    return launchTest(siteId, settings, variantId);
+  }
+  if (variant?.status === "in_review") {
+    return recordRun(siteId, {
+      action: "waiting",
+      detail: `${variantId} is waiting for review (${variant.approvals.length}/${requiredApprovals()} approvals).`,
+      variantId,
+    });
+  }
+
+  await saveAgentSettings(siteId, { pendingVariantId: null });
+  return recordRun(siteId, {
+    action: "rejected",
+    detail: variant
+      ? `Reviewers moved ${variantId} to ${variant.status}; it won't be tested.`
+      : `${variantId} no longer exists; it won't be tested.`,
+    variantId,
+  });
+}
+
+/**
+ * Puts the arms back as they were before the test, with the winner in the
+ * incumbent's place. Tests launched before previousArms was recorded hand
+ * the winner all traffic.
+ */
+async function endTest(siteId: string, test: AutoTest, winnerId: string) {
+  const arms = test.previousArms?.map((a) =>
+    a.variantId === test.incumbentId ? { ...a, variantId: winnerId } : a
+  );
+  await updateExperiment(siteId, HOME_EXPERIMENT_ID, {
+    arms: arms ?? [{ variantId: winnerId, weight: 100 }],
+    pinnedBy: null,
+  });
+  await saveAgentSettings(siteId, { currentTest: null });
+
+  const loserId =
+    winnerId === test.variantId ? test.incumbentId : test.variantId;
+  // a no-op for built-in arms, or when promotion already archived it
+  await reviewVariant(
+    siteId,
+    loserId,
+    "archive",
+    AUTO_MODE_ACTOR,
+    `Lost the auto-mode test to ${winnerId}.`
+  );
+}
+
+async function evaluateTest(
+  siteId: string,
+  settings: AgentSettings,
+  test: AutoTest
+): Promise<AutoRunRecord> {
+  const { guardrails } = settings;
+  const stats = (
+    await queryVariantStatsSince(siteId, test.startedAt, {
+      variantIds: [test.incumbentId, test.variantId],
+    })
+  ).filter(
+    (s) => s.variantId === test.incumbentId || s.variantId === test.variantId
+  );
+
+  const result = compareVariants(stats, {
+    controlId: test.incumbentId,
+    alpha: guardrails.alpha,
+    minSessions: guardrails.minSessions,
+    probabilityThreshold: guardrails.probabilityThreshold,
+  });
+
+  if (result.winner === test.variantId) {
+    const challenger = await getVariant(siteId, test.variantId);
+    if (!challenger) {
+      await endTest(siteId, test, test.incumbentId);
+      return recordRun(siteId, {
+        action: "rejected",
+        detail: `Challenger ${test.variantId} won but its variant doc is missing; kept ${test.incumbentId}.`,
+        variantId: test.variantId,
+        incumbentId: test.incumbentId,
+      });
+    }
+
+    // Same path as /api/promote-variant
+    await promoteVariant(siteId, test.variantId, { by: AUTO_MODE_ACTOR });
+    await endTest(siteId, test, test.variantId);
+
+    return recordRun(siteId, {
+      action: "promoted",
+      detail: result.reason,
+      variantId: test.variantId,
+      incumbentId: test.incumbentId,
+    });
+  }
+
+  const ageDays = (Date.now() - Date.parse(test.startedAt)) / 86_400_000;
+
+  if (result.winner === test.incumbentId || ageDays > guardrails.maxTestDays) {
+    await endTest(siteId, test, test.incumbentId);
+    return recordRun(siteId, {
+      action: "rejected",
+      detail:
+        result.winner === test.incumbentId
+          ? result.reason
+          : `No winner after ${guardrails.maxTestDays} days. ${result.reason}`,
+      variantId: test.variantId,
+      incumbentId: test.incumbentId,
+    });
+  }
+
+  return recordRun(siteId, {
+    action: "waiting",
+    detail: result.reason,
+    variantId: test.variantId,
+    incumbentId: test.incumbentId,
+  });
+}
+
+/** One auto-mode tick. Safe to call on any schedule. */
+export async function runAutoMode(siteId: string): Promise<AutoRunRecord> {
+  const settings = await loadAgentSettings(siteId);
+
+  if (!settings.autoMode) {
+    return {
+      action: "skipped",
+      detail: "Auto mode is off.",
+      ranAt: new Date().toISOString(),
+    };
+  }
+
+  if (settings.currentTest) {
+    return evaluateTest(siteId, settings, settings.currentTest);
+  }
+  if (settings.pendingVariantId) {
+    return checkPending(siteId, settings, settings.pendingVariantId);
+  }
+  const experiment = await getExperiment(siteId, HOME_EXPERIMENT_ID);
+  return submitChallenger(siteId, heaviestArm(experiment.arms));
+}
@@ -0,0 +1,152 @@
+// lib/bandit.ts
+// Multi-armed bandit weight updates for adaptive traffic allocation.
+import type { VariantStats } from "@/lib/aggregate";
+import type { TrafficArm } from "@/lib/assignment";
+import {
+  appendWeightHistory,
+  getExperiment,
+  updateExperiment,
+  type Experiment,
+  type WeightHistoryEntry,
+} from "@/lib/experiments";
+import { queryVariantStatsSince } from "@/lib/rollups";
+import { probabilityToBeBest } from "@/lib/stats";
+
+/** No arm drops below this share, so a losing arm can still recover. */
+export const MIN_ARM_WEIGHT = 1;
+
+/** Minimum gap between scheduled recomputes. */
+export const RECOMPUTE_INTERVAL_MS = 15 * 60 * 1000;
+
+type AllocationSettings = Pick<Experiment, "arms" | "mode" | "epsilon">;
+
+function normalise(raw: number[]): number[] {
+  const floored = raw.map((w) => Math.max(w, 0));
+  const total = floored.reduce((a, b) => a + b, 0);
+  if (total === 0) return raw.map(() => 100 / raw.length);
+
+  // Apply the floor, then rescale the rest so everything sums to 100.
+  const scaled = floored.map((w) => (w / total) * 100);
+  const lifted = scaled.map((w) => Math.max(w, MIN_ARM_WEIGHT));
+  const liftedTotal = lifted.reduce((a, b) => a + b, 0);
+  return lifted.map((w) => Math.round((w / liftedTotal) * 1000) / 10);
+}
+
+/**
+ * New arm weights (summing to ~100) from per-arm conversion data.
+ *
+ * Thompson sampling: each arm's share equals its posterior probability of
+ * being the best arm. Epsilon-greedy: the current best arm gets 1 − ε and
+ * ε is spread evenly over all arms.
+ */
+export function computeBanditWeights(
+  allocation: AllocationSettings,
+  stats: VariantStats[]
+): { arms: TrafficArm[]; reason: string } {
+  const armStats = allocation.arms.map(
+    (arm) =>
+      stats.find((s) => s.variantId === arm.variantId) ?? {
+        variantId: arm.variantId,
+        sessions: 0,
+        conversions: 0,
+        conversionRate: null,
+      }
+  );
+
+  if (allocation.mode === "thompson") {
+    const probabilities = probabilityToBeBest(armStats);
+    const weights = normalise(probabilities);
+    return {
+      arms: allocation.arms.map((arm, i) => ({ ...arm, weight: weights[i] })),
+      reason: `Thompson sampling: ${armStats
+        .map(
+          (s, i) =>
+            `${s.variantId} ${(probabilities[i] * 100).toFixed(1)}% to be best`
+        )
+        .join(", ")}.`,
+    };
+  }
+
+  if (allocation.mode === "epsilon-greedy") {
+    const epsilon = allocation.epsilon;
+    let bestIndex = 0;
+    armStats.forEach((s, i) => {
+      if ((s.conversionRate ?? 0) > (armStats[bestIndex].conversionRate ?? 0)) {
+        bestIndex = i;
+      }
+    });
+    const explore = epsilon / armStats.length;
+    const weights = normalise(
+      armStats.map((_, i) => (i === bestIndex ? 1 - epsilon + explore : explore))
+    );
+    return {
+      arms: allocation.arms.map((arm, i) => ({ ...arm, weight: weights[i] })),
+      reason: `Epsilon-greedy (ε = ${epsilon}): exploiting ${armStats[bestIndex].variantId} at ${(
+        (armStats[bestIndex].conversionRate ?? 0) * 100
+      ).toFixed(1)}% conversion.`,
+    };
+  }
+
+  return { arms: allocation.arms, reason: "Fixed split, weights unchanged." };
+}
+
+export function isRecomputeDue(
+  allocation: Pick<Experiment, "mode" | "lastRecomputedAt">,
+  now: Date = new Date()
+): boolean {
+  if (allocation.mode === "fixed") return false;
+  if (!allocation.lastRecomputedAt) return true;
+  return (
+    now.getTime() - Date.parse(allocation.lastRecomputedAt) >=
+    RECOMPUTE_INTERVAL_MS
+  );
+}
+
+/**
+ * Recomputes and stores the weights for an adaptive experiment from the
+ * sessions since it started, logging the change. An experiment without a
+ * start (never scheduled) starts with its first recompute. Returns `null`
+ * when the experiment is fixed, its weights are pinned (even when forced)
+ * or it's not due yet.
+ */
+export async function recomputeAllocation(
+  siteId: string,
+  experimentId: string,
+  { force = false }: { force?: boolean } = {}
+): Promise<WeightHistoryEntry | null> {
+  const allocation = await getExperiment(siteId, experimentId);
+  if (allocation.mode === "fixed" || allocation.pinnedBy) return null;
+  if (!force && !isRecomputeDue(allocation)) return null;
+
+  const recomputedAt = new Date().toISOString();
+  const startedAt = allocation.startedAt ?? recomputedAt;
+  const stats = await queryVariantStatsSince(siteId, startedAt, {
+    variantIds: allocation.arms.map((a) => a.variantId),
+  });
+  const { arms, reason } = computeBanditWeights(allocation, stats);
+
+  await updateExperiment(siteId, experimentId, {
+    arms,
+    lastRecomputedAt: recomputedAt,
+    startedAt,
+  });
+
+  const entry: WeightHistoryEntry = {
+    experimentId,
+    mode: allocation.mode,
+    previousArms: allocation.arms,
+    arms,
+    stats: stats
+      .filter((s) => arms.some((a) => a.variantId === s.variantId))
+      .map(({ variantId, sessions, conversions }) => ({
+        variantId,
+        sessions,
+        conversions,
+      })),
+    reason,
+    recomputedAt,
+  };
+  await appendWeightHistory(siteId, entry);
+
+  return entry;
+}
@@ -0,0 +1,47 @@
+// lib/cors.ts
+// CORS for the routes the embed snippet calls from other origins
+// (/api/analytics, /api/content).
+//
+// A site with a `domain` accepts browser requests from that origin plus this
+// app's own; a site without one only from this app's own, so nobody can post
+// events or read content under its ID from a page of their choosing.
+// Register the domain (POST /api/sites) before installing the snippet.
+import { getSite } from "@/lib/sites";
+
+const ALLOWED_METHODS = "GET, POST, OPTIONS";
+
+function originOf(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Headers to attach to a response for `siteId`, or null when the request's
+ * Origin isn't allowed for that site (respond 403). Requests without an
+ * Origin (same-origin GETs, servers, curl) get no CORS headers.
+ */
+export async function siteCorsHeaders(
+  req: Request,
+  siteId: string
+): Promise<Record<string, string> | null> {
+  const origin = req.headers.get("origin");
+  if (!origin) return {};
+
+  const site = await getSite(siteId);
+  const allowed = site?.domain ? originOf(site.domain) : null;
+
+  if (origin !== allowed && origin !== originOf(req.url)) {
+    return null;
+  }
+
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Methods": ALLOWED_METHODS,
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Max-Age": "86400",
+    Vary: "Origin",
+  };
+}
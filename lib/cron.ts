@@ -0,0 +1,19 @@
+// lib/cron.ts
+import { createHash, timingSafeEqual } from "node:crypto";
+
+// hashed so both sides have the same length for timingSafeEqual
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * Scheduled routes are called by Vercel Cron with
+ * `Authorization: Bearer $CRON_SECRET`. When CRON_SECRET isn't set they
+ * stay callable by hand in local dev, and refuse every call in production.
+ */
+export function isAuthorizedCron(req: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return process.env.NODE_ENV !== "production";
+  return timingSafeEqual(
+    digest(req.headers.get("authorization") ?? ""),
+    digest(`Bearer ${secret}`)
+  );
+}
@@ -0,0 +1,433 @@
+// lib/embed.ts
+// Framework-free tracking + content-swap snippet for external sites, served
+// at /embed.js. It does what hooks/useAnalytics.ts does for this app's own
+// pages, for any page that includes:
+//
+//   <script async src="https://<this app>/embed.js" data-site="acme"></script>
+//
+// Optional attributes: data-experiment (default "home").
+//
+// On load the snippet asks /api/content which arm this visitor is in and,
+// when that arm has its own copy, writes it into the elements marked
+//
+//   data-cmx="heroTitle" | "heroSubtitle" | "primaryCta" | "secondaryCta" | "badge"
+//
+// <html> carries a `cmx-loading` class until then (at most
+// CONTENT_TIMEOUT_MS), so pages can hide the default copy without flicker:
+//
+//   .cmx-loading [data-cmx] { visibility: hidden; }
+//
+// Events go to /api/analytics with the site ID and the assigned variant.
+// `window.cmindx.track(eventType, payload)` sends custom events, e.g.
+// `cmindx.track("goal", { goalId: "signup" })`.
+import { HOME_EXPERIMENT_ID } from "@/lib/assignment";
+import type { HeroContent } from "@/lib/experiments";
+import {
+  ACTIVE_SAMPLE_MS,
+  ENGAGEMENT_EVENT,
+  IDLE_TIMEOUT_MS,
+  SCROLL_MILESTONES,
+} from "@/lib/engagement";
+import { MAX_BATCH_SIZE } from "@/lib/events";
+import { GOALS } from "@/lib/goals";
+import {
+  DEVICE_BREAKPOINTS,
+  INTERACTIVE_SELECTOR,
+  MAX_SELECTOR_DEPTH,
+  STABLE_ID,
+} from "@/lib/heatmap";
+import {
+  SESSION_KEY,
+  SESSION_TIMEOUT_MS,
+  VISITOR_KEY,
+} from "@/lib/identity";
+import { CURRENT_SITE_ID } from "@/lib/site-id";
+import { MAX_VALUE_LENGTH, UTM_PARAMS } from "@/lib/traffic";
+
+const FLUSH_INTERVAL_MS = 5000;
+const CONTENT_TIMEOUT_MS = 1500;
+
+const SLOTS: (keyof HeroContent)[] = [
+  "heroTitle",
+  "heroSubtitle",
+  "primaryCta",
+  "secondaryCta",
+  "badge",
+];
+
+export const EMBED_CONFIG = {
+  defaultSiteId: CURRENT_SITE_ID,
+  defaultExperimentId: HOME_EXPERIMENT_ID,
+  goals: GOALS,
+  slots: SLOTS,
+  maxBatchSize: MAX_BATCH_SIZE,
+  flushIntervalMs: FLUSH_INTERVAL_MS,
+  contentTimeoutMs: CONTENT_TIMEOUT_MS,
+  sessionTimeoutMs: SESSION_TIMEOUT_MS,
+  visitorKey: VISITOR_KEY,
+  sessionKey: SESSION_KEY,
+  deviceBreakpoints: DEVICE_BREAKPOINTS,
+  interactiveSelector: INTERACTIVE_SELECTOR,
+  maxSelectorDepth: MAX_SELECTOR_DEPTH,
+  stableId: STABLE_ID.source,
+  engagementEvent: ENGAGEMENT_EVENT,
+  scrollMilestones: SCROLL_MILESTONES,
+  idleTimeoutMs: IDLE_TIMEOUT_MS,
+  activeSampleMs: ACTIVE_SAMPLE_MS,
+  utmParams: UTM_PARAMS,
+  maxUtmLength: MAX_VALUE_LENGTH,
+};
+
+// Plain ES2017 that runs as-is in any browser; no bundler in between, so
+// no TypeScript syntax below.
+const SNIPPET_BODY = `
+  var script = document.currentScript;
+  if (!script || window.cmindx) return;
+
+  var origin = new URL(script.src).origin;
+  var siteId = script.getAttribute("data-site") || CONFIG.defaultSiteId;
+  var experimentId =
+    script.getAttribute("data-experiment") || CONFIG.defaultExperimentId;
+
+  /* ---------- identity (same keys as lib/identity.ts) ---------- */
+
+  var memoryStore = {};
+  function read(key) {
+    try { return window.localStorage.getItem(key); }
+    catch (e) { return memoryStore[key] || null; }
+  }
+  function write(key, value) {
+    try { window.localStorage.setItem(key, value); }
+    catch (e) { memoryStore[key] = value; }
+  }
+  function randomId(prefix) {
+    return (window.crypto && crypto.randomUUID && crypto.randomUUID()) ||
+      prefix + "_" + Date.now() + "_" + Math.random().toString(36).slice(2);
+  }
+  function getVisitorId() {
+    var id = read(CONFIG.visitorKey);
+    if (!id) { id = randomId("vis"); write(CONFIG.visitorKey, id); }
+    return id;
+  }
+  function touchSession() {
+    var now = Date.now();
+    var session = null;
+    try { session = JSON.parse(read(CONFIG.sessionKey) || "null"); }
+    catch (e) { session = null; }
+    if (session && typeof session.id === "string" &&
+        now - session.lastActivity < CONFIG.sessionTimeoutMs) {
+      session.lastActivity = now;
+    } else {
+      session = { id: randomId("sess"), startedAt: now, lastActivity: now };
+    }
+    write(CONFIG.sessionKey, JSON.stringify(session));
+    return session.id;
+  }
+
+  var visitorId = getVisitorId();
+
+  /* ---------- event queue ---------- */
+
+  // Events queue up until the arm is known so each one carries it.
+  var queue = [];
+  var assigned = false;
+  var variantId;
+
+  function send(eventType, payload) {
+    queue.push({
+      visitorId: visitorId,
+      sessionId: touchSession(),
+      eventType: eventType,
+      payload: payload || {},
+      ts: new Date().toISOString()
+    });
+    if (queue.length >= CONFIG.maxBatchSize) flush();
+  }
+
+  // text/plain keeps the POST a "simple" request: no CORS preflight.
+  function flush(useBeacon) {
+    if (!assigned || queue.length === 0) return;
+
+    var batch = queue.slice(0, CONFIG.maxBatchSize);
+    queue = queue.slice(batch.length);
+    if (variantId) {
+      batch.forEach(function (e) { e.variantId = variantId; });
+    }
+    var body = JSON.stringify({ siteId: siteId, events: batch });
+    var endpoint = origin + "/api/analytics";
+
+    if (useBeacon && navigator.sendBeacon &&
+        navigator.sendBeacon(endpoint, new Blob([body], { type: "text/plain" }))) {
+      if (queue.length > 0) flush(true);
+      return;
+    }
+
+    fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: body,
+      keepalive: true
+    }).catch(function () {});
+
+    if (queue.length > 0) flush(useBeacon);
+  }
+
+  /* ---------- content swap ---------- */
+
+  var root = document.documentElement;
+  root.classList.add("cmx-loading");
+  var reveal = function () { root.classList.remove("cmx-loading"); };
+  var revealTimer = setTimeout(reveal, CONFIG.contentTimeoutMs);
+
+  function applyHero(hero) {
+    CONFIG.slots.forEach(function (slot) {
+      if (typeof hero[slot] !== "string") return;
+      var nodes = document.querySelectorAll('[data-cmx="' + slot + '"]');
+      for (var i = 0; i < nodes.length; i++) nodes[i].textContent = hero[slot];
+    });
+  }
+
+  function whenReady(fn) {
+    if (document.readyState === "loading") {
+      document.addEventListener("DOMContentLoaded", fn);
+    } else {
+      fn();
+    }
+  }
+
+  fetch(origin + "/api/content?siteId=" + encodeURIComponent(siteId) +
+      "&experimentId=" + encodeURIComponent(experimentId) +
+      "&visitorId=" + encodeURIComponent(visitorId))
+    .then(function (res) { return res.json(); })
+    .then(function (json) {
+      if (!json.ok) throw new Error(json.error || "Assignment failed");
+      variantId = json.variantId;
+      window.cmindx.variantId = variantId;
+      whenReady(function () {
+        if (json.hero) applyHero(json.hero);
+        clearTimeout(revealTimer);
+        reveal();
+      });
+    })
+    .catch(function (err) {
+      console.warn("cmindx: variant assignment failed", err);
+      reveal();
+    })
+    .then(function () {
+      assigned = true;
+      flush();
+    });
+
+  /* ---------- click geometry (same payload as lib/heatmap.ts) ---------- */
+
+  var stableId = new RegExp(CONFIG.stableId);
+
+  function elementSelector(el) {
+    var parts = [];
+    var node = el;
+    while (node && node.tagName !== "BODY" && node.tagName !== "HTML" &&
+        parts.length < CONFIG.maxSelectorDepth) {
+      if (node.id && stableId.test(node.id)) {
+        parts.unshift("#" + node.id);
+        break;
+      }
+      var slot = node.getAttribute("data-cmx");
+      if (slot) {
+        parts.unshift('[data-cmx="' + slot + '"]');
+        break;
+      }
+      var tag = node.tagName.toLowerCase();
+      var parent = node.parentElement;
+      var sameTag = parent ? Array.prototype.filter.call(parent.children,
+        function (sibling) { return sibling.tagName === node.tagName; }) : [];
+      parts.unshift(sameTag.length > 1
+        ? tag + ":nth-of-type(" + (sameTag.indexOf(node) + 1) + ")"
+        : tag);
+      node = parent;
+    }
+    return parts.join(" > ");
+  }
+
+  // external referrer host and UTM parameters, as pageviewSource() in
+  // lib/traffic.ts
+  function pageviewSource() {
+    var result = {};
+    try {
+      var referrer = new URL(document.referrer);
+      if (referrer.host !== window.location.host) {
+        result.referrer = referrer.hostname;
+      }
+    } catch (e) {}
+    var params = new URLSearchParams(window.location.search);
+    var utm = {};
+    var found = false;
+    CONFIG.utmParams.forEach(function (key) {
+      var value = params.get(key);
+      if (value) {
+        utm[key] = value.slice(0, CONFIG.maxUtmLength);
+        found = true;
+      }
+    });
+    if (found) result.utm = utm;
+    return result;
+  }
+
+  function deviceClass(viewportWidth) {
+    return viewportWidth < CONFIG.deviceBreakpoints.tablet ? "mobile"
+      : viewportWidth < CONFIG.deviceBreakpoints.desktop ? "tablet"
+      : "desktop";
+  }
+
+  function fraction(value, total) {
+    if (total <= 0) return 0;
+    return Math.round(Math.min(1, Math.max(0, value / total)) * 1e4) / 1e4;
+  }
+
+  function describeClick(e, target) {
+    var el = target.closest(CONFIG.interactiveSelector) || target;
+    var viewportWidth = root.clientWidth || window.innerWidth;
+    var viewportHeight = root.clientHeight || window.innerHeight;
+    var docWidth = Math.max(root.scrollWidth, viewportWidth);
+    var docHeight = Math.max(root.scrollHeight, viewportHeight);
+    var payload = {
+      path: window.location.pathname,
+      selector: elementSelector(el),
+      tag: el.tagName,
+      viewX: fraction(e.clientX, viewportWidth),
+      viewY: fraction(e.clientY, viewportHeight),
+      docX: fraction(e.pageX, docWidth),
+      docY: fraction(e.pageY, docHeight),
+      viewportWidth: viewportWidth,
+      viewportHeight: viewportHeight,
+      docWidth: docWidth,
+      docHeight: docHeight,
+      device: deviceClass(viewportWidth)
+    };
+    var text = (el.innerText || "").trim().slice(0, 80);
+    if (text) payload.text = text;
+    return payload;
+  }
+
+  /* ---------- listeners ---------- */
+
+  function handleClick(e) {
+    var target = e.target;
+    if (!target || !target.closest) return;
+    send("click", describeClick(e, target));
+    CONFIG.goals.forEach(function (goal) {
+      if (goal.trigger.type === "click" && target.closest(goal.trigger.selector)) {
+        send("goal", { goalId: goal.id, trigger: "click" });
+      }
+    });
+  }
+
+  function handleSubmit(e) {
+    var form = e.target;
+    CONFIG.goals.forEach(function (goal) {
+      if (goal.trigger.type === "submit" && form.matches &&
+          form.matches(goal.trigger.selector)) {
+        send("goal", { goalId: goal.id, trigger: "submit" });
+      }
+    });
+  }
+
+  /* ---------- engagement (same reports as lib/engagement.ts) ---------- */
+
+  var pageviewId = randomId("pv");
+  var path = window.location.pathname;
+  var startedAt = Date.now();
+  var activeMs = 0;
+  var lastSample = startedAt;
+  var lastInput = startedAt;
+  var maxScrollPercent = 0;
+  var milestonesReached = {};
+
+  function sampleActivity() {
+    var now = Date.now();
+    if (document.visibilityState === "visible" && document.hasFocus() &&
+        now - lastInput < CONFIG.idleTimeoutMs) {
+      activeMs += now - lastSample;
+    }
+    lastSample = now;
+  }
+
+  function handleInput() {
+    sampleActivity();
+    lastInput = Date.now();
+  }
+
+  function reportEngagement() {
+    sampleActivity();
+    send(CONFIG.engagementEvent, {
+      pageviewId: pageviewId,
+      path: path,
+      dwellMs: Date.now() - startedAt,
+      activeMs: activeMs,
+      maxScrollPercent: maxScrollPercent
+    });
+  }
+
+  function handleScroll() {
+    handleInput();
+
+    var scrollTop = window.pageYOffset || root.scrollTop;
+    var docHeight = root.scrollHeight - root.clientHeight;
+    var scrollPercent = docHeight > 0
+      ? Math.min(100, Math.round((scrollTop / docHeight) * 100))
+      : 0;
+
+    if (scrollPercent <= maxScrollPercent) return;
+    maxScrollPercent = scrollPercent;
+
+    CONFIG.scrollMilestones.forEach(function (milestone) {
+      if (scrollPercent >= milestone && !milestonesReached[milestone]) {
+        milestonesReached[milestone] = true;
+        send("scroll", { scrollPercent: milestone, pageviewId: pageviewId });
+      }
+    });
+  }
+
+  window.cmindx = {
+    siteId: siteId,
+    visitorId: visitorId,
+    variantId: undefined,
+    track: function (eventType, payload) { send(eventType, payload); }
+  };
+
+  send("pageview", Object.assign({
+    path: path,
+    pageviewId: pageviewId,
+    device: deviceClass(root.clientWidth || window.innerWidth)
+  }, pageviewSource()));
+
+  setInterval(function () { flush(); }, CONFIG.flushIntervalMs);
+  setInterval(sampleActivity, CONFIG.activeSampleMs);
+  window.addEventListener("click", handleClick);
+  window.addEventListener("submit", handleSubmit);
+  window.addEventListener("scroll", handleScroll, { passive: true });
+  ["pointerdown", "pointermove", "keydown", "wheel"].forEach(function (type) {
+    window.addEventListener(type, handleInput, { passive: true });
+  });
+  document.addEventListener("visibilitychange", function () {
+    if (document.visibilityState === "hidden") {
+      reportEngagement();
+      flush(true);
+    } else {
+      lastSample = Date.now();
+    }
+  });
+  window.addEventListener("pagehide", function () {
+    reportEngagement();
+    flush(true);
+  });
+`;
+
+/** The full /embed.js source with this deployment's config inlined. */
+export function renderEmbedScript(): string {
+  return `/* cMindX embed snippet */
+(function () {
+  "use strict";
+  var CONFIG = ${JSON.stringify(EMBED_CONFIG)};
+${SNIPPET_BODY}})();
+`;
+}
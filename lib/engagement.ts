@@ -0,0 +1,51 @@
+// lib/engagement.ts
+// What the client reports about each pageview: scroll milestones as they are
+// reached, and dwell time, active time and max scroll depth on exit.
+// hooks/useAnalytics.ts sends these, lib/embed.ts mirrors it in plain JS and
+// lib/aggregate.ts turns them into session and variant metrics.
+
+/** Sent when the page is hidden or left; may repeat for one pageview. */
+export const ENGAGEMENT_EVENT = "engagement";
+
+/** Scroll depths (percent) sent as a "scroll" event when first reached. */
+export const SCROLL_MILESTONES = [25, 50, 75, 100] as const;
+export type ScrollMilestone = (typeof SCROLL_MILESTONES)[number];
+
+/** Without input for this long the visitor stops counting as active. */
+export const IDLE_TIMEOUT_MS = 30_000;
+/** How often the client samples whether the visitor is active. */
+export const ACTIVE_SAMPLE_MS = 1000;
+
+export type EngagementPayload = {
+  pageviewId: string;
+  path: string;
+  /** Wall-clock time since the pageview, hidden time included. */
+  dwellMs: number;
+  /** Visible, focused and not idle (input within IDLE_TIMEOUT_MS). */
+  activeMs: number;
+  /** Deepest scroll position reached on this pageview, 0–100. */
+  maxScrollPercent: number;
+};
+
+const isDuration = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/** The payload of an engagement event, or null when it's malformed. */
+export function readEngagement(
+  payload: Record<string, unknown>
+): EngagementPayload | null {
+  const { pageviewId, path, dwellMs, activeMs, maxScrollPercent } = payload;
+  if (
+    typeof pageviewId !== "string" ||
+    !pageviewId ||
+    typeof path !== "string" ||
+    !isDuration(dwellMs) ||
+    !isDuration(activeMs) ||
+    typeof maxScrollPercent !== "number" ||
+    maxScrollPercent < 0 ||
+    maxScrollPercent > 100
+  ) {
+    return null;
+  }
+  return { pageviewId, path, dwellMs, activeMs, maxScrollPercent };
+}
@@ -0,0 +1,104 @@
+// lib/event-store.ts
+// Reads of the site's raw `events`. Events are written together with their
+// rollups (ingestEvents in lib/rollups.ts).
+import type { DocumentData } from "firebase-admin/firestore";
+import type { AnalyticsEvent } from "@/lib/events";
+import { siteCollection } from "@/lib/sites";
+
+function eventFromData(data: DocumentData): AnalyticsEvent {
+  return {
+    visitorId: data.visitorId,
+    sessionId: data.sessionId ?? "unknown",
+    eventType: data.eventType ?? "unknown",
+    payload: (data.payload ?? {}) as Record<string, unknown>,
+    ts: data.ts ?? new Date().toISOString(),
+    variantId: data.variantId,
+  };
+}
+
+export async function loadRecentEvents(
+  siteId: string,
+  max = 500
+): Promise<AnalyticsEvent[]> {
+  const snap = await siteCollection(siteId, "events")
+    .orderBy("ts", "desc")
+    .limit(max)
+    .get();
+
+  return snap.docs.map((d) => eventFromData(d.data()));
+}
+
+/** Events received in [from, to) (ISO), newest first, capped at `max`. */
+export async function loadEventsBetween(
+  siteId: string,
+  from: string,
+  to: string,
+  max = 5000
+): Promise<AnalyticsEvent[]> {
+  const snap = await siteCollection(siteId, "events")
+    .where("ts", ">=", from)
+    .where("ts", "<", to)
+    .orderBy("ts", "desc")
+    .limit(max)
+    .get();
+
+  return snap.docs.map((d) => eventFromData(d.data()));
+}
+
+/** Events received at or after `since` (ISO), newest first, capped at `max`. */
+export async function loadEventsSince(
+  siteId: string,
+  since: string,
+  max = 5000
+): Promise<AnalyticsEvent[]> {
+  const snap = await siteCollection(siteId, "events")
+    .where("ts", ">=", since)
+    .orderBy("ts", "desc")
+    .limit(max)
+    .get();
+
+  return snap.docs.map((d) => eventFromData(d.data()));
+}
+
+const EVENT_PAGE_SIZE = 1000;
+
+/**
+ * Every event received at or after `since` (ISO), oldest first — the order
+ * they were ingested in — read a page at a time.
+ */
+export async function loadAllEventsSince(
+  siteId: string,
+  since: string
+): Promise<AnalyticsEvent[]> {
+  const events: AnalyticsEvent[] = [];
+  let q = siteCollection(siteId, "events")
+    .where("ts", ">=", since)
+    .orderBy("ts", "asc")
+    .limit(EVENT_PAGE_SIZE);
+  for (;;) {
+    const snap = await q.get();
+    events.push(...snap.docs.map((d) => eventFromData(d.data())));
+    if (snap.size < EVENT_PAGE_SIZE) return events;
+    q = q.startAfter(snap.docs[snap.size - 1]);
+  }
+}
+
+/**
+ * Events of one type received at or after `since` (ISO), newest first.
+ * Needs the composite index events(eventType asc, ts desc).
+ */
+export async function loadEventsOfTypeSince(
+  siteId: string,
+  eventType: string,
+  since: string,
+  max = 5000
+): Promise<AnalyticsEvent[]> {
+  const snap = await siteCollection(siteId, "events")
+    .where("eventType", "==", eventType)
+    .where("ts", ">=", since)
+    .orderBy("ts", "desc")
+    .limit(max)
+    .get();
+
+  return snap.docs.map((d) => eventFromData(d.data()));
+}
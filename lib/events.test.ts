@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { parseAnalyticsEvent } from "@/lib/events";
+
+const receivedAt = new Date("2026-10-05T10:00:00.000Z");
+
+const parse = (overrides: Record<string, unknown>) =>
+  parseAnalyticsEvent(
+    { sessionId: "sess_1", eventType: "click", ...overrides },
+    receivedAt
+  );
+
+describe("parseAnalyticsEvent", () => {
+  it("stamps the server receive time and keeps the client's", () => {
+    const parsed = parse({ ts: "2026-10-05T09:59:58.000Z" });
+    expect(parsed).toMatchObject({
+      ok: true,
+      event: {
+        ts: receivedAt.toISOString(),
+        clientTs: "2026-10-05T09:59:58.000Z",
+      },
+    });
+  });
+
+  it.each(["a/b", ".", "..", "x".repeat(129), ""])(
+    "rejects %j as a sessionId, since it keys a doc",
+    (sessionId) => {
+      expect(parse({ sessionId })).toEqual({
+        ok: false,
+        error: "Invalid sessionId",
+      });
+    }
+  );
+
+  it.each(["a/b", "..", "x".repeat(129)])(
+    "rejects %j as a visitorId, since it keys a doc",
+    (visitorId) => {
+      expect(parse({ visitorId })).toEqual({
+        ok: false,
+        error: "Invalid visitorId",
+      });
+    }
+  );
+
+  it("leaves visitorId off when it isn't sent", () => {
+    const parsed = parse({});
+    expect(parsed.ok && "visitorId" in parsed.event).toBe(false);
+  });
+
+  it("accepts UUIDs and the fallback IDs the clients generate", () => {
+    expect(parse({ sessionId: crypto.randomUUID() }).ok).toBe(true);
+    expect(parse({ sessionId: "sess_1760000000000_k3j9x0a1b2" }).ok).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+// lib/events.ts
+// Analytics events and how incoming batches are validated. Firestore-free
+// so the analytics hook shares its limits; reads of stored events are in
+// lib/event-store.ts.
+import { ENGAGEMENT_EVENT, readEngagement } from "@/lib/engagement";
+import { isDocId } from "@/lib/site-id";
+
+export type AnalyticsEvent = {
+  visitorId?: string;
+  sessionId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  ts: string;
+  variantId?: string;
+};
+
+/** What actually lands in the site's `events`. `ts` is the server receive time. */
+export type StoredAnalyticsEvent = AnalyticsEvent & {
+  clientTs: string | null;
+};
+
+const MAX_ID_LENGTH = 128;
+const MAX_EVENT_TYPE_LENGTH = 64;
+const MAX_PAYLOAD_BYTES = 4096;
+// Firestore caps a transaction at 500 writes, shared by the events and the
+// rollups they update (lib/rollups.ts); the client flushes far less.
+export const MAX_BATCH_SIZE = 100;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value)
+  );
+}
+
+function isShortString(value: unknown, max: number): value is string {
+  return typeof value === "string" && value.length > 0 && value.length <= max;
+}
+
+/**
+ * Validates a raw event coming from the client and stamps it with the
+ * server receive time. Returns an error message instead of throwing so the
+ * route can answer with a 400.
+ */
+export function parseAnalyticsEvent(
+  input: unknown,
+  receivedAt: Date = new Date()
+): { ok: true; event: StoredAnalyticsEvent } | { ok: false; error: string } {
+  if (!isPlainObject(input)) {
+    return { ok: false, error: "Event must be an object" };
+  }
+
+  const { visitorId, sessionId, eventType, payload, ts, variantId } = input;
+
+  // both key rollup docs (lib/rollups.ts)
+  if (visitorId !== undefined && !isDocId(visitorId)) {
+    return { ok: false, error: "Invalid visitorId" };
+  }
+  if (!isDocId(sessionId)) {
+    return { ok: false, error: "Invalid sessionId" };
+  }
+  if (!isShortString(eventType, MAX_EVENT_TYPE_LENGTH)) {
+    return { ok: false, error: "Invalid eventType" };
+  }
+  if (payload !== undefined && !isPlainObject(payload)) {
+    return { ok: false, error: "payload must be an object" };
+  }
+  if (
+    payload !== undefined &&
+    JSON.stringify(payload).length > MAX_PAYLOAD_BYTES
+  ) {
+    return { ok: false, error: "payload too large" };
+  }
+  if (variantId !== undefined && !isShortString(variantId, MAX_ID_LENGTH)) {
+    return { ok: false, error: "Invalid variantId" };
+  }
+  if (
+    eventType === "goal" &&
+    !isShortString(payload?.goalId, MAX_EVENT_TYPE_LENGTH)
+  ) {
+    return { ok: false, error: "goal events need payload.goalId" };
+  }
+  if (eventType === ENGAGEMENT_EVENT && !readEngagement(payload ?? {})) {
+    return {
+      ok: false,
+      error:
+        "engagement events need pageviewId, path, dwellMs, activeMs and maxScrollPercent",
+    };
+  }
+
+  const clientTs =
+    typeof ts === "string" && !Number.isNaN(Date.parse(ts)) ? ts : null;
+
+  const event: StoredAnalyticsEvent = {
+    sessionId,
+    eventType,
+    payload: payload ?? {},
+    ts: receivedAt.toISOString(),
+    clientTs,
+  };
+
+  // Firestore rejects `undefined` fields, so only set optional ones when present.
+  if (visitorId !== undefined) event.visitorId = visitorId;
+  if (variantId !== undefined) event.variantId = variantId;
+
+  return { ok: true, event };
+}
+
+/**
+ * Accepts either a single event object, a bare array of events or
+ * `{ events: [...] }` (what the beacon transport sends). All events in a
+ * batch share the same receive time.
+ */
+export function parseAnalyticsBatch(
+  body: unknown,
+  receivedAt: Date = new Date()
+):
+  | { ok: true; events: StoredAnalyticsEvent[] }
+  | { ok: false; error: string } {
+  let raw: unknown[];
+
+  if (Array.isArray(body)) {
+    raw = body;
+  } else if (isPlainObject(body) && Array.isArray(body.events)) {
+    raw = body.events;
+  } else {
+    raw = [body];
+  }
+
+  if (raw.length === 0) {
+    return { ok: false, error: "No events in payload" };
+  }
+  if (raw.length > MAX_BATCH_SIZE) {
+    return {
+      ok: false,
+      error: `Too many events in one batch (max ${MAX_BATCH_SIZE})`,
+    };
+  }
+
+  const events: StoredAnalyticsEvent[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const parsed = parseAnalyticsEvent(raw[i], receivedAt);
+    if (!parsed.ok) {
+      return { ok: false, error: `events[${i}]: ${parsed.error}` };
+    }
+    events.push(parsed.event);
+  }
+
+  return { ok: true, events };
+}
@@ -0,0 +1,1171 @@
+// lib/experiments.ts
+// The experiment domain model and its Firestore repository. Everything that
+// decides what the site shows — traffic split, variants, the live hero and
+// the live landing build — is read and written through this module.
+//
+// Paths are per site (see lib/sites.ts):
+//   experiments/{experimentId}                arms, mode, live variant, live landing
+//   experiments/{experimentId}/assignments    sticky visitor → arm (adaptive modes)
+//   experiments/{experimentId}/history        bandit weight changes
+//   experiments/{experimentId}/promotions     append-only log of what went live
+//   variants/{variantId}                      hero copy + review state
+//   landingPages/{slug}                       landing builds + review state
+//
+// Variants and landing builds follow the review lifecycle in lib/review.ts;
+// only approved ones can be promoted. Every change to the live hero or live
+// landing is logged with a snapshot of the content, so any earlier version
+// can be compared against or restored.
+import type {
+  DocumentData,
+  DocumentReference,
+  Transaction,
+} from "firebase-admin/firestore";
+import { db } from "@/lib/firebase";
+import {
+  DEFAULT_ARMS,
+  DEFAULT_EPSILON,
+  HOME_EXPERIMENT_ID,
+  isAllocationMode,
+  isBuiltInArm,
+  pickArm,
+  validateArms,
+  type AllocationMode,
+  type TrafficArm,
+} from "@/lib/assignment";
+import { cacheLiveContent, invalidateLiveContent } from "@/lib/live-cache";
+import type { PromptRef } from "@/lib/prompts";
+import {
+  isPromotable,
+  newReview,
+  promotionEntry,
+  reviewDoc,
+  reviewFromData,
+  type ReviewAction,
+  type ReviewFields,
+  type ReviewResult,
+  type ReviewStatus,
+} from "@/lib/review";
+import { siteCollection, siteDoc } from "@/lib/sites";
+
+/* ---------- domain types ---------- */
+
+export type HeroContent = {
+  heroTitle: string;
+  heroSubtitle: string;
+  primaryCta: string;
+  secondaryCta: string;
+  badge?: string;
+};
+
+export type VariantStatus = ReviewStatus;
+
+export type Variant = HeroContent &
+  ReviewFields & {
+    id: string;
+    /** Where the copy came from: "ai", "manual", "auto-mode", … */
+    createdBy: string;
+    createdAt: string;
+    fromVariant?: string;
+    meta?: unknown;
+    /** Prompt template that generated this copy, if it came from a model. */
+    prompt?: PromptRef;
+    promotedAt?: string;
+  };
+
+export type LandingPageSpec = {
+  hero: {
+    title: string;
+    subtitle: string;
+    primaryCta: string;
+    secondaryCta: string;
+    badge: string;
+    strip: string;
+  };
+  system: {
+    currentVariantLabel: string;
+    dataSourceLabel: string;
+    agentLabel: string;
+    description: string;
+  };
+  pillars: {
+    label: string;
+    title: string;
+    body: string;
+  }[];
+  stackPoints: string[];
+  editCards: {
+    title: string;
+    body: string;
+  }[];
+};
+
+export type LiveLanding = {
+  slug: string;
+  spec: LandingPageSpec;
+  prompt?: PromptRef;
+  promotedAt: string;
+};
+
+/** A saved landing build awaiting review or promotion. */
+export type LandingBuild = ReviewFields & {
+  slug: string;
+  spec: LandingPageSpec;
+  prompt?: PromptRef;
+  source: string;
+  createdAt: string;
+  promotedAt?: string;
+};
+
+/** Experiments without a schedule are always "running". */
+export type ExperimentStatus = "scheduled" | "running" | "stopped";
+
+export type StopConditions = {
+  /** Stop this many days after the start. */
+  maxDays: number | null;
+  /** Stop once the arms have seen this many sessions between them. */
+  maxSessions: number | null;
+  /** Stop as soon as one arm is a significant winner. */
+  onSignificance: boolean;
+};
+
+/** Time box for an experiment; evaluated by lib/schedule.ts. */
+export type ExperimentSchedule = {
+  /** Until then every visitor gets `controlId`; null starts right away. */
+  startAt: string | null;
+  endAt: string | null;
+  stop: StopConditions;
+  /** Arm the others are compared against and that keeps traffic on a tie. */
+  controlId: string;
+  /** Promote a winning (non-built-in) variant through promoteVariant. */
+  promoteWinner: boolean;
+};
+
+export type ExperimentOutcome = {
+  stoppedAt: string;
+  reason: "end_time" | "duration" | "sample_size" | "significance";
+  detail: string;
+  winnerId: string | null;
+  /** Arm left with all traffic: the winner, or the control. */
+  keptId: string;
+  promoted: boolean;
+  promotionError?: string;
+  stats: { variantId: string; sessions: number; conversions: number }[];
+};
+
+export type Experiment = {
+  id: string;
+  siteId: string;
+  arms: TrafficArm[];
+  mode: AllocationMode;
+  /** Exploration share for epsilon-greedy, 0–1. */
+  epsilon: number;
+  /**
+   * Who pinned the weights, e.g. auto mode while its test runs; adaptive
+   * modes leave pinned weights alone.
+   */
+  pinnedBy: string | null;
+  /** Variant whose hero copy the built-in arms render, if any. */
+  liveVariantId: string | null;
+  liveLanding: LiveLanding | null;
+  status: ExperimentStatus;
+  schedule: ExperimentSchedule | null;
+  startedAt: string | null;
+  outcome: ExperimentOutcome | null;
+  updatedAt?: string;
+  lastRecomputedAt?: string | null;
+};
+
+export type PromotionKind = "variant" | "landing";
+
+/**
+ * One change to what's live. Records are never edited; a rollback is a new
+ * record pointing back at the one it restored.
+ */
+export type PromotionRecord = {
+  id: string;
+  experimentId: string;
+  kind: PromotionKind;
+  action: "promote" | "clear" | "rollback";
+  /** Variant ID or landing slug that went live; null when cleared. */
+  refId: string | null;
+  /** What was live before this change. */
+  previousRefId: string | null;
+  /** Snapshot of what went live (hero for variants, spec for landings). */
+  hero?: HeroContent;
+  spec?: LandingPageSpec;
+  prompt?: PromptRef;
+  by: string;
+  reason?: string;
+  /** For rollbacks: the record whose content was restored. */
+  restoredFrom?: string;
+  at: string;
+};
+
+export type WeightHistoryEntry = {
+  experimentId: string;
+  mode: AllocationMode;
+  previousArms: TrafficArm[];
+  arms: TrafficArm[];
+  stats: { variantId: string; sessions: number; conversions: number }[];
+  reason: string;
+  recomputedAt: string;
+};
+
+/* ---------- validation ---------- */
+
+export function isHeroContent(value: unknown): value is HeroContent {
+  const v = value as Partial<HeroContent> | null | undefined;
+  return Boolean(
+    v && v.heroTitle && v.heroSubtitle && v.primaryCta && v.secondaryCta
+  );
+}
+
+/** Just the hero copy, e.g. for public responses that mustn't carry reviews. */
+export function pickHero(data: DocumentData): HeroContent {
+  const hero: HeroContent = {
+    heroTitle: data.heroTitle,
+    heroSubtitle: data.heroSubtitle,
+    primaryCta: data.primaryCta,
+    secondaryCta: data.secondaryCta,
+  };
+  if (data.badge) hero.badge = data.badge;
+  return hero;
+}
+
+/** Firestore rejects `undefined`; strip it before writing. */
+function clean<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as T;
+}
+
+/* ---------- experiments ---------- */
+
+function experimentFromData(
+  siteId: string,
+  id: string,
+  data: DocumentData
+): Experiment {
+  const epsilon = Number(data.epsilon);
+  return {
+    id,
+    siteId,
+    arms: validateArms(data.arms) ?? DEFAULT_ARMS,
+    mode: isAllocationMode(data.mode) ? data.mode : "fixed",
+    epsilon:
+      Number.isFinite(epsilon) && epsilon >= 0 && epsilon <= 1
+        ? epsilon
+        : DEFAULT_EPSILON,
+    pinnedBy: data.pinnedBy ?? null,
+    liveVariantId: data.liveVariantId ?? null,
+    liveLanding: data.liveLanding ?? null,
+    status:
+      data.status === "scheduled" || data.status === "stopped"
+        ? data.status
+        : "running",
+    schedule: data.schedule ?? null,
+    startedAt: data.startedAt ?? null,
+    outcome: data.outcome ?? null,
+    updatedAt: data.updatedAt,
+    lastRecomputedAt: data.lastRecomputedAt ?? null,
+  };
+}
+
+export async function getExperiment(
+  siteId: string,
+  experimentId: string = HOME_EXPERIMENT_ID
+): Promise<Experiment> {
+  const snap = await siteDoc(siteId, "experiments", experimentId).get();
+  return experimentFromData(siteId, experimentId, snap.data() ?? {});
+}
+
+/** Every experiment doc for the site (scheduled or not). */
+export async function listExperiments(siteId: string): Promise<Experiment[]> {
+  const snap = await siteCollection(siteId, "experiments").get();
+  return snap.docs.map((d) => experimentFromData(siteId, d.id, d.data()));
+}
+
+export async function updateExperiment(
+  siteId: string,
+  experimentId: string,
+  patch: Partial<Omit<Experiment, "id" | "siteId">>
+): Promise<Experiment> {
+  await siteDoc(siteId, "experiments", experimentId).set(
+    clean({ ...patch, updatedAt: new Date().toISOString() }),
+    { merge: true }
+  );
+  invalidateLiveContent(siteId);
+  return getExperiment(siteId, experimentId);
+}
+
+/**
+ * Fixed splits bucket by hash alone. Adaptive modes move weights over time,
+ * which would move hashed visitors between arms, so for those we remember
+ * the first assignment instead.
+ */
+export async function assignVisitor(
+  visitorId: string,
+  experiment: Experiment
+): Promise<string> {
+  const { id, siteId, arms, mode, schedule } = experiment;
+
+  // not started yet: everyone sees the control, nothing is remembered
+  if (schedule?.startAt && Date.parse(schedule.startAt) > Date.now()) {
+    return schedule.controlId;
+  }
+
+  if (mode === "fixed") return pickArm(visitorId, id, arms);
+
+  const ref = siteDoc(siteId, "experiments", id, "assignments", visitorId);
+  const snap = await ref.get();
+  const previous = snap.get("variantId") ?? null;
+
+  if (arms.some((a) => a.variantId === previous && a.weight > 0)) {
+    return previous;
+  }
+
+  const variantId = pickArm(visitorId, id, arms);
+  await ref.set({ variantId, assignedAt: new Date().toISOString() });
+  return variantId;
+}
+
+export async function appendWeightHistory(
+  siteId: string,
+  entry: WeightHistoryEntry
+) {
+  await siteCollection(
+    siteId,
+    "experiments",
+    entry.experimentId,
+    "history"
+  ).add(entry);
+}
+
+export async function listWeightHistory(
+  siteId: string,
+  experimentId: string,
+  max = 20
+): Promise<WeightHistoryEntry[]> {
+  const history = siteCollection(siteId, "experiments", experimentId, "history");
+  const snap = await history
+    .orderBy("recomputedAt", "desc")
+    .limit(max)
+    .get();
+  return snap.docs.map((d) => d.data() as WeightHistoryEntry);
+}
+
+/* ---------- variants ---------- */
+
+function variantFromData(id: string, data: DocumentData): Variant {
+  return clean({
+    ...pickHero(data),
+    ...reviewFromData(data),
+    id,
+    createdBy: data.createdBy ?? "unknown",
+    createdAt: data.createdAt ?? "",
+    fromVariant: data.fromVariant,
+    meta: data.meta,
+    prompt: data.prompt,
+    promotedAt: data.promotedAt,
+  });
+}
+
+export async function getVariant(
+  siteId: string,
+  variantId: string
+): Promise<Variant | null> {
+  if (isBuiltInArm(variantId)) return null;
+
+  const snap = await siteDoc(siteId, "variants", variantId).get();
+  return snap.exists ? variantFromData(snap.id, snap.data() ?? {}) : null;
+}
+
+/** Newest first, optionally only those in one review state. */
+export async function listVariants(
+  siteId: string,
+  { status, max = 50 }: { status?: VariantStatus; max?: number } = {}
+): Promise<Variant[]> {
+  const variants = siteCollection(siteId, "variants");
+  const snap = await (
+    status
+      ? variants.where("status", "==", status)
+      : variants.orderBy("createdAt", "desc")
+  )
+    .limit(max)
+    .get();
+  return snap.docs
+    .map((d) => variantFromData(d.id, d.data()))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Saves new hero copy as a draft. `author` (operator email, or "auto-mode")
+ * is recorded in the review history; auto mode submits its challengers for
+ * review like anyone else.
+ */
+export async function createVariant(
+  siteId: string,
+  input: HeroContent &
+    Pick<Variant, "createdBy"> &
+    Partial<Pick<Variant, "fromVariant" | "meta" | "prompt">> & {
+      author: string;
+    },
+  variantId?: string
+): Promise<Variant> {
+  const variant: Omit<Variant, "id"> = clean({
+    ...pickHero(input),
+    ...newReview(input.author),
+    createdBy: input.createdBy,
+    fromVariant: input.fromVariant,
+    meta: input.meta ?? null,
+    prompt: input.prompt,
+    createdAt: new Date().toISOString(),
+  });
+
+  const ref = variantId
+    ? siteDoc(siteId, "variants", variantId)
+    : siteCollection(siteId, "variants").doc();
+  await ref.set(variant);
+  invalidateLiveContent(siteId);
+  return { ...variant, id: ref.id };
+}
+
+/** Null when the variant doesn't exist. */
+export async function reviewVariant(
+  siteId: string,
+  variantId: string,
+  action: ReviewAction,
+  actor: string,
+  comment?: string
+): Promise<ReviewResult | null> {
+  if (isBuiltInArm(variantId)) return null;
+  const result = await reviewDoc(
+    siteDoc(siteId, "variants", variantId),
+    action,
+    actor,
+    comment
+  );
+  if (result?.ok) invalidateLiveContent(siteId);
+  return result;
+}
+
+/* ---------- live content ---------- */
+
+/**
+ * Makes an approved variant the live hero for an experiment: the variant
+ * doc becomes `live`, any previously live variant is archived, and the
+ * experiment points at it. `content` creates the doc for an unknown ID —
+ * only the legacy migration does that. Runs in one transaction with its
+ * log record, so the logged previousRefId is what was actually replaced.
+ */
+export async function promoteVariant(
+  siteId: string,
+  variantId: string,
+  {
+    content,
+    experimentId = HOME_EXPERIMENT_ID,
+    by = "system",
+  }: { content?: HeroContent; experimentId?: string; by?: string } = {}
+): Promise<Variant> {
+  if (isBuiltInArm(variantId)) {
+    throw new Error(`"${variantId}" is a built-in arm and cannot be promoted`);
+  }
+
+  const promotedAt = new Date().toISOString();
+  const experimentRef = siteDoc(siteId, "experiments", experimentId);
+  const variantRef = siteDoc(siteId, "variants", variantId);
+
+  const promoted = await db.runTransaction(async (tx) => {
+    const variantSnap = await tx.get(variantRef);
+    const existing = variantSnap.exists
+      ? variantFromData(variantId, variantSnap.data() ?? {})
+      : null;
+    const hero = content ?? existing;
+    if (!hero) {
+      throw new Error(`Variant ${variantId} not found`);
+    }
+    if (existing && !isPromotable(existing.status)) {
+      throw new Error(
+        `Variant ${variantId} must be approved before promotion (status: ${existing.status})`
+      );
+    }
+
+    const experiment = experimentFromData(
+      siteId,
+      experimentId,
+      (await tx.get(experimentRef)).data() ?? {}
+    );
+    const replaced = await stillLive(
+      tx,
+      siteId,
+      "variants",
+      experiment.liveVariantId,
+      variantId
+    );
+    const baseline = await liveVariantBaseline(tx, siteId, experiment, promotedAt);
+
+    if (replaced) tx.update(replaced, { status: "archived" });
+
+    const review = existing ?? newReview(by, "approved");
+    const data: Omit<Variant, "id"> = clean({
+      createdBy: existing?.createdBy ?? "promotion",
+      createdAt: existing?.createdAt ?? promotedAt,
+      fromVariant: existing?.fromVariant,
+      meta: existing?.meta,
+      prompt: existing?.prompt,
+      ...pickHero(hero),
+      approvals: review.approvals,
+      submittedBy: review.submittedBy,
+      reviews: [...review.reviews, promotionEntry(review.status, by, promotedAt)],
+      status: "live" as const,
+      promotedAt,
+    });
+    tx.set(variantRef, data);
+
+    tx.set(
+      experimentRef,
+      { liveVariantId: variantId, updatedAt: promotedAt },
+      { merge: true }
+    );
+
+    if (baseline) tx.set(baseline.ref, baseline.data);
+    const log = newPromotionRecord(siteId, experimentId, {
+      kind: "variant",
+      action: "promote",
+      refId: variantId,
+      previousRefId: experiment.liveVariantId,
+      hero: pickHero(hero),
+      prompt: existing?.prompt,
+      by,
+      at: promotedAt,
+    });
+    tx.set(log.ref, log.data);
+
+    return data;
+  });
+
+  invalidateLiveContent(siteId);
+  return { ...promoted, id: variantId };
+}
+
+/** Removes the live hero so built-in arms fall back to the default copy. */
+export async function clearLiveVariant(
+  siteId: string,
+  {
+    experimentId = HOME_EXPERIMENT_ID,
+    by = "system",
+  }: { experimentId?: string; by?: string } = {}
+): Promise<number> {
+  const experiment = await getExperiment(siteId, experimentId);
+  // only this experiment's hero; other experiments keep theirs
+  const liveSnap = experiment.liveVariantId
+    ? await siteDoc(siteId, "variants", experiment.liveVariantId).get()
+    : null;
+  const archived = liveSnap?.exists && liveSnap.get("status") === "live";
+
+  const batch = db.batch();
+  if (archived) batch.update(liveSnap.ref, { status: "archived" });
+  batch.set(
+    siteDoc(siteId, "experiments", experimentId),
+    { liveVariantId: null, updatedAt: new Date().toISOString() },
+    { merge: true }
+  );
+  if (experiment.liveVariantId) {
+    const log = newPromotionRecord(siteId, experimentId, {
+      kind: "variant",
+      action: "clear",
+      refId: null,
+      previousRefId: experiment.liveVariantId,
+      by,
+      at: new Date().toISOString(),
+    });
+    batch.set(log.ref, log.data);
+  }
+  await batch.commit();
+  invalidateLiveContent(siteId);
+
+  return archived ? 1 : 0;
+}
+
+export async function getLiveVariant(
+  siteId: string,
+  experimentId: string = HOME_EXPERIMENT_ID
+): Promise<Variant | null> {
+  const experiment = await getExperiment(siteId, experimentId);
+  return experiment.liveVariantId
+    ? getVariant(siteId, experiment.liveVariantId)
+    : null;
+}
+
+/* ---------- landing builds ---------- */
+
+// landingPages also holds /build/{slug} pages (no spec); those never enter
+// review and are skipped here.
+function landingBuildFromData(
+  slug: string,
+  data: DocumentData
+): LandingBuild | null {
+  if (!data.spec) return null;
+  return clean({
+    ...reviewFromData(data),
+    slug,
+    spec: data.spec,
+    prompt: data.prompt,
+    source: data.source ?? "unknown",
+    createdAt: data.createdAt ?? "",
+    promotedAt: data.promotedAt,
+  });
+}
+
+export async function getLandingBuild(
+  siteId: string,
+  slug: string
+): Promise<LandingBuild | null> {
+  const snap = await siteDoc(siteId, "landingPages", slug).get();
+  return snap.exists ? landingBuildFromData(slug, snap.data() ?? {}) : null;
+}
+
+/** Newest first, optionally only those in one review state. */
+export async function listLandingBuilds(
+  siteId: string,
+  { status, max = 50 }: { status?: ReviewStatus; max?: number } = {}
+): Promise<LandingBuild[]> {
+  const pages = siteCollection(siteId, "landingPages");
+  const snap = await (
+    status
+      ? pages.where("status", "==", status)
+      : pages.orderBy("createdAt", "desc")
+  )
+    .limit(max)
+    .get();
+  return snap.docs
+    .map((d) => landingBuildFromData(d.id, d.data()))
+    .filter((b): b is LandingBuild => b !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Saves a generated landing build as a draft for review. */
+export async function saveLandingBuild(
+  siteId: string,
+  slug: string,
+  {
+    spec,
+    source,
+    author,
+    prompt,
+  }: { spec: LandingPageSpec; source: string; author: string; prompt?: PromptRef }
+): Promise<LandingBuild> {
+  const build: LandingBuild = clean({
+    ...newReview(author),
+    slug,
+    spec,
+    prompt,
+    source,
+    createdAt: new Date().toISOString(),
+  });
+  await siteDoc(siteId, "landingPages", slug).set(build);
+  return build;
+}
+
+/** Null when the build doesn't exist. */
+export async function reviewLandingBuild(
+  siteId: string,
+  slug: string,
+  action: ReviewAction,
+  actor: string,
+  comment?: string
+): Promise<ReviewResult | null> {
+  if (!(await getLandingBuild(siteId, slug))) return null;
+  return reviewDoc(
+    siteDoc(siteId, "landingPages", slug),
+    action,
+    actor,
+    comment
+  );
+}
+
+/**
+ * Makes an approved landing build the live page for the experiment; the
+ * previously live build is archived. Like promoteVariant, one transaction.
+ */
+export async function promoteLanding(
+  siteId: string,
+  slug: string,
+  {
+    experimentId = HOME_EXPERIMENT_ID,
+    by = "system",
+  }: { experimentId?: string; by?: string } = {}
+): Promise<LiveLanding> {
+  const promotedAt = new Date().toISOString();
+  const experimentRef = siteDoc(siteId, "experiments", experimentId);
+  const buildRef = siteDoc(siteId, "landingPages", slug);
+
+  const liveLanding = await db.runTransaction(async (tx) => {
+    const buildSnap = await tx.get(buildRef);
+    const build = buildSnap.exists
+      ? landingBuildFromData(slug, buildSnap.data() ?? {})
+      : null;
+    if (!build) {
+      throw new Error(`Landing build ${slug} not found`);
+    }
+    if (!isPromotable(build.status)) {
+      throw new Error(
+        `Landing build ${slug} must be approved before promotion (status: ${build.status})`
+      );
+    }
+
+    const experiment = experimentFromData(
+      siteId,
+      experimentId,
+      (await tx.get(experimentRef)).data() ?? {}
+    );
+    const current = experiment.liveLanding;
+    const replaced = await stillLive(
+      tx,
+      siteId,
+      "landingPages",
+      current?.slug ?? null,
+      slug
+    );
+    const baseline = current
+      ? await baselineRecord(
+          tx,
+          siteId,
+          experimentId,
+          {
+            kind: "landing",
+            refId: current.slug,
+            spec: current.spec,
+            prompt: current.prompt,
+            at: current.promotedAt,
+          },
+          promotedAt
+        )
+      : null;
+
+    if (replaced) tx.update(replaced, { status: "archived" });
+    tx.update(buildRef, {
+      status: "live",
+      promotedAt,
+      reviews: [...build.reviews, promotionEntry(build.status, by, promotedAt)],
+    });
+    const live: LiveLanding = clean({
+      slug,
+      spec: build.spec,
+      prompt: build.prompt,
+      promotedAt,
+    });
+    tx.set(
+      experimentRef,
+      { liveLanding: live, updatedAt: promotedAt },
+      { merge: true }
+    );
+
+    if (baseline) tx.set(baseline.ref, baseline.data);
+    const log = newPromotionRecord(siteId, experimentId, {
+      kind: "landing",
+      action: "promote",
+      refId: slug,
+      previousRefId: current?.slug ?? null,
+      spec: build.spec,
+      prompt: build.prompt,
+      by,
+      at: promotedAt,
+    });
+    tx.set(log.ref, log.data);
+
+    return live;
+  });
+
+  invalidateLiveContent(siteId);
+  return liveLanding;
+}
+
+export async function getLiveLanding(
+  siteId: string,
+  experimentId: string = HOME_EXPERIMENT_ID
+): Promise<LiveLanding | null> {
+  return (await getExperiment(siteId, experimentId)).liveLanding;
+}
+
+/* ---------- promotion log ---------- */
+
+function promotionFromData(
+  id: string,
+  experimentId: string,
+  data: DocumentData
+): PromotionRecord {
+  return clean({
+    id,
+    experimentId,
+    kind: data.kind === "landing" ? "landing" : "variant",
+    action: data.action ?? "promote",
+    refId: data.refId ?? null,
+    previousRefId: data.previousRefId ?? null,
+    hero: data.hero,
+    spec: data.spec,
+    prompt: data.prompt,
+    by: data.by ?? "unknown",
+    reason: data.reason,
+    restoredFrom: data.restoredFrom,
+    at: data.at ?? "",
+  });
+}
+
+/** A log record with a fresh ID, ready to be written in a batch/transaction. */
+function newPromotionRecord(
+  siteId: string,
+  experimentId: string,
+  record: Omit<PromotionRecord, "id" | "experimentId">
+) {
+  const ref = siteCollection(
+    siteId,
+    "experiments",
+    experimentId,
+    "promotions"
+  ).doc();
+  const data: PromotionRecord = clean({ ...record, id: ref.id, experimentId });
+  return { ref, data };
+}
+
+/**
+ * Content that went live before the promotion log existed has no record,
+ * so the first logged promotion would have nothing to roll back to. Returns
+ * a record snapshotting it, dated when it went live (or just before
+ * `before`), unless the log already has one for it. Only reads; the caller
+ * writes it along with the promotion.
+ */
+async function baselineRecord(
+  tx: Transaction,
+  siteId: string,
+  experimentId: string,
+  live: Pick<PromotionRecord, "kind" | "hero" | "spec" | "prompt"> & {
+    refId: string;
+    at?: string;
+  },
+  before: string
+) {
+  const logged = await tx.get(
+    siteCollection(siteId, "experiments", experimentId, "promotions")
+      .where("kind", "==", live.kind)
+      .where("refId", "==", live.refId)
+      .limit(1)
+  );
+  if (!logged.empty) return null;
+
+  return newPromotionRecord(siteId, experimentId, {
+    kind: live.kind,
+    action: "promote",
+    refId: live.refId,
+    previousRefId: null,
+    hero: live.hero,
+    spec: live.spec,
+    prompt: live.prompt,
+    by: "system",
+    reason: "Live before the promotion log; recorded so it can be restored.",
+    at:
+      live.at && live.at < before
+        ? live.at
+        : new Date(Date.parse(before) - 1).toISOString(),
+  });
+}
+
+/**
+ * The doc an experiment currently has live in `collection`, unless it's
+ * `keep` or no longer live. Promotions archive only that one, so live
+ * content of the site's other experiments stays up.
+ */
+async function stillLive(
+  tx: Transaction,
+  siteId: string,
+  collection: "variants" | "landingPages",
+  liveId: string | null,
+  keep: string
+): Promise<DocumentReference | null> {
+  if (!liveId || liveId === keep || isBuiltInArm(liveId)) return null;
+  const ref = siteDoc(siteId, collection, liveId);
+  const snap = await tx.get(ref);
+  return snap.exists && snap.get("status") === "live" ? ref : null;
+}
+
+/** baselineRecord for the experiment's live hero, read from its variant doc. */
+async function liveVariantBaseline(
+  tx: Transaction,
+  siteId: string,
+  experiment: Experiment,
+  before: string
+) {
+  const liveId = experiment.liveVariantId;
+  if (!liveId) return null;
+  const snap = await tx.get(siteDoc(siteId, "variants", liveId));
+  if (!snap.exists) return null;
+
+  const live = variantFromData(liveId, snap.data() ?? {});
+  return baselineRecord(
+    tx,
+    siteId,
+    experiment.id,
+    {
+      kind: "variant",
+      refId: liveId,
+      hero: pickHero(live),
+      prompt: live.prompt,
+      at: live.promotedAt,
+    },
+    before
+  );
+}
+
+/** Newest first, optionally only hero or only landing changes. */
+export async function listPromotions(
+  siteId: string,
+  {
+    experimentId = HOME_EXPERIMENT_ID,
+    kind,
+    max = 50,
+  }: { experimentId?: string; kind?: PromotionKind; max?: number } = {}
+): Promise<PromotionRecord[]> {
+  const log = siteCollection(siteId, "experiments", experimentId, "promotions");
+  // kind + at needs the composite index promotions(kind asc, at desc)
+  const snap = await (kind ? log.where("kind", "==", kind) : log)
+    .orderBy("at", "desc")
+    .limit(max)
+    .get();
+  return snap.docs.map((d) => promotionFromData(d.id, experimentId, d.data()));
+}
+
+export async function getPromotion(
+  siteId: string,
+  promotionId: string,
+  experimentId: string = HOME_EXPERIMENT_ID
+): Promise<PromotionRecord | null> {
+  const snap = await siteDoc(
+    siteId,
+    "experiments",
+    experimentId,
+    "promotions",
+    promotionId
+  ).get();
+  return snap.exists
+    ? promotionFromData(snap.id, experimentId, snap.data() ?? {})
+    : null;
+}
+
+export type RollbackResult =
+  | { ok: true; record: PromotionRecord }
+  | { ok: false; error: string };
+
+/**
+ * Restores the content a log record put live, in one transaction: the
+ * experiment points back at it, the currently live doc is archived, the
+ * restored doc is live again (with the snapshot's content), and a rollback
+ * record is appended. A "clear" record restores "nothing live". Null when
+ * the record doesn't exist.
+ */
+export async function rollbackPromotion(
+  siteId: string,
+  promotionId: string,
+  {
+    experimentId = HOME_EXPERIMENT_ID,
+    by = "system",
+    reason,
+  }: { experimentId?: string; by?: string; reason?: string } = {}
+): Promise<RollbackResult | null> {
+  const experimentRef = siteDoc(siteId, "experiments", experimentId);
+  const recordRef = siteDoc(
+    siteId,
+    "experiments",
+    experimentId,
+    "promotions",
+    promotionId
+  );
+
+  const result = await db.runTransaction(
+    async (tx): Promise<RollbackResult | null> => {
+      const recordSnap = await tx.get(recordRef);
+      const recordData = recordSnap.data();
+      if (!recordData) return null;
+      const target = promotionFromData(recordSnap.id, experimentId, recordData);
+
+      const experimentSnap = await tx.get(experimentRef);
+      const experiment = experimentFromData(
+        siteId,
+        experimentId,
+        experimentSnap.data() ?? {}
+      );
+
+      const collection = target.kind === "variant" ? "variants" : "landingPages";
+      const currentId =
+        target.kind === "variant"
+          ? experiment.liveVariantId
+          : experiment.liveLanding?.slug ?? null;
+
+      if (currentId === target.refId) {
+        return { ok: false, error: "That version is already live" };
+      }
+      if (target.refId && target.kind === "variant" && !target.hero) {
+        return { ok: false, error: "This record has no hero snapshot" };
+      }
+      if (target.refId && target.kind === "landing" && !target.spec) {
+        return { ok: false, error: "This record has no landing snapshot" };
+      }
+
+      // all reads before any writes
+      const currentRef = currentId ? siteDoc(siteId, collection, currentId) : null;
+      const targetRef = target.refId
+        ? siteDoc(siteId, collection, target.refId)
+        : null;
+      const currentSnap = currentRef ? await tx.get(currentRef) : null;
+      const targetSnap = targetRef ? await tx.get(targetRef) : null;
+
+      const at = new Date().toISOString();
+      const note = reason?.trim() || undefined;
+
+      const currentData = currentSnap?.data();
+      if (currentRef && currentData) {
+        const review = reviewFromData(currentData);
+        tx.update(currentRef, {
+          status: "archived",
+          reviews: [
+            ...review.reviews,
+            promotionEntry(review.status, by, at, {
+              action: "rollback",
+              to: "archived",
+              comment: note,
+            }),
+          ],
+        });
+      }
+
+      if (targetRef) {
+        const targetData = targetSnap?.data();
+        const review = targetData
+          ? reviewFromData(targetData)
+          : newReview(by, "approved");
+        const content =
+          target.kind === "variant"
+            ? pickHero(target.hero as HeroContent)
+            : { spec: target.spec };
+        tx.set(
+          targetRef,
+          clean({
+            ...content,
+            status: "live",
+            promotedAt: at,
+            reviews: [
+              ...review.reviews,
+              promotionEntry(review.status, by, at, {
+                action: "rollback",
+                comment: note,
+              }),
+            ],
+          }),
+          { merge: true }
+        );
+      }
+
+      tx.set(
+        experimentRef,
+        target.kind === "variant"
+          ? { liveVariantId: target.refId, updatedAt: at }
+          : {
+              liveLanding: target.refId
+                ? clean({
+                    slug: target.refId,
+                    spec: target.spec,
+                    prompt: target.prompt,
+                    promotedAt: at,
+                  })
+                : null,
+              updatedAt: at,
+            },
+        { merge: true }
+      );
+
+      const log = newPromotionRecord(siteId, experimentId, {
+        kind: target.kind,
+        action: "rollback",
+        refId: target.refId,
+        previousRefId: currentId,
+        hero: target.hero,
+        spec: target.spec,
+        prompt: target.prompt,
+        by,
+        reason: note,
+        restoredFrom: target.id,
+        at,
+      });
+      tx.set(log.ref, log.data);
+
+      return { ok: true, record: log.data };
+    }
+  );
+
+  if (result?.ok) invalidateLiveContent(siteId);
+  return result;
+}
+
+/* ---------- resolver ---------- */
+
+export type ResolvedContent = {
+  experimentId: string;
+  /** The arm the visitor is bucketed into; attach to analytics events. */
+  variantId: string;
+  /** Hero copy override, or null for the landing/default copy. */
+  hero: HeroContent | null;
+  landing: LiveLanding | null;
+};
+
+// Read on every page view; invalidated by the writes above.
+const getCachedExperiment = cacheLiveContent("experiment", getExperiment);
+const getCachedVariant = cacheLiveContent("variant", getVariant);
+
+/**
+ * "What should this visitor see?" — the single answer every page and route
+ * uses. Challenger arms render their own variant; built-in arms render the
+ * live variant if one is promoted. The live landing build, if any, supplies
+ * the rest of the page. Config and copy come from the live-content cache;
+ * only sticky assignments are read fresh.
+ */
+export async function resolveVisitorContent(
+  siteId: string,
+  visitorId: string,
+  experimentId: string = HOME_EXPERIMENT_ID
+): Promise<ResolvedContent> {
+  const experiment = await getCachedExperiment(siteId, experimentId);
+  const variantId = await assignVisitor(visitorId, experiment);
+  return contentForArm(siteId, experiment, variantId);
+}
+
+/**
+ * What a visitor in arm `variantId` sees, without assigning anyone —
+ * for previews (e.g. behind the dashboard heatmap).
+ */
+export async function previewArmContent(
+  siteId: string,
+  variantId: string,
+  experimentId: string = HOME_EXPERIMENT_ID
+): Promise<ResolvedContent> {
+  const experiment = await getCachedExperiment(siteId, experimentId);
+  return contentForArm(siteId, experiment, variantId);
+}
+
+async function contentForArm(
+  siteId: string,
+  experiment: Experiment,
+  variantId: string
+): Promise<ResolvedContent> {
+  const assigned = await getCachedVariant(siteId, variantId);
+  const live =
+    !assigned && experiment.liveVariantId
+      ? await getCachedVariant(siteId, experiment.liveVariantId)
+      : null;
+  const variant = assigned ?? live;
+
+  return {
+    experimentId: experiment.id,
+    variantId,
+    hero: variant ? pickHero(variant) : null,
+    landing: experiment.liveLanding,
+  };
+}
@@ -1,14 +1,36 @@
-import { initializeApp, getApps, getApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
+// lib/firebase.ts
+// Server-side Firestore through firebase-admin. The service account comes
+// from non-public env vars (FIREBASE_PROJECT_ID, FIREBASE_CLIENT_EMAIL,
+// FIREBASE_PRIVATE_KEY), or from the platform's default credentials when
+// they aren't set. Browsers never talk to Firestore: firestore.rules denies
+// every client read and write, and pages go through the API routes.
+import {
+  applicationDefault,
+  cert,
+  getApp,
+  getApps,
+  initializeApp,
+} from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
 
-const firebaseConfig = {
-  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
-  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
-  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
-  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
-  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID!,
-  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID!
-};
+function credential() {
+  const projectId = process.env.FIREBASE_PROJECT_ID;
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY;
+  if (!projectId || !clientEmail || !privateKey) return applicationDefault();
 
-const app = !getApps().length ? initializeApp(firebaseConfig) : getApp();
+  // env vars can't hold newlines on every platform
+  return cert({
+    projectId,
+    clientEmail,
+    privateKey: privateKey.replace(/\\n/g, "\n"),
+  });
+}
+
+const app = !getApps().length
+  ? initializeApp({
+      credential: credential(),
+      projectId: process.env.FIREBASE_PROJECT_ID,
+    })
+  : getApp();
 export const db = getFirestore(app);
@@ -0,0 +1,41 @@
+// lib/goals.ts
+// Declarative conversion goals. The analytics hook matches DOM activity
+// against these and emits `goal` events; aggregation counts a session as
+// converted once it has a goal event for the goal being scored.
+
+export type GoalTrigger =
+  | { type: "click"; selector: string }
+  | { type: "submit"; selector: string }
+  // fired manually through `track("goal", { goalId })`
+  | { type: "custom" };
+
+export type GoalDefinition = {
+  id: string;
+  label: string;
+  trigger: GoalTrigger;
+};
+
+export const GOALS: GoalDefinition[] = [
+  {
+    id: "primary_cta",
+    label: "Primary CTA click",
+    trigger: { type: "click", selector: '[data-goal="primary_cta"]' },
+  },
+  {
+    id: "dashboard_visit",
+    label: "Dashboard visit",
+    trigger: { type: "click", selector: 'a[href="/dashboard"]' },
+  },
+  {
+    id: "form_submit",
+    label: "Form submit",
+    trigger: { type: "submit", selector: "form" },
+  },
+];
+
+/** The goal agents and the dashboard score variants on by default. */
+export const PRIMARY_GOAL_ID = "primary_cta";
+
+export function getGoal(goalId: string): GoalDefinition | undefined {
+  return GOALS.find((g) => g.id === goalId);
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeGuardrailMetrics,
+  DEFAULT_GUARDRAIL_SETTINGS,
+  findRegressions,
+  type GuardrailMetrics,
+} from "@/lib/guardrails";
+
+const { thresholds } = DEFAULT_GUARDRAIL_SETTINGS;
+
+const metrics = (overrides: Partial<GuardrailMetrics>): GuardrailMetrics => ({
+  sessions: 2000,
+  conversionRate: 0.1,
+  bounceRate: 0.4,
+  scrollDepth: 60,
+  ...overrides,
+});
+
+describe("findRegressions", () => {
+  it("reports nothing when every metric holds", () => {
+    expect(findRegressions(metrics({}), metrics({}), thresholds)).toEqual([]);
+  });
+
+  it("flags a conversion drop past the threshold", () => {
+    const regressions = findRegressions(
+      metrics({ conversionRate: 0.1 }),
+      metrics({ conversionRate: 0.07 }),
+      thresholds
+    );
+    expect(regressions).toHaveLength(1);
+    expect(regressions[0]).toMatchObject({
+      metric: "conversionRate",
+      baseline: 0.1,
+      current: 0.07,
+      threshold: thresholds.conversionRate,
+    });
+    expect(regressions[0].change).toBeCloseTo(-0.3);
+  });
+
+  it("treats a rise in bounce rate as the bad direction", () => {
+    const up = findRegressions(
+      metrics({ bounceRate: 0.4 }),
+      metrics({ bounceRate: 0.6 }),
+      thresholds
+    );
+    const down = findRegressions(
+      metrics({ bounceRate: 0.4 }),
+      metrics({ bounceRate: 0.2 }),
+      thresholds
+    );
+    expect(up.map((r) => r.metric)).toEqual(["bounceRate"]);
+    expect(down).toEqual([]);
+  });
+
+  it("tolerates changes within the threshold", () => {
+    expect(
+      findRegressions(
+        metrics({ scrollDepth: 60 }),
+        metrics({ scrollDepth: 50 }),
+        thresholds
+      )
+    ).toEqual([]);
+  });
+
+  it("ignores a swing that isn't significant on a small sample", () => {
+    expect(
+      findRegressions(
+        metrics({ sessions: 100, conversionRate: 0.05 }),
+        metrics({ sessions: 100, conversionRate: 0.03 }),
+        thresholds
+      )
+    ).toEqual([]);
+  });
+
+  it("skips metrics with a zero or missing baseline", () => {
+    expect(
+      findRegressions(
+        metrics({ conversionRate: 0, scrollDepth: null }),
+        metrics({ conversionRate: 0, scrollDepth: 10 }),
+        thresholds
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("computeGuardrailMetrics", () => {
+  it("summarises sessions", () => {
+    const result = computeGuardrailMetrics(
+      [
+        { engaged: true, maxScroll: 80, goals: ["primary_cta"] },
+        { engaged: false, maxScroll: null, goals: [] },
+      ],
+      "primary_cta"
+    );
+    expect(result).toEqual({
+      sessions: 2,
+      conversionRate: 0.5,
+      bounceRate: 0.5,
+      scrollDepth: 40,
+    });
+  });
+
+  it("has no rates without sessions", () => {
+    expect(computeGuardrailMetrics([])).toEqual({
+      sessions: 0,
+      conversionRate: null,
+      bounceRate: null,
+      scrollDepth: null,
+    });
+  });
+});
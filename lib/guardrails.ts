@@ -0,0 +1,439 @@
+// lib/guardrails.ts
+// Post-promotion guardrails. After a variant or landing build is promoted
+// (by hand, by auto mode or by the scheduler) its engagement is compared
+// against the same length of time before the promotion, over the sessions
+// started in each window (lib/rollups.ts). If a guardrail metric regresses
+// past its threshold (and, for the rates, significantly; see
+// findRegressions), the previous version is restored through
+// rollbackPromotion and an alert is raised.
+//
+//   settings/guardrails            thresholds and observation window
+//   guardrailChecks/{promotionId}  latest verdict per watched promotion
+//
+// Only promotions that are still live are watched; rollbacks and clears
+// aren't, so a rollback can't trigger another one.
+import type { SessionStats } from "@/lib/aggregate";
+import { raiseAlert, type Alert } from "@/lib/alerts";
+import {
+  clearLiveVariant,
+  listExperiments,
+  listPromotions,
+  rollbackPromotion,
+  type PromotionKind,
+  type PromotionRecord,
+} from "@/lib/experiments";
+import { PRIMARY_GOAL_ID } from "@/lib/goals";
+import { loadAllSessionRollups } from "@/lib/rollups";
+import { siteCollection, siteDoc } from "@/lib/sites";
+import { twoProportionPValue } from "@/lib/stats";
+
+export type GuardrailMetric = "conversionRate" | "bounceRate" | "scrollDepth";
+
+export const GUARDRAIL_METRICS: GuardrailMetric[] = [
+  "conversionRate",
+  "bounceRate",
+  "scrollDepth",
+];
+
+export type GuardrailSettings = {
+  enabled: boolean;
+  /** Hours watched after a promotion, compared with the hours before it. */
+  windowHours: number;
+  /** Sessions each side needs before a verdict. */
+  minSessions: number;
+  /**
+   * Largest tolerated relative change in the bad direction, 0–1: a drop for
+   * conversion rate and scroll depth, a rise for bounce rate.
+   */
+  thresholds: Record<GuardrailMetric, number>;
+};
+
+export const DEFAULT_GUARDRAIL_SETTINGS: GuardrailSettings = {
+  enabled: true,
+  windowHours: 24,
+  minSessions: 100,
+  thresholds: {
+    conversionRate: 0.2,
+    bounceRate: 0.25,
+    scrollDepth: 0.2,
+  },
+};
+
+export type GuardrailMetrics = {
+  sessions: number;
+  conversionRate: number | null;
+  /** Share of sessions that never engaged (see SessionStats.engaged). */
+  bounceRate: number | null;
+  /** Mean of each session's deepest scroll, 0–100. */
+  scrollDepth: number | null;
+};
+
+export type GuardrailRegression = {
+  metric: GuardrailMetric;
+  baseline: number;
+  current: number;
+  /** Relative change, signed: -0.3 is a 30% drop. */
+  change: number;
+  threshold: number;
+};
+
+export type GuardrailCheckStatus =
+  | "watching"
+  | "passed"
+  | "rolled_back"
+  | "regressed";
+
+export type GuardrailCheck = {
+  promotionId: string;
+  experimentId: string;
+  kind: PromotionKind;
+  refId: string | null;
+  status: GuardrailCheckStatus;
+  detail: string;
+  baseline: GuardrailMetrics;
+  current: GuardrailMetrics;
+  regressions: GuardrailRegression[];
+  /** Version put back live, when rolled back. */
+  restoredRefId?: string | null;
+  checkedAt: string;
+};
+
+const settingsRef = (siteId: string) =>
+  siteDoc(siteId, "settings", "guardrails");
+
+/** Recorded as the actor on guardrail rollbacks. */
+const GUARDRAIL_ACTOR = "guardrails";
+
+const HOUR_MS = 3_600_000;
+
+/** Significance a rate metric's change needs before it counts as a regression. */
+const GUARDRAIL_ALPHA = 0.05;
+
+/* ---------- settings ---------- */
+
+export function parseGuardrailSettings(input: unknown): GuardrailSettings {
+  const raw = (input ?? {}) as Partial<Record<keyof GuardrailSettings, unknown>>;
+  const thresholds = (raw.thresholds ?? {}) as Partial<
+    Record<GuardrailMetric, unknown>
+  >;
+  const pick = (value: unknown, fallback: number, min: number, max: number) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n >= min && n <= max ? n : fallback;
+  };
+  const defaults = DEFAULT_GUARDRAIL_SETTINGS;
+
+  return {
+    enabled:
+      typeof raw.enabled === "boolean" ? raw.enabled : defaults.enabled,
+    windowHours: pick(raw.windowHours, defaults.windowHours, 1, 24 * 14),
+    minSessions: pick(raw.minSessions, defaults.minSessions, 1, 1_000_000),
+    thresholds: {
+      conversionRate: pick(
+        thresholds.conversionRate,
+        defaults.thresholds.conversionRate,
+        0.01,
+        1
+      ),
+      bounceRate: pick(
+        thresholds.bounceRate,
+        defaults.thresholds.bounceRate,
+        0.01,
+        1
+      ),
+      scrollDepth: pick(
+        thresholds.scrollDepth,
+        defaults.thresholds.scrollDepth,
+        0.01,
+        1
+      ),
+    },
+  };
+}
+
+export async function loadGuardrailSettings(
+  siteId: string
+): Promise<GuardrailSettings> {
+  const snap = await settingsRef(siteId).get();
+  return parseGuardrailSettings(snap.data() ?? {});
+}
+
+export async function saveGuardrailSettings(
+  siteId: string,
+  settings: GuardrailSettings
+) {
+  await settingsRef(siteId).set(settings);
+}
+
+/* ---------- metrics ---------- */
+
+/** Guardrail metrics over a set of sessions (e.g. the session rollups). */
+export function computeGuardrailMetrics(
+  sessions: Pick<SessionStats, "engaged" | "maxScroll" | "goals">[],
+  goalId: string = PRIMARY_GOAL_ID
+): GuardrailMetrics {
+  const n = sessions.length;
+  const share = (count: number) => (n > 0 ? count / n : null);
+
+  return {
+    sessions: n,
+    conversionRate: share(
+      sessions.filter((s) => s.goals.includes(goalId)).length
+    ),
+    bounceRate: share(sessions.filter((s) => !s.engaged).length),
+    scrollDepth:
+      n > 0
+        ? sessions.reduce((sum, s) => sum + (s.maxScroll ?? 0), 0) / n
+        : null,
+  };
+}
+
+/**
+ * Metrics that moved the wrong way by more than their threshold. Conversion
+ * and bounce rate must also differ significantly between the two windows
+ * (two-proportion z-test), so a swing of a few sessions on a small sample
+ * isn't mistaken for a regression. Scroll depth is a mean without a stored
+ * spread, so it's judged on its threshold alone. A metric with a zero or
+ * missing baseline has nothing to regress from and is skipped.
+ */
+export function findRegressions(
+  baseline: GuardrailMetrics,
+  current: GuardrailMetrics,
+  thresholds: GuardrailSettings["thresholds"]
+): GuardrailRegression[] {
+  const regressions: GuardrailRegression[] = [];
+
+  for (const metric of GUARDRAIL_METRICS) {
+    const before = baseline[metric];
+    const after = current[metric];
+    if (before === null || after === null || before === 0) continue;
+
+    const change = (after - before) / before;
+    const worse = metric === "bounceRate" ? change : -change;
+    if (worse <= thresholds[metric]) continue;
+    if (metric !== "scrollDepth") {
+      const p = twoProportionPValue(
+        Math.round(before * baseline.sessions),
+        baseline.sessions,
+        Math.round(after * current.sessions),
+        current.sessions
+      );
+      if (p === null || p >= GUARDRAIL_ALPHA) continue;
+    }
+
+    regressions.push({
+      metric,
+      baseline: before,
+      current: after,
+      change,
+      threshold: thresholds[metric],
+    });
+  }
+
+  return regressions;
+}
+
+function describeRegression(r: GuardrailRegression): string {
+  const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+  const value = (x: number) =>
+    r.metric === "scrollDepth" ? `${x.toFixed(0)}%` : pct(x);
+  return `${r.metric} ${value(r.baseline)} → ${value(r.current)} (${
+    r.change > 0 ? "+" : ""
+  }${pct(r.change)}, limit ${pct(r.threshold)})`;
+}
+
+/* ---------- checks ---------- */
+
+export async function listGuardrailChecks(
+  siteId: string,
+  max = 10
+): Promise<GuardrailCheck[]> {
+  const snap = await siteCollection(siteId, "guardrailChecks")
+    .orderBy("checkedAt", "desc")
+    .limit(max)
+    .get();
+  return snap.docs.map((d) => d.data() as GuardrailCheck);
+}
+
+async function saveCheck(siteId: string, check: GuardrailCheck) {
+  // Firestore rejects undefined
+  const data = Object.fromEntries(
+    Object.entries(check).filter(([, v]) => v !== undefined)
+  );
+  await siteDoc(siteId, "guardrailChecks", check.promotionId).set(data);
+}
+
+/**
+ * Puts back whatever was live before `current`, from the newest earlier
+ * promotion of it. Rollback and clear records are skipped: they aren't
+ * what `current` replaced. Returns the ref now live (null for the default
+ * copy), or undefined if nothing could be restored.
+ */
+async function restorePrevious(
+  siteId: string,
+  current: PromotionRecord,
+  history: PromotionRecord[],
+  reason: string
+): Promise<string | null | undefined> {
+  const previous = current.previousRefId
+    ? history.find(
+        (r) =>
+          r.kind === current.kind &&
+          r.action === "promote" &&
+          r.refId === current.previousRefId &&
+          r.at < current.at
+      )
+    : undefined;
+
+  if (previous) {
+    const result = await rollbackPromotion(siteId, previous.id, {
+      experimentId: current.experimentId,
+      by: GUARDRAIL_ACTOR,
+      reason,
+    });
+    return result?.ok ? result.record.refId : undefined;
+  }
+
+  // no hero was live before it: fall back to the default copy
+  if (current.kind === "variant" && current.previousRefId === null) {
+    await clearLiveVariant(siteId, {
+      experimentId: current.experimentId,
+      by: GUARDRAIL_ACTOR,
+    });
+    return null;
+  }
+  return undefined;
+}
+
+async function watchPromotion(
+  siteId: string,
+  settings: GuardrailSettings,
+  current: PromotionRecord,
+  history: PromotionRecord[],
+  now: Date
+): Promise<GuardrailCheck | null> {
+  const existing = await siteDoc(siteId, "guardrailChecks", current.id).get();
+  if (existing.exists && existing.get("status") !== "watching") return null;
+
+  const promotedAt = Date.parse(current.at);
+  const windowMs = settings.windowHours * HOUR_MS;
+  const windowOver = now.getTime() >= promotedAt + windowMs;
+  const iso = (ms: number) => new Date(ms).toISOString();
+
+  // sessions started in the window, not capped: the verdict needs them all
+  const [before, after] = await Promise.all([
+    loadAllSessionRollups(siteId, {
+      since: iso(promotedAt - windowMs),
+      until: current.at,
+    }),
+    loadAllSessionRollups(siteId, {
+      since: current.at,
+      until: iso(Math.min(now.getTime(), promotedAt + windowMs)),
+    }),
+  ]);
+  const baseline = computeGuardrailMetrics(before);
+  const metrics = computeGuardrailMetrics(after);
+
+  const check: GuardrailCheck = {
+    promotionId: current.id,
+    experimentId: current.experimentId,
+    kind: current.kind,
+    refId: current.refId,
+    status: "watching",
+    detail: "",
+    baseline,
+    current: metrics,
+    regressions: [],
+    checkedAt: now.toISOString(),
+  };
+
+  if (
+    baseline.sessions < settings.minSessions ||
+    metrics.sessions < settings.minSessions
+  ) {
+    const counts = `${baseline.sessions} sessions before, ${metrics.sessions} after; need ${settings.minSessions} each`;
+    check.status = windowOver ? "passed" : "watching";
+    check.detail = windowOver
+      ? `Window ended without enough traffic to judge (${counts}).`
+      : `Not enough traffic to judge yet (${counts}).`;
+    await saveCheck(siteId, check);
+    return check;
+  }
+
+  const regressions = findRegressions(baseline, metrics, settings.thresholds);
+  if (regressions.length === 0) {
+    check.status = windowOver ? "passed" : "watching";
+    check.detail = windowOver
+      ? `No regressions over ${settings.windowHours}h.`
+      : "No regressions so far.";
+    await saveCheck(siteId, check);
+    return check;
+  }
+
+  const summary = regressions.map(describeRegression).join("; ");
+  const restoredRefId = await restorePrevious(
+    siteId,
+    current,
+    history,
+    `Guardrail regression: ${summary}`
+  );
+  const rolledBack = restoredRefId !== undefined;
+
+  check.regressions = regressions;
+  check.status = rolledBack ? "rolled_back" : "regressed";
+  check.restoredRefId = restoredRefId;
+  check.detail = rolledBack
+    ? `Rolled back to ${restoredRefId ?? "the default copy"}: ${summary}`
+    : `Regressed with no earlier version to restore: ${summary}`;
+  await saveCheck(siteId, check);
+
+  const alert: Pick<Alert, "source" | "severity" | "message" | "details"> = {
+    source: "guardrail",
+    severity: "critical",
+    message: rolledBack
+      ? `${current.kind} ${current.refId} was rolled back automatically. ${summary}`
+      : `${current.kind} ${current.refId} regressed and could not be rolled back. ${summary}`,
+    details: {
+      promotionId: current.id,
+      experimentId: current.experimentId,
+      kind: current.kind,
+      refId: current.refId,
+      restoredRefId: restoredRefId ?? null,
+      regressions,
+    },
+  };
+  await raiseAlert(siteId, alert);
+
+  return check;
+}
+
+/** One guardrail pass over the site's live promotions. Safe on any schedule. */
+export async function runGuardrails(
+  siteId: string,
+  now: Date = new Date()
+): Promise<GuardrailCheck[]> {
+  const settings = await loadGuardrailSettings(siteId);
+  if (!settings.enabled) return [];
+
+  const checks: GuardrailCheck[] = [];
+  for (const experiment of await listExperiments(siteId)) {
+    const history = await listPromotions(siteId, {
+      experimentId: experiment.id,
+    });
+
+    for (const kind of ["variant", "landing"] as const) {
+      // newest record of the kind is what's live now
+      const current = history.find((r) => r.kind === kind);
+      if (!current || current.action !== "promote") continue;
+
+      const check = await watchPromotion(
+        siteId,
+        settings,
+        current,
+        history,
+        now
+      );
+      if (check) checks.push(check);
+    }
+  }
+  return checks;
+}
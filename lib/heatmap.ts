@@ -0,0 +1,295 @@
+// lib/heatmap.ts
+// Click heatmaps: what a click event records (hooks/useAnalytics.ts calls
+// describeClick; lib/embed.ts mirrors it in plain JS) and how the dashboard
+// bins clicks per page, variant and device. Firestore-free so the client
+// bundle can import it.
+import type { AnalyticsEvent } from "@/lib/events";
+
+export type DeviceClass = "mobile" | "tablet" | "desktop";
+
+export const DEVICE_CLASSES: DeviceClass[] = ["mobile", "tablet", "desktop"];
+
+/** Viewport widths where tablet and desktop start (Tailwind's md and lg). */
+export const DEVICE_BREAKPOINTS = { tablet: 768, desktop: 1024 };
+
+export function deviceClass(viewportWidth: number): DeviceClass {
+  if (viewportWidth < DEVICE_BREAKPOINTS.tablet) return "mobile";
+  if (viewportWidth < DEVICE_BREAKPOINTS.desktop) return "tablet";
+  return "desktop";
+}
+
+export function isDeviceClass(value: unknown): value is DeviceClass {
+  return DEVICE_CLASSES.includes(value as DeviceClass);
+}
+
+/** Payload of a "click" event. Positions are fractions (0–1), not pixels. */
+export type ClickPayload = {
+  path: string;
+  /** CSS path from the nearest stable anchor (id, data-cmx or <body>). */
+  selector: string;
+  tag: string;
+  text?: string;
+  /** Position within the visible viewport. */
+  viewX: number;
+  viewY: number;
+  /** Position within the whole scrollable document. */
+  docX: number;
+  docY: number;
+  viewportWidth: number;
+  viewportHeight: number;
+  docWidth: number;
+  docHeight: number;
+  device: DeviceClass;
+};
+
+// Clicks on an icon or a span inside a button count for the button.
+export const INTERACTIVE_SELECTOR =
+  "a, button, input, select, textarea, label, summary, [role='button']";
+export const MAX_SELECTOR_DEPTH = 8;
+// generated ids (React's useId, …) change between builds
+export const STABLE_ID = /^[A-Za-z][\w-]*$/;
+
+/**
+ * A selector that finds the same element again on another screen size:
+ * tag names with :nth-of-type where siblings share a tag, anchored at the
+ * closest element with a stable id or a data-cmx slot. Classes are skipped;
+ * utility classes change with every restyle.
+ */
+export function elementSelector(el: Element): string {
+  const parts: string[] = [];
+  let node: Element | null = el;
+
+  while (
+    node &&
+    node.tagName !== "BODY" &&
+    node.tagName !== "HTML" &&
+    parts.length < MAX_SELECTOR_DEPTH
+  ) {
+    if (node.id && STABLE_ID.test(node.id)) {
+      parts.unshift(`#${node.id}`);
+      break;
+    }
+    const slot = node.getAttribute("data-cmx");
+    if (slot) {
+      parts.unshift(`[data-cmx="${slot}"]`);
+      break;
+    }
+
+    const current: Element = node;
+    const tag = current.tagName.toLowerCase();
+    const sameTag = current.parentElement
+      ? Array.from(current.parentElement.children).filter(
+          (sibling) => sibling.tagName === current.tagName
+        )
+      : [];
+    parts.unshift(
+      sameTag.length > 1
+        ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})`
+        : tag
+    );
+    node = current.parentElement;
+  }
+
+  return parts.join(" > ");
+}
+
+// clamped to 0–1, four decimals is well below a pixel on any screen
+function fraction(value: number, total: number): number {
+  if (total <= 0) return 0;
+  return Math.round(Math.min(1, Math.max(0, value / total)) * 1e4) / 1e4;
+}
+
+/** Browser only: the payload for a click event, or null off-element. */
+export function describeClick(e: MouseEvent): ClickPayload | null {
+  if (!(e.target instanceof Element)) return null;
+  const el = e.target.closest(INTERACTIVE_SELECTOR) ?? e.target;
+
+  const root = document.documentElement;
+  const viewportWidth = root.clientWidth || window.innerWidth;
+  const viewportHeight = root.clientHeight || window.innerHeight;
+  const docWidth = Math.max(root.scrollWidth, viewportWidth);
+  const docHeight = Math.max(root.scrollHeight, viewportHeight);
+  const text = (el as HTMLElement).innerText?.trim().slice(0, 80);
+
+  const payload: ClickPayload = {
+    path: window.location.pathname,
+    selector: elementSelector(el),
+    tag: el.tagName,
+    viewX: fraction(e.clientX, viewportWidth),
+    viewY: fraction(e.clientY, viewportHeight),
+    docX: fraction(e.pageX, docWidth),
+    docY: fraction(e.pageY, docHeight),
+    viewportWidth,
+    viewportHeight,
+    docWidth,
+    docHeight,
+    device: deviceClass(viewportWidth),
+  };
+  if (text) payload.text = text;
+  return payload;
+}
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === "number" && value >= 0 && value <= 1;
+
+/**
+ * The click payload of a stored event, or null for other events and for
+ * clicks recorded before positions were normalised (raw clientX/clientY).
+ */
+export function readClick(
+  e: Pick<AnalyticsEvent, "eventType" | "payload">
+): ClickPayload | null {
+  if (e.eventType !== "click") return null;
+  const p = e.payload;
+  if (
+    typeof p.path !== "string" ||
+    typeof p.selector !== "string" ||
+    !isFraction(p.docX) ||
+    !isFraction(p.docY) ||
+    typeof p.docWidth !== "number" ||
+    typeof p.docHeight !== "number"
+  ) {
+    return null;
+  }
+  return {
+    ...(p as ClickPayload),
+    device: isDeviceClass(p.device)
+      ? p.device
+      : deviceClass(Number(p.viewportWidth) || 0),
+  };
+}
+
+/* ---------- aggregation ---------- */
+
+/** Grid the document is binned into; rows are finer since pages are tall. */
+export const HEATMAP_COLUMNS = 40;
+export const HEATMAP_ROWS = 160;
+const MAX_TARGETS = 20;
+
+export type HeatmapCell = { col: number; row: number; clicks: number };
+
+export type HeatmapTarget = {
+  selector: string;
+  tag: string;
+  text?: string;
+  clicks: number;
+};
+
+export type HeatmapFilter = {
+  path: string;
+  variantId?: string;
+  device?: DeviceClass;
+};
+
+export type Heatmap = {
+  path: string;
+  variantId: string | null;
+  device: DeviceClass | null;
+  clicks: number;
+  columns: number;
+  rows: number;
+  /** Non-empty cells only. */
+  cells: HeatmapCell[];
+  /** Most-clicked elements, most clicks first. */
+  targets: HeatmapTarget[];
+  /** Median document size of the matching clicks, to size the preview. */
+  docWidth: number | null;
+  docHeight: number | null;
+  /** Clicks on this page per variant and per device, before those filters. */
+  variants: { variantId: string; clicks: number }[];
+  devices: Record<DeviceClass, number>;
+};
+
+/** Pages with normalised clicks, most clicked first. */
+export function clickedPages(
+  events: Pick<AnalyticsEvent, "eventType" | "payload">[]
+): { path: string; clicks: number }[] {
+  const counts = new Map<string, number>();
+  for (const e of events) {
+    const click = readClick(e);
+    if (click) counts.set(click.path, (counts.get(click.path) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([path, clicks]) => ({ path, clicks }))
+    .sort((a, b) => b.clicks - a.clicks);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+export function computeHeatmap(
+  events: Pick<AnalyticsEvent, "eventType" | "payload" | "variantId">[],
+  filter: HeatmapFilter
+): Heatmap {
+  const cells = new Map<string, HeatmapCell>();
+  const targets = new Map<string, HeatmapTarget>();
+  const variants = new Map<string, number>();
+  const devices: Record<DeviceClass, number> = {
+    mobile: 0,
+    tablet: 0,
+    desktop: 0,
+  };
+  const widths: number[] = [];
+  const heights: number[] = [];
+  let clicks = 0;
+
+  for (const e of events) {
+    const click = readClick(e);
+    if (!click || click.path !== filter.path) continue;
+
+    const variantId = e.variantId || "unknown";
+    variants.set(variantId, (variants.get(variantId) ?? 0) + 1);
+    devices[click.device] += 1;
+
+    if (filter.variantId && variantId !== filter.variantId) continue;
+    if (filter.device && click.device !== filter.device) continue;
+
+    clicks += 1;
+    widths.push(click.docWidth);
+    heights.push(click.docHeight);
+
+    const col = Math.min(
+      HEATMAP_COLUMNS - 1,
+      Math.floor(click.docX * HEATMAP_COLUMNS)
+    );
+    const row = Math.min(
+      HEATMAP_ROWS - 1,
+      Math.floor(click.docY * HEATMAP_ROWS)
+    );
+    const key = `${col}:${row}`;
+    const cell = cells.get(key) ?? { col, row, clicks: 0 };
+    cell.clicks += 1;
+    cells.set(key, cell);
+
+    const target = targets.get(click.selector) ?? {
+      selector: click.selector,
+      tag: click.tag,
+      text: click.text,
+      clicks: 0,
+    };
+    target.clicks += 1;
+    targets.set(click.selector, target);
+  }
+
+  return {
+    path: filter.path,
+    variantId: filter.variantId ?? null,
+    device: filter.device ?? null,
+    clicks,
+    columns: HEATMAP_COLUMNS,
+    rows: HEATMAP_ROWS,
+    cells: [...cells.values()],
+    targets: [...targets.values()]
+      .sort((a, b) => b.clicks - a.clicks)
+      .slice(0, MAX_TARGETS),
+    docWidth: median(widths),
+    docHeight: median(heights),
+    variants: [...variants]
+      .map(([variantId, count]) => ({ variantId, clicks: count }))
+      .sort((a, b) => b.clicks - a.clicks),
+    devices,
+  };
+}
@@ -0,0 +1,105 @@
+// lib/identity.ts
+// Client-side anonymous identity. Only call from the browser (the constants
+// are shared with the proxy and server-rendered pages).
+
+export const VISITOR_KEY = "cmx_visitor_id";
+export const SESSION_KEY = "cmx_session";
+
+/**
+ * Set by proxy.ts when a page request has no valid one, so the server can
+ * assign a variant before the browser runs any script. Readable from JS on
+ * purpose: getVisitorId adopts it and keeps it in step with storage.
+ */
+export const VISITOR_COOKIE = "cmx_vid";
+export const VISITOR_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/** A session ends after this long without any tracked activity. */
+export const SESSION_TIMEOUT_MS = 30 * 60 * 1000;
+
+type StoredSession = {
+  id: string;
+  startedAt: number;
+  lastActivity: number;
+};
+
+function randomId(prefix: string) {
+  return (
+    crypto.randomUUID?.() ??
+    `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2)}`
+  );
+}
+
+// localStorage can throw (Safari private mode, disabled storage), in which
+// case identity simply lives for the lifetime of the page.
+const memoryStore: Record<string, string> = {};
+
+function read(key: string): string | null {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return memoryStore[key] ?? null;
+  }
+}
+
+function write(key: string, value: string) {
+  try {
+    window.localStorage.setItem(key, value);
+  } catch {
+    memoryStore[key] = value;
+  }
+}
+
+function readCookie(name: string): string | null {
+  const prefix = `${name}=`;
+  const match = document.cookie
+    .split("; ")
+    .find((part) => part.startsWith(prefix));
+  return match ? decodeURIComponent(match.slice(prefix.length)) : null;
+}
+
+/**
+ * Stable anonymous ID for this browser. A stored ID wins, so a returning
+ * visitor keeps theirs, and is written back to the cookie for the next
+ * server render; with nothing stored yet the server-issued cookie is
+ * adopted, so events carry the ID the first render was assigned for.
+ */
+export function getVisitorId(): string {
+  let id = read(VISITOR_KEY) ?? readCookie(VISITOR_COOKIE);
+  if (!id) id = randomId("vis");
+  write(VISITOR_KEY, id);
+  document.cookie = `${VISITOR_COOKIE}=${encodeURIComponent(id)}; path=/; max-age=${VISITOR_COOKIE_MAX_AGE}; samesite=lax`;
+  return id;
+}
+
+function readSession(): StoredSession | null {
+  const raw = read(SESSION_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as StoredSession;
+    return typeof parsed.id === "string" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the current session ID and marks the session as active. A new
+ * session is started when there is none yet or the last activity is older
+ * than SESSION_TIMEOUT_MS.
+ */
+export function touchSession(now: number = Date.now()): string {
+  const existing = readSession();
+
+  const session: StoredSession =
+    existing && now - existing.lastActivity < SESSION_TIMEOUT_MS
+      ? { ...existing, lastActivity: now }
+      : { id: randomId("sess"), startedAt: now, lastActivity: now };
+
+  write(SESSION_KEY, JSON.stringify(session));
+  return session.id;
+}
+
+/** Fresh ID for one pageview, tying its exit report to its pageview. */
+export function newPageviewId(): string {
+  return randomId("pv");
+}
@@ -0,0 +1,32 @@
+// lib/live-cache.ts
+// Server data cache for what visitors are shown (experiment config and
+// variant copy), so server-rendered pages and the content APIs don't read
+// Firestore on every request. Entries are tagged per site; every write that
+// changes the live page calls invalidateLiveContent.
+import { revalidateTag, unstable_cache } from "next/cache";
+
+/** Upper bound on staleness should an invalidation ever be missed. */
+const LIVE_CONTENT_TTL_SECONDS = 300;
+
+const liveContentTag = (siteId: string) => `live-content:${siteId}`;
+
+/** Wraps a `(siteId, id)` reader in the site's live-content cache. */
+export function cacheLiveContent<T>(
+  name: string,
+  read: (siteId: string, id: string) => Promise<T>
+): (siteId: string, id: string) => Promise<T> {
+  return (siteId, id) =>
+    unstable_cache(() => read(siteId, id), [name, siteId, id], {
+      tags: [liveContentTag(siteId)],
+      revalidate: LIVE_CONTENT_TTL_SECONDS,
+    })();
+}
+
+export function invalidateLiveContent(siteId: string) {
+  try {
+    revalidateTag(liveContentTag(siteId), { expire: 0 });
+  } catch (e) {
+    // outside a Next.js request (one-off scripts) there is no cache to clear
+    console.warn("live content invalidation skipped:", (e as Error).message);
+  }
+}
@@ -0,0 +1,203 @@
+// lib/migrate.ts
+// One-off move from the three old live-content mechanisms onto
+// experiments/{id}:
+//
+//   variantAllocations/{id} (+ history, assignments)  → experiments/{id}
+//   settings/liveVariant                              → variants/{id} + liveVariantId
+//   variants where status == "live"                   → liveVariantId (first one wins)
+//   settings/landingPage                              → liveLanding
+//
+// Only the default site predates experiments, so this works on its
+// top-level collections. Old docs are left in place so a deploy can be
+// rolled back. Re-running is safe: anything already present on the
+// experiment is not overwritten.
+import { db } from "@/lib/firebase";
+import { HOME_EXPERIMENT_ID, isBuiltInArm } from "@/lib/assignment";
+import {
+  getExperiment,
+  getVariant,
+  isHeroContent,
+  promoteVariant,
+  updateExperiment,
+} from "@/lib/experiments";
+import { DEFAULT_SITE_ID } from "@/lib/sites";
+
+export type MigrationReport = {
+  experimentId: string;
+  allocation: "copied" | "skipped" | "missing";
+  history: number;
+  assignments: number;
+  liveVariantId: string | null;
+  liveVariantSource: "experiment" | "settings" | "variants" | "none";
+  liveLandingSlug: string | null;
+  notes: string[];
+};
+
+// Firestore batches cap at 500 writes.
+const BATCH_LIMIT = 400;
+
+async function copySubcollection(
+  experimentId: string,
+  name: "history" | "assignments"
+): Promise<number> {
+  const snap = await db
+    .collection(`variantAllocations/${experimentId}/${name}`)
+    .get();
+
+  for (let i = 0; i < snap.docs.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    snap.docs.slice(i, i + BATCH_LIMIT).forEach((d) => {
+      // same doc IDs, so a re-run overwrites instead of duplicating
+      batch.set(
+        db.doc(`experiments/${experimentId}/${name}/${d.id}`),
+        d.data()
+      );
+    });
+    await batch.commit();
+  }
+
+  return snap.size;
+}
+
+export async function migrateToExperiments(
+  experimentId: string = HOME_EXPERIMENT_ID
+): Promise<MigrationReport> {
+  const report: MigrationReport = {
+    experimentId,
+    allocation: "missing",
+    history: 0,
+    assignments: 0,
+    liveVariantId: null,
+    liveVariantSource: "none",
+    liveLandingSlug: null,
+    notes: [],
+  };
+
+  const existing = await db.collection("experiments").doc(experimentId).get();
+  const current = await getExperiment(DEFAULT_SITE_ID, experimentId);
+
+  /* ---------- traffic allocation ---------- */
+
+  const allocationSnap = await db
+    .collection("variantAllocations")
+    .doc(experimentId)
+    .get();
+  const data = allocationSnap.data();
+  if (data) {
+    if (existing.get("arms")) {
+      report.allocation = "skipped";
+      report.notes.push("Experiment already has arms; kept them.");
+    } else {
+      await db.collection("experiments").doc(experimentId).set(
+        {
+          arms: data.arms,
+          mode: data.mode ?? "fixed",
+          epsilon: data.epsilon ?? current.epsilon,
+          lastRecomputedAt: data.lastRecomputedAt ?? null,
+          updatedAt: data.updatedAt ?? new Date().toISOString(),
+        },
+        { merge: true }
+      );
+      report.allocation = "copied";
+    }
+
+    report.history = await copySubcollection(experimentId, "history");
+    report.assignments = await copySubcollection(experimentId, "assignments");
+  }
+
+  /* ---------- live hero ---------- */
+
+  const liveSnap = await db
+    .collection("variants")
+    .where("status", "==", "live")
+    .get();
+
+  if (current.liveVariantId) {
+    report.liveVariantId = current.liveVariantId;
+    report.liveVariantSource = "experiment";
+  } else {
+    const legacy = await db.collection("settings").doc("liveVariant").get();
+    const legacyData = legacy.data() ?? null;
+    const stored: string | undefined = legacyData?.variantId;
+    const storedAt = Date.parse(legacyData?.promotedAt ?? "");
+
+    if (legacyData && isHeroContent(legacyData)) {
+      // settings/liveVariant often carried "A"/"B", which can't own a doc
+      const variantId =
+        stored && !isBuiltInArm(stored)
+          ? stored
+          : `live-${storedAt || Date.now()}`;
+
+      await promoteVariant(DEFAULT_SITE_ID, variantId, {
+        content: legacyData,
+        experimentId,
+        by: "migration",
+      });
+      report.liveVariantId = variantId;
+      report.liveVariantSource = "settings";
+      if (variantId !== stored) {
+        report.notes.push(
+          `settings/liveVariant used "${stored ?? ""}"; saved as ${variantId}.`
+        );
+      }
+    } else if (!liveSnap.empty) {
+      const first = liveSnap.docs[0].id;
+      await promoteVariant(DEFAULT_SITE_ID, first, {
+        experimentId,
+        by: "migration",
+      });
+      report.liveVariantId = first;
+      report.liveVariantSource = "variants";
+    }
+  }
+
+  // promoteVariant archives the rest; the "experiment" path needs it too
+  if (report.liveVariantId && liveSnap.size > 1) {
+    report.notes.push(
+      `${liveSnap.size} variants were marked live; kept ${report.liveVariantId}.`
+    );
+  }
+  if (report.liveVariantSource === "experiment") {
+    const batch = db.batch();
+    let stale = 0;
+    liveSnap.forEach((d) => {
+      if (d.id !== report.liveVariantId) {
+        batch.update(d.ref, { status: "archived" });
+        stale++;
+      }
+    });
+    if (stale > 0) await batch.commit();
+  }
+
+  if (report.liveVariantId && !(await getVariant(DEFAULT_SITE_ID, report.liveVariantId))) {
+    report.notes.push(
+      `Live variant ${report.liveVariantId} has no variant doc; clearing it.`
+    );
+    await updateExperiment(DEFAULT_SITE_ID, experimentId, { liveVariantId: null });
+    report.liveVariantId = null;
+  }
+
+  /* ---------- live landing ---------- */
+
+  if (current.liveLanding) {
+    report.liveLandingSlug = current.liveLanding.slug;
+  } else {
+    const legacy = await db.collection("settings").doc("landingPage").get();
+    const legacyData = legacy.data();
+    if (legacyData?.spec) {
+      // landingPages/{slug} already holds the build; just point at it
+      const { slug, spec, promotedAt } = legacyData;
+      const landingSlug: string = slug || `landing-build-${Date.now()}`;
+      await updateExperiment(DEFAULT_SITE_ID, experimentId, {
+        liveLanding: {
+          slug: landingSlug,
+          spec,
+          promotedAt: promotedAt ?? new Date().toISOString(),
+        },
+      });
+      report.liveLandingSlug = landingSlug;
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,447 @@
+// lib/prompts.ts
+// Versioned prompt templates for every agent. A template version is frozen
+// once shipped: to change a prompt, add a new version below and bump it —
+// generated variants and pages record the { id, version } they came from,
+// so conversion can be compared across prompt versions.
+//
+// Brand variables and pinned versions live in each site's settings/prompts;
+// anything not set there falls back to the site's name, then
+// DEFAULT_PROMPT_VARIABLES, and the latest version.
+import type { DocumentData } from "firebase-admin/firestore";
+import type { AiTask } from "@/lib/ai-fixtures";
+import type { VariantStats } from "@/lib/aggregate";
+import { getSite, siteDoc } from "@/lib/sites";
+import type { SignificanceResult } from "@/lib/stats";
+
+/** Prompts are keyed by the task they generate output for. */
+export type PromptId = AiTask;
+
+export type PromptRef = { id: PromptId; version: number };
+
+export type PromptVariables = {
+  productName: string;
+  /** One-line product description used as context. */
+  productPitch: string;
+  brandVoice: string;
+  /** BCP 47 tag, e.g. en-GB; drives spelling and phrasing. */
+  locale: string;
+  /** Extra rules appended to every prompt. */
+  constraints: string[];
+};
+
+export const DEFAULT_PROMPT_VARIABLES: PromptVariables = {
+  productName: "cMindX",
+  productPitch:
+    "an AI agent that rewrites websites based on live behaviour analytics",
+  brandVoice:
+    "a mix of Vercel / Linear / Apple: clear, calm, confident; concise, product-focused and non-cringe",
+  locale: "en-GB",
+  constraints: [],
+};
+
+export type BehaviourSummary = {
+  totalSessions: number;
+  avgScrollAll: number | null;
+  avgClicksAll: number;
+  avgDwellSeconds?: number | null;
+  avgActiveSeconds?: number | null;
+  skimmers?: number;
+  deepReaders?: number;
+  clicky?: number;
+};
+
+export type PromptInputs = {
+  variant: { stats: VariantStats[]; significance: SignificanceResult };
+  "landing-spec": { stats: VariantStats[] };
+  "build-page": { behaviourSummary: BehaviourSummary };
+  "persona-page": { behaviourSummary: BehaviourSummary };
+};
+
+type PromptTemplate<K extends PromptId> = {
+  id: K;
+  version: number;
+  description: string;
+  render: (vars: PromptVariables, input: PromptInputs[K]) => string;
+};
+
+type Registry = { [K in PromptId]: PromptTemplate<K>[] };
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+// Frozen with the v1 templates; new versions should get their own helper.
+function styleRulesV1(v: PromptVariables) {
+  return [
+    `- Tone: ${v.brandVoice}.`,
+    `- Write all copy for the ${v.locale} locale (spelling, idiom, punctuation).`,
+    ...v.constraints.map((c) => `- ${c}`),
+  ].join("\n");
+}
+
+/* ---------- templates ---------- */
+
+const REGISTRY: Registry = {
+  variant: [
+    {
+      id: "variant",
+      version: 1,
+      description: "Hero variant from A/B stats and the significance check.",
+      render: (v, { stats, significance }) => `
+You are optimizing a landing page for a product called ${v.productName}, ${v.productPitch}.
+
+You get aggregated A/B stats. "conversionRate" is the share of sessions that
+clicked the primary CTA and is the metric that matters most; scroll and clicks
+are secondary engagement signals:
+${json(stats)}
+
+Significance check (only trust "winner" when it is not null; otherwise the
+leader may just be noise):
+${json({
+  winner: significance.winner,
+  leader: significance.leader,
+  reason: significance.reason,
+})}
+
+Pick the best-performing variantId and propose a new "Build C" hero variant based on it.
+
+Style rules:
+${styleRulesV1(v)}
+
+Return ONLY JSON, no markdown, with this shape:
+
+{
+  "fromVariant": "A",
+  "heroTitle": "SELF-EVOLVING WEBSITE // BUILD C",
+  "heroSubtitle": "1-2 sentence explanation tuned from the stats.",
+  "primaryCta": "Primary button label",
+  "secondaryCta": "Secondary button label",
+  "badge": "Short label, e.g. AGENT MODE • EVOLUTION",
+  "meta": {
+    "basedOn": { "variantId": "...", "avgScroll": 0, "clicks": 0, "conversionRate": 0 },
+    "explanation": "Short explanation of how behaviour informed this variant."
+  }
+}
+`,
+    },
+  ],
+
+  "landing-spec": [
+    {
+      id: "landing-spec",
+      version: 1,
+      description: "Full home page spec (hero, system, pillars, cards).",
+      render: (v, { stats }) => `
+You are designing the full textual content for a SaaS landing page called "${v.productName}", ${v.productPitch}.
+
+You are given aggregated A/B test stats:
+
+${json(stats)}
+
+Use these patterns:
+- "conversionRate" (share of sessions clicking the primary CTA) is the primary success metric; favour the narrative of the variant that converts best.
+- If a variant has high scroll + high clicks, assume its narrative is strong.
+- If a variant has high clicks but lower scroll, assume the hero is clear and fast to understand.
+- Use that intuition to create a new Build C page spec.
+
+Return ONLY JSON (no markdown fences) matching EXACTLY this TypeScript type:
+
+{
+  "hero": {
+    "title": string,
+    "subtitle": string,
+    "primaryCta": string,
+    "secondaryCta": string,
+    "badge": string,
+    "strip": string
+  },
+  "system": {
+    "currentVariantLabel": string,
+    "dataSourceLabel": string,
+    "agentLabel": string,
+    "description": string
+  },
+  "pillars": {
+    "label": string,
+    "title": string,
+    "body": string
+  }[],
+  "stackPoints": string[],
+  "editCards": {
+    "title": string,
+    "body": string
+  }[]
+}
+
+Important style constraints:
+${styleRulesV1(v)}
+`,
+    },
+  ],
+
+  "build-page": [
+    {
+      id: "build-page",
+      version: 1,
+      description: "Standalone experimental build page under /build/{slug}.",
+      render: (v, { behaviourSummary }) => `
+You are designing a new experimental landing page version for a product called ${v.productName}, ${v.productPitch}.
+
+You get summary behaviour metrics from the current page:
+
+${json(behaviourSummary)}
+
+Your job: create a *full landing page layout* (Build C / Build D style) that is more likely to convert.
+
+Style rules:
+${styleRulesV1(v)}
+
+Return ONLY valid JSON with this shape, no markdown. "slug" must be a
+lowercase kebab-case URL segment:
+
+{
+  "slug": "build-c",
+  "name": "Build C – higher intent",
+  "pageTitle": "${v.productName} — Build C",
+  "heroTitle": "Your best guess hero line",
+  "heroSubtitle": "1–2 sentence supporting copy tuned from the behaviour data.",
+  "primaryCta": "Primary CTA label",
+  "secondaryCta": "Secondary CTA label",
+  "sections": [
+    {
+      "type": "section",
+      "title": "Section title",
+      "body": "Short paragraph."
+    },
+    {
+      "type": "bullets",
+      "title": "What this version focuses on",
+      "items": ["Bullet 1", "Bullet 2", "Bullet 3"]
+    },
+    {
+      "type": "section",
+      "title": "How ${v.productName} uses live analytics",
+      "body": "Explain in detail."
+    },
+    {
+      "type": "cta",
+      "title": "Ready to evolve your site?",
+      "body": "Short CTA-style paragraph."
+    }
+  ]
+}
+`,
+    },
+  ],
+
+  "persona-page": [
+    {
+      id: "persona-page",
+      version: 1,
+      description: "Page for the dominant visitor persona under /persona/{slug}.",
+      render: (v, { behaviourSummary }) => `
+You are designing a persona-specific landing page for a product called ${v.productName}, ${v.productPitch}.
+
+You are given high-level behaviour stats from a marketing page:
+
+${json(behaviourSummary)}
+
+From this, infer the *dominant* persona that we should build a dedicated page for.
+
+Examples of persona patterns:
+- "Bouncers / skimmers" → low scroll, low clicks
+- "Explorers / deep readers" → high scroll, some clicks
+- "High-intent clickers" → medium scroll, high clicks
+- "Lurkers" → mid scroll, low clicks
+
+Choose ONE persona that seems most strategically important and generate a *full page definition* for them.
+
+Style rules:
+${styleRulesV1(v)}
+
+Return ONLY valid JSON (no markdown, no extra text) with the following
+structure. "slug" must be a lowercase kebab-case URL segment:
+
+{
+  "slug": "persona-high-intent",
+  "personaName": "High-intent clickers",
+  "pageTitle": "${v.productName} for High-Intent Visitors",
+  "heroTitle": "Turn intent into action on every visit.",
+  "heroSubtitle": "Explain in 1–2 sentences how ${v.productName} helps THIS persona based on the behaviour data.",
+  "primaryCta": "Start optimizing high-intent traffic",
+  "secondaryCta": "See how it works for your funnel",
+  "sections": [
+    {
+      "type": "section",
+      "title": "Why this persona matters",
+      "body": "Short paragraph."
+    },
+    {
+      "type": "bullets",
+      "title": "What ${v.productName} does for them",
+      "items": ["Bullet 1", "Bullet 2", "Bullet 3"]
+    },
+    {
+      "type": "section",
+      "title": "How it works behind the scenes",
+      "body": "Short paragraph."
+    },
+    {
+      "type": "cta",
+      "title": "Ready to let your website adapt?",
+      "body": "Short CTA copy encouraging action."
+    }
+  ]
+}
+`,
+    },
+  ],
+};
+
+/* ---------- settings ---------- */
+
+export type PromptSettings = {
+  variables: PromptVariables;
+  /** Pinned versions; unpinned prompts use their latest version. */
+  activeVersions: Partial<Record<PromptId, number>>;
+};
+
+const settingsRef = (siteId: string) => siteDoc(siteId, "settings", "prompts");
+
+export const PROMPT_IDS = Object.keys(REGISTRY) as PromptId[];
+
+function parseVariables(
+  input: unknown,
+  defaults: PromptVariables = DEFAULT_PROMPT_VARIABLES
+): PromptVariables {
+  const raw = (input ?? {}) as Partial<Record<keyof PromptVariables, unknown>>;
+  const str = (key: Exclude<keyof PromptVariables, "constraints">) =>
+    typeof raw[key] === "string" && (raw[key] as string).trim()
+      ? (raw[key] as string).trim()
+      : defaults[key];
+
+  return {
+    productName: str("productName"),
+    productPitch: str("productPitch"),
+    brandVoice: str("brandVoice"),
+    locale: str("locale"),
+    constraints: Array.isArray(raw.constraints)
+      ? raw.constraints.filter(
+          (c): c is string => typeof c === "string" && c.trim().length > 0
+        )
+      : defaults.constraints,
+  };
+}
+
+function parseActiveVersions(input: unknown): PromptSettings["activeVersions"] {
+  const raw = (input ?? {}) as Record<string, unknown>;
+  const out: PromptSettings["activeVersions"] = {};
+  for (const id of PROMPT_IDS) {
+    const version = Number(raw[id]);
+    if (REGISTRY[id].some((t) => t.version === version)) out[id] = version;
+  }
+  return out;
+}
+
+export async function loadPromptSettings(
+  siteId: string
+): Promise<PromptSettings> {
+  const [snap, site] = await Promise.all([
+    settingsRef(siteId).get(),
+    getSite(siteId),
+  ]);
+  const data: DocumentData = snap.data() ?? {};
+
+  // Unconfigured sites still get their own product name, not cMindX's.
+  const defaults: PromptVariables = {
+    ...DEFAULT_PROMPT_VARIABLES,
+    ...(site && site.name !== DEFAULT_PROMPT_VARIABLES.productName
+      ? {
+          productName: site.name,
+          productPitch: "whose marketing site is being optimised",
+        }
+      : {}),
+  };
+
+  return {
+    variables: parseVariables(data.variables, defaults),
+    activeVersions: parseActiveVersions(data.activeVersions),
+  };
+}
+
+export async function savePromptSettings(
+  siteId: string,
+  input: { variables?: unknown; activeVersions?: unknown }
+): Promise<PromptSettings> {
+  const current = await loadPromptSettings(siteId);
+  const next: PromptSettings = {
+    variables:
+      input.variables === undefined
+        ? current.variables
+        : parseVariables({ ...current.variables, ...(input.variables as object) }),
+    activeVersions:
+      input.activeVersions === undefined
+        ? current.activeVersions
+        : parseActiveVersions(input.activeVersions),
+  };
+  await settingsRef(siteId).set(next);
+  return next;
+}
+
+/* ---------- rendering ---------- */
+
+function latest<K extends PromptId>(id: K): PromptTemplate<K> {
+  const templates = REGISTRY[id] as PromptTemplate<K>[];
+  return templates.reduce((a, b) => (b.version > a.version ? b : a));
+}
+
+export function getTemplate<K extends PromptId>(
+  id: K,
+  version?: number
+): PromptTemplate<K> {
+  if (version === undefined) return latest(id);
+  const template = (REGISTRY[id] as PromptTemplate<K>[]).find(
+    (t) => t.version === version
+  );
+  if (!template) throw new Error(`Prompt ${id}@${version} does not exist`);
+  return template;
+}
+
+/** For prompt refs coming back from the client (save / promote calls). */
+export function isPromptRef(value: unknown): value is PromptRef {
+  const v = value as Partial<PromptRef> | null | undefined;
+  return Boolean(
+    v &&
+      PROMPT_IDS.includes(v.id as PromptId) &&
+      REGISTRY[v.id as PromptId].some((t) => t.version === v.version)
+  );
+}
+
+/** Every template with whether it is the one currently in use. */
+export function listTemplates(settings: PromptSettings) {
+  return PROMPT_IDS.flatMap((id) => {
+    const active = settings.activeVersions[id] ?? latest(id).version;
+    return REGISTRY[id].map((t) => ({
+      id: t.id,
+      version: t.version,
+      description: t.description,
+      active: t.version === active,
+    }));
+  });
+}
+
+/**
+ * Renders the active version of a prompt with the configured variables.
+ * Store the returned `ref` on whatever the model generates.
+ */
+export async function renderPrompt<K extends PromptId>(
+  siteId: string,
+  id: K,
+  input: PromptInputs[K]
+): Promise<{ prompt: string; ref: PromptRef }> {
+  const settings = await loadPromptSettings(siteId);
+  const template = getTemplate(id, settings.activeVersions[id]);
+
+  return {
+    prompt: template.render(settings.variables, input),
+    ref: { id, version: template.version },
+  };
+}
@@ -0,0 +1,259 @@
+// lib/review.ts
+// Review lifecycle shared by hero variants and landing builds:
+//
+//   draft ──submit──▶ in_review ──approve (× REQUIRED_APPROVALS)──▶ approved ──promote──▶ live
+//     ▲                   │                                           │  ▲
+//     └─request_changes───┘                                  schedule ▼  │ cancel / failed run
+//                                                                  scheduled ──promote──▶ live
+//
+//   any state except live ──archive──▶ archived
+//
+// Only approved (or scheduled) content can be promoted or given traffic.
+// The state lives on the variant / landing build doc itself (status,
+// approvals, reviews); review actions go through `reviewDoc` and scheduling
+// through lib/schedule.ts, so the rules hold no matter which route or
+// button triggered them.
+import { db } from "@/lib/firebase";
+import type { DocumentReference } from "firebase-admin/firestore";
+import type { Role } from "@/lib/roles";
+
+export type ReviewStatus =
+  | "draft"
+  | "in_review"
+  | "approved"
+  | "scheduled"
+  | "live"
+  | "archived";
+
+export type ReviewAction =
+  | "submit"
+  | "approve"
+  | "request_changes"
+  | "comment"
+  | "archive";
+
+export type ReviewEntry = {
+  action:
+    | ReviewAction
+    | "create"
+    | "promote"
+    | "rollback"
+    | "schedule"
+    | "unschedule";
+  /** Operator email, or "auto-mode" for autopilot actions. */
+  by: string;
+  comment?: string;
+  from: ReviewStatus | null;
+  to: ReviewStatus;
+  at: string;
+};
+
+export type ReviewFields = {
+  status: ReviewStatus;
+  /** Emails of approvers for the current review round. */
+  approvals: string[];
+  submittedBy?: string;
+  reviews: ReviewEntry[];
+};
+
+/** Minimum role for each action; routes authorize with this. */
+export const ACTION_ROLES: Record<ReviewAction, Role> = {
+  submit: "editor",
+  approve: "approver",
+  request_changes: "approver",
+  comment: "viewer",
+  archive: "approver",
+};
+
+export function isReviewAction(value: unknown): value is ReviewAction {
+  return typeof value === "string" && value in ACTION_ROLES;
+}
+
+export function isReviewStatus(value: unknown): value is ReviewStatus {
+  return (
+    value === "draft" ||
+    value === "in_review" ||
+    value === "approved" ||
+    value === "scheduled" ||
+    value === "live" ||
+    value === "archived"
+  );
+}
+
+/** Whether content in this state may be promoted or given traffic. */
+export const isPromotable = (status: ReviewStatus) =>
+  status === "approved" || status === "scheduled" || status === "live";
+
+/** Distinct approvals needed to leave review; REQUIRED_APPROVALS, default 1. */
+export function requiredApprovals(): number {
+  const configured = Number(process.env.REQUIRED_APPROVALS);
+  return Number.isInteger(configured) && configured > 0 ? configured : 1;
+}
+
+/**
+ * Reads review fields off a stored doc. Docs from before the workflow have
+ * "testing" (already serving traffic) or no status at all; both count as
+ * approved so existing experiments keep running.
+ */
+export function reviewFromData(data: {
+  status?: unknown;
+  approvals?: unknown;
+  submittedBy?: unknown;
+  reviews?: unknown;
+}): ReviewFields {
+  const fields: ReviewFields = {
+    status: isReviewStatus(data.status) ? data.status : "approved",
+    approvals: Array.isArray(data.approvals) ? data.approvals : [],
+    reviews: Array.isArray(data.reviews) ? data.reviews : [],
+  };
+  if (typeof data.submittedBy === "string") {
+    fields.submittedBy = data.submittedBy;
+  }
+  return fields;
+}
+
+/** Review fields for freshly created content. */
+export function newReview(
+  by: string,
+  status: "draft" | "approved" = "draft",
+  comment?: string
+): ReviewFields {
+  const entry: ReviewEntry = {
+    action: "create",
+    by,
+    from: null,
+    to: status,
+    at: new Date().toISOString(),
+  };
+  if (comment) entry.comment = comment;
+  return {
+    status,
+    approvals: status === "approved" ? [by] : [],
+    reviews: [entry],
+  };
+}
+
+export type ReviewResult =
+  | { ok: true; review: ReviewFields }
+  | { ok: false; error: string };
+
+/** Pure transition: the next review state, or why the action isn't allowed. */
+export function applyReview(
+  current: ReviewFields,
+  action: ReviewAction,
+  actor: string,
+  comment?: string,
+  now: Date = new Date()
+): ReviewResult {
+  const note = comment?.trim() || undefined;
+  const fail = (error: string): ReviewResult => ({ ok: false, error });
+
+  let next: ReviewFields = { ...current };
+
+  switch (action) {
+    case "submit":
+      if (current.status !== "draft") {
+        return fail(`Only drafts can be submitted (status: ${current.status})`);
+      }
+      next = { ...next, status: "in_review", approvals: [], submittedBy: actor };
+      break;
+
+    case "approve": {
+      if (current.status !== "in_review") {
+        return fail(`Only content in review can be approved (status: ${current.status})`);
+      }
+      if (current.submittedBy === actor) {
+        return fail("You can't approve your own submission");
+      }
+      if (current.approvals.includes(actor)) {
+        return fail("You have already approved this");
+      }
+      const approvals = [...current.approvals, actor];
+      next = {
+        ...next,
+        approvals,
+        status: approvals.length >= requiredApprovals() ? "approved" : "in_review",
+      };
+      break;
+    }
+
+    case "request_changes":
+      if (current.status !== "in_review" && current.status !== "approved") {
+        return fail(`Nothing to send back (status: ${current.status})`);
+      }
+      if (!note) return fail("Say what needs to change");
+      next = { ...next, status: "draft", approvals: [] };
+      break;
+
+    case "comment":
+      if (!note) return fail("Comment is empty");
+      break;
+
+    case "archive":
+      if (current.status === "live") {
+        return fail("Live content is retired by promoting a replacement");
+      }
+      if (current.status === "archived") return fail("Already archived");
+      next = { ...next, status: "archived" };
+      break;
+  }
+
+  const entry: ReviewEntry = {
+    action,
+    by: actor,
+    from: current.status,
+    to: next.status,
+    at: now.toISOString(),
+  };
+  if (note) entry.comment = note;
+
+  return { ok: true, review: { ...next, reviews: [...current.reviews, entry] } };
+}
+
+/**
+ * Entry appended when content goes live (`promote`), leaves / returns to
+ * live through a rollback (`rollback`), or is queued for / taken off a
+ * scheduled promotion (`schedule`, `unschedule`).
+ */
+export function promotionEntry(
+  from: ReviewStatus,
+  by: string,
+  at: string,
+  { action = "promote", to = "live", comment }: {
+    action?: "promote" | "rollback" | "schedule" | "unschedule";
+    to?: ReviewStatus;
+    comment?: string;
+  } = {}
+): ReviewEntry {
+  const entry: ReviewEntry = { action, by, from, to, at };
+  if (comment) entry.comment = comment;
+  return entry;
+}
+
+/**
+ * Applies `action` to the review fields of the doc at `ref` in a
+ * transaction. Returns null when the doc doesn't exist.
+ */
+export async function reviewDoc(
+  ref: DocumentReference,
+  action: ReviewAction,
+  actor: string,
+  comment?: string
+): Promise<ReviewResult | null> {
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return null;
+
+    const result = applyReview(
+      reviewFromData(snap.data() ?? {}),
+      action,
+      actor,
+      comment
+    );
+    if (result.ok) {
+      const { submittedBy, ...fields } = result.review;
+      tx.update(ref, submittedBy ? { ...fields, submittedBy } : fields);
+    }
+    return result;
+  });
+}
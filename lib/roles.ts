@@ -0,0 +1,16 @@
+// lib/roles.ts
+// Operator roles, kept free of Firestore and node:crypto so the dashboard
+// can hide what the signed-in operator isn't allowed to do. The server-side
+// checks live in lib/auth.ts.
+
+/** Ordered: each role can do everything the ones before it can. */
+export const ROLES = ["viewer", "editor", "approver", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function hasRole(operator: { role: Role }, required: Role): boolean {
+  return ROLES.indexOf(operator.role) >= ROLES.indexOf(required);
+}
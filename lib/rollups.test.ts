@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  addCounters,
+  counterDelta,
+  emptySessionStats,
+  sessionCounters,
+  type SessionStats,
+} from "@/lib/aggregate";
+import { rollupSessions, sumRollups, type SessionRollup } from "@/lib/rollups";
+
+const stats = (overrides: Partial<SessionStats> = {}): SessionStats => ({
+  ...emptySessionStats("s1", "A"),
+  events: 3,
+  pageviews: 1,
+  clicks: 1,
+  engaged: true,
+  maxScroll: 60,
+  dwellMs: 9000,
+  activeMs: 4000,
+  ...overrides,
+});
+
+const session = (
+  sessionId: string,
+  overrides: Partial<SessionRollup> = {}
+): SessionRollup => ({
+  ...stats({ sessionId }),
+  visitorId: null,
+  startedAt: "2026-10-05T10:00:00.000Z",
+  lastEventAt: "2026-10-05T10:05:00.000Z",
+  day: "2026-10-05",
+  segments: ["all"],
+  visitorFirstSeenAt: null,
+  source: null,
+  firstTouch: null,
+  lastTouch: null,
+  browser: null,
+  deviceType: null,
+  ...overrides,
+});
+
+describe("addCounters", () => {
+  it("sums every counter, scroll reach and goal", () => {
+    const a = sessionCounters(stats({ goals: ["primary_cta"] }));
+    const b = sessionCounters(stats({ maxScroll: 100, goals: ["signup"] }));
+    const sum = addCounters(a, b);
+
+    expect(sum.sessions).toBe(2);
+    expect(sum.clicks).toBe(2);
+    expect(sum.scrollSum).toBe(160);
+    expect(sum.reach).toEqual({ 25: 2, 50: 2, 75: 1, 100: 1 });
+    expect(sum.goals).toEqual({ primary_cta: 1, signup: 1 });
+    expect(sum.dwellMsSum).toBe(18_000);
+  });
+
+  it("treats missing fields on stored docs as zero", () => {
+    const sum = addCounters({ sessions: 4 }, sessionCounters(stats()));
+    expect(sum.sessions).toBe(5);
+    expect(sum.reach[25]).toBe(1);
+  });
+});
+
+describe("sessionCounters", () => {
+  it("counts a visitor as new only in the session they were first seen in", () => {
+    const first = session("s1", {
+      visitorId: "v1",
+      visitorFirstSeenAt: "2026-10-05T10:00:00.000Z",
+    });
+    const later = session("s2", {
+      visitorId: "v1",
+      startedAt: "2026-10-06T10:00:00.000Z",
+      visitorFirstSeenAt: "2026-10-05T10:00:00.000Z",
+    });
+    const sum = addCounters(sessionCounters(first), sessionCounters(later));
+
+    expect(sum.newVisitors).toBe(1);
+    expect(sum.returningSessions).toBe(1);
+    expect(sessionCounters(session("s3")).newVisitors).toBe(0);
+  });
+});
+
+describe("counterDelta", () => {
+  it("adds up to the updated session when applied to the old one", () => {
+    const before = stats({ engaged: false, maxScroll: null, clicks: 0 });
+    const after = stats({ clicks: 2, goals: ["primary_cta"] });
+    const applied = addCounters(
+      sessionCounters(before),
+      counterDelta(before, after)
+    );
+    expect(applied).toEqual(sessionCounters(after));
+  });
+
+  it("is the whole session for a new one", () => {
+    const after = stats();
+    expect(counterDelta(null, after)).toEqual(sessionCounters(after));
+  });
+});
+
+describe("rollupSessions", () => {
+  it("groups sessions by day and arm under the given segment", () => {
+    const rollups = rollupSessions(
+      [
+        session("s1"),
+        session("s2", { clicks: 4 }),
+        session("s3", { variantId: "B" }),
+        session("s4", { day: "2026-10-06" }),
+      ],
+      "saved:abc"
+    );
+
+    expect(rollups).toHaveLength(3);
+    const a = rollups.find((r) => r.day === "2026-10-05" && r.variantId === "A");
+    expect(a).toMatchObject({ sessions: 2, clicks: 5, segment: "saved:abc" });
+  });
+
+  it("sums back to the same per-arm totals as the sessions", () => {
+    const sessions = [
+      session("s1"),
+      session("s2", { day: "2026-10-06", engaged: false }),
+      session("s3", { variantId: "B" }),
+    ];
+    const byVariant = sumRollups(rollupSessions(sessions, "all"), "variantId");
+
+    expect(byVariant.get("A")).toEqual(
+      addCounters(sessionCounters(sessions[0]), sessionCounters(sessions[1]))
+    );
+    expect(byVariant.get("B")?.sessions).toBe(1);
+  });
+});
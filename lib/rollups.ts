@@ -0,0 +1,750 @@
+// lib/rollups.ts
+// Rollups maintained as events are ingested, so agents and the dashboard
+// never re-read raw events:
+//
+//   sessionRollups/{sessionId}                  SessionStats + start, visitor, source, segments
+//   dailyRollups/{day}_{variantId}_{segment}    RollupCounters per UTC day
+//   visitors/{visitorId}                        first seen, first and last touch
+//
+// A session counts towards the day and arm it started in, under every
+// segment it belongs to ("all", "device:mobile", "source:google", …). Each
+// ingest folds the new events into the session and adds the difference to
+// its daily docs, in the same transaction that stores the events.
+//
+// Queries need composite indexes on dailyRollups(segment, day) and on
+// sessionRollups(segments array-contains, startedAt desc), with and
+// without variantId between the two (firestore.indexes.json).
+import {
+  FieldPath,
+  FieldValue,
+  type DocumentData,
+  type Query,
+  type WriteBatch,
+} from "firebase-admin/firestore";
+import { db } from "@/lib/firebase";
+import {
+  addCounters,
+  addEventToSession,
+  counterDelta,
+  emptyCounters,
+  emptySessionStats,
+  sessionCounters,
+  variantStatsFromCounters,
+  variantStatsFromSessions,
+  type AggregateOptions,
+  type RollupCounters,
+  type SessionStats,
+  type VariantStats,
+} from "@/lib/aggregate";
+import { SCROLL_MILESTONES } from "@/lib/engagement";
+import { loadAllEventsSince } from "@/lib/event-store";
+import type { AnalyticsEvent, StoredAnalyticsEvent } from "@/lib/events";
+import { isDeviceClass } from "@/lib/heatmap";
+import { siteCollection, siteDoc } from "@/lib/sites";
+import { isDirect, isTrafficTouch, type TrafficTouch } from "@/lib/traffic";
+
+export const ALL_SEGMENT = "all";
+export const DEFAULT_RANGE_DAYS = 30;
+
+export type SessionRollup = SessionStats & {
+  visitorId: string | null;
+  startedAt: string;
+  lastEventAt: string;
+  /** UTC day of `startedAt`, YYYY-MM-DD. */
+  day: string;
+  segments: string[];
+  /**
+   * When the visitor was first seen; this session's start for a new
+   * visitor, null without a visitor ID.
+   */
+  visitorFirstSeenAt: string | null;
+  /** This visit's own source; null for sessions recorded without one. */
+  source: TrafficTouch | null;
+  /** The visitor's first recorded source. */
+  firstTouch: TrafficTouch | null;
+  /** The latest non-direct source up to this visit (or direct if none). */
+  lastTouch: TrafficTouch | null;
+  browser: string | null;
+  /** From the user agent, unlike the viewport-based device segment. */
+  deviceType: string | null;
+};
+
+export type VisitorRollup = {
+  firstSeenAt: string;
+  lastSessionAt: string;
+  firstTouch: TrafficTouch | null;
+  lastTouch: TrafficTouch | null;
+};
+
+export type DailyRollup = RollupCounters & {
+  day: string;
+  variantId: string;
+  segment: string;
+};
+
+/** Inclusive range of UTC days, YYYY-MM-DD. */
+export type RollupRange = { from: string; to: string };
+
+export const dayOf = (iso: string) => iso.slice(0, 10);
+
+export function defaultRange(
+  now: Date = new Date(),
+  days: number = DEFAULT_RANGE_DAYS
+): RollupRange {
+  return {
+    from: dayOf(
+      new Date(now.getTime() - (days - 1) * 86_400_000).toISOString()
+    ),
+    to: dayOf(now.toISOString()),
+  };
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A range from `?from=YYYY-MM-DD&to=YYYY-MM-DD`, either of which defaults
+ * to the last DEFAULT_RANGE_DAYS days. Null when malformed or reversed.
+ */
+export function parseRange(params: URLSearchParams): RollupRange | null {
+  const fallback = defaultRange();
+  const from = params.get("from") ?? fallback.from;
+  const to = params.get("to") ?? fallback.to;
+  if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to) || from > to) {
+    return null;
+  }
+  return { from, to };
+}
+
+/**
+ * Segments a session belongs to, fixed when it starts: always "all", plus
+ * the device class its first pageview reported, its browser family and its
+ * last-touch source and medium.
+ */
+export function sessionSegments(
+  first: Pick<AnalyticsEvent, "payload">,
+  lastTouch: TrafficTouch | null
+): string[] {
+  const device = isDeviceClass(first.payload.device)
+    ? first.payload.device
+    : "unknown";
+  const segments = [ALL_SEGMENT, `device:${device}`];
+  if (typeof first.payload.browser === "string") {
+    segments.push(`browser:${first.payload.browser}`);
+  }
+  if (lastTouch) {
+    segments.push(`source:${lastTouch.source}`, `medium:${lastTouch.medium}`);
+  }
+  return segments;
+}
+
+const sessionRef = (siteId: string, sessionId: string) =>
+  siteDoc(siteId, "sessionRollups", sessionId);
+
+const visitorRef = (siteId: string, visitorId: string) =>
+  siteDoc(siteId, "visitors", visitorId);
+
+// segment values may carry "/" (a path or URL), which doc IDs can't
+const dailyRef = (
+  siteId: string,
+  day: string,
+  variantId: string,
+  segment: string
+) =>
+  siteDoc(
+    siteId,
+    "dailyRollups",
+    `${day}_${encodeURIComponent(variantId)}_${encodeURIComponent(segment)}`
+  );
+
+// fields added after the first sessions were rolled up
+const NOT_RECORDED: Pick<
+  SessionRollup,
+  | "source"
+  | "firstTouch"
+  | "lastTouch"
+  | "browser"
+  | "deviceType"
+  | "visitorFirstSeenAt"
+> = {
+  visitorFirstSeenAt: null,
+  source: null,
+  firstTouch: null,
+  lastTouch: null,
+  browser: null,
+  deviceType: null,
+};
+
+function sessionFromData(id: string, data: DocumentData): SessionRollup {
+  return {
+    ...emptySessionStats(id, data.variantId ?? "unknown"),
+    ...NOT_RECORDED,
+    ...(data as Omit<SessionRollup, "sessionId">),
+    sessionId: id,
+  };
+}
+
+function dailyFromData(data: DocumentData): DailyRollup {
+  return {
+    ...addCounters(emptyCounters(), data as Partial<RollupCounters>),
+    day: data.day,
+    variantId: data.variantId,
+    segment: data.segment,
+  };
+}
+
+/**
+ * A new session's rollup. Its touches come from the first pageview (stamped
+ * by lib/traffic.ts) and what's known about the visitor so far.
+ */
+function startSession(
+  sessionId: string,
+  events: AnalyticsEvent[],
+  visitor: VisitorRollup | null
+): SessionRollup {
+  const first = events[0];
+  const pageview = events.find((e) => e.eventType === "pageview") ?? first;
+  const source = isTrafficTouch(pageview.payload.source)
+    ? pageview.payload.source
+    : null;
+  const lastTouch =
+    source && !isDirect(source) ? source : visitor?.lastTouch ?? source;
+  const text = (value: unknown) => (typeof value === "string" ? value : null);
+
+  return {
+    ...emptySessionStats(sessionId, first.variantId || "unknown"),
+    visitorId: first.visitorId ?? null,
+    startedAt: first.ts,
+    lastEventAt: first.ts,
+    day: dayOf(first.ts),
+    segments: sessionSegments(pageview, lastTouch),
+    visitorFirstSeenAt: first.visitorId
+      ? visitor?.firstSeenAt ?? first.ts
+      : null,
+    source,
+    firstTouch: visitor?.firstTouch ?? source,
+    lastTouch,
+    browser: text(pageview.payload.browser),
+    deviceType: text(pageview.payload.deviceType),
+  };
+}
+
+function visitorAfter(
+  visitor: VisitorRollup | null,
+  session: SessionRollup
+): VisitorRollup {
+  return {
+    firstSeenAt: visitor?.firstSeenAt ?? session.startedAt,
+    lastSessionAt: session.startedAt,
+    firstTouch: session.firstTouch,
+    lastTouch: session.lastTouch,
+  };
+}
+
+/** Folds a session's new events (oldest first) into its rollup. */
+function foldSession(
+  before: SessionRollup | null,
+  sessionId: string,
+  events: AnalyticsEvent[],
+  visitor: VisitorRollup | null = null
+): SessionRollup {
+  const session: SessionRollup = before
+    ? structuredClone(before)
+    : startSession(sessionId, events, visitor);
+
+  for (const e of events) {
+    addEventToSession(session, e);
+    if (e.ts > session.lastEventAt) session.lastEventAt = e.ts;
+  }
+  return session;
+}
+
+/** Increments for a merge-set; zero fields are left out. */
+function incrementsFor(delta: RollupCounters): DocumentData {
+  const data: DocumentData = {};
+  for (const [field, value] of Object.entries(delta)) {
+    if (typeof value === "number" && value !== 0) {
+      data[field] = FieldValue.increment(value);
+    }
+  }
+  const reach: DocumentData = {};
+  for (const milestone of SCROLL_MILESTONES) {
+    if (delta.reach[milestone]) {
+      reach[milestone] = FieldValue.increment(delta.reach[milestone]);
+    }
+  }
+  if (Object.keys(reach).length > 0) data.reach = reach;
+  const goals: DocumentData = {};
+  for (const [goalId, value] of Object.entries(delta.goals)) {
+    if (value) goals[goalId] = FieldValue.increment(value);
+  }
+  if (Object.keys(goals).length > 0) data.goals = goals;
+  return data;
+}
+
+function groupBySession<T extends Pick<AnalyticsEvent, "sessionId">>(
+  events: T[]
+): Map<string, T[]> {
+  const bySession = new Map<string, T[]>();
+  for (const e of events) {
+    const list = bySession.get(e.sessionId) ?? [];
+    list.push(e);
+    bySession.set(e.sessionId, list);
+  }
+  return bySession;
+}
+
+/**
+ * Stores a batch of events and rolls them up, atomically, updating the
+ * visitor record of every session that starts. Events must be in the order
+ * they happened (the client queue order). Returns the event IDs.
+ */
+export async function ingestEvents(
+  siteId: string,
+  events: StoredAnalyticsEvent[]
+): Promise<string[]> {
+  const bySession = groupBySession(events);
+
+  return db.runTransaction(async (tx) => {
+    const sessions = [...bySession];
+    const snaps = await Promise.all(
+      sessions.map(([id]) => tx.get(sessionRef(siteId, id)))
+    );
+
+    // visitors starting a session; all reads go before the first write
+    const visitorIds = new Set<string>();
+    sessions.forEach(([, sessionEvents], i) => {
+      const visitorId = sessionEvents[0].visitorId;
+      if (!snaps[i].exists && visitorId) visitorIds.add(visitorId);
+    });
+    const visitors = new Map<string, VisitorRollup | null>();
+    await Promise.all(
+      [...visitorIds].map(async (id) => {
+        const snap = await tx.get(visitorRef(siteId, id));
+        visitors.set(id, snap.exists ? (snap.data() as VisitorRollup) : null);
+      })
+    );
+
+    // one merge-set per daily doc, however many sessions touch it
+    const deltas = new Map<
+      string,
+      { day: string; variantId: string; segment: string; delta: RollupCounters }
+    >();
+    sessions.forEach(([sessionId, sessionEvents], i) => {
+      const snap = snaps[i];
+      const before = snap.exists
+        ? sessionFromData(sessionId, snap.data() ?? {})
+        : null;
+      const visitorId = before ? null : sessionEvents[0].visitorId;
+      const visitor = visitorId ? visitors.get(visitorId) ?? null : null;
+      const after = foldSession(before, sessionId, sessionEvents, visitor);
+      tx.set(sessionRef(siteId, sessionId), after);
+      if (visitorId) visitors.set(visitorId, visitorAfter(visitor, after));
+
+      const delta = counterDelta(before, after);
+      for (const segment of after.segments) {
+        const key = `${after.day}|${after.variantId}|${segment}`;
+        const entry = deltas.get(key) ?? {
+          day: after.day,
+          variantId: after.variantId,
+          segment,
+          delta: emptyCounters(),
+        };
+        entry.delta = addCounters(entry.delta, delta);
+        deltas.set(key, entry);
+      }
+    });
+
+    for (const [visitorId, visitor] of visitors) {
+      if (visitor) tx.set(visitorRef(siteId, visitorId), visitor);
+    }
+    for (const { day, variantId, segment, delta } of deltas.values()) {
+      tx.set(
+        dailyRef(siteId, day, variantId, segment),
+        { day, variantId, segment, ...incrementsFor(delta) },
+        { merge: true }
+      );
+    }
+
+    return events.map((event) => {
+      const ref = siteCollection(siteId, "events").doc();
+      tx.set(ref, event);
+      return ref.id;
+    });
+  });
+}
+
+/* ---------- queries ---------- */
+
+export async function loadDailyRollups(
+  siteId: string,
+  range: RollupRange = defaultRange(),
+  segment: string = ALL_SEGMENT
+): Promise<DailyRollup[]> {
+  const snap = await siteCollection(siteId, "dailyRollups")
+    .where("segment", "==", segment)
+    .where("day", ">=", range.from)
+    .where("day", "<=", range.to)
+    .get();
+  return snap.docs.map((d) => dailyFromData(d.data()));
+}
+
+/** Sums rollups per variant (or per day) into one set of counters each. */
+export function sumRollups(
+  rollups: DailyRollup[],
+  by: "variantId" | "day"
+): Map<string, RollupCounters> {
+  const sums = new Map<string, RollupCounters>();
+  for (const r of rollups) {
+    sums.set(r[by], addCounters(sums.get(r[by]) ?? emptyCounters(), r));
+  }
+  return sums;
+}
+
+export type StatsQuery = AggregateOptions & {
+  range?: RollupRange;
+  segment?: string;
+};
+
+/** Per-variant stats over a day range and segment, from the daily rollups. */
+export async function queryVariantStats(
+  siteId: string,
+  options: StatsQuery = {}
+): Promise<VariantStats[]> {
+  const rollups = await loadDailyRollups(
+    siteId,
+    options.range,
+    options.segment
+  );
+  return variantStatsFromCounters(sumRollups(rollups, "variantId"), options);
+}
+
+export type SessionQuery = {
+  /** ISO timestamps on the session start: [since, until). */
+  since?: string;
+  until?: string;
+  variantId?: string;
+  segment?: string;
+  max?: number;
+};
+
+function sessionQuery(siteId: string, options: SessionQuery): Query {
+  let q: Query = siteCollection(siteId, "sessionRollups").where(
+    "segments",
+    "array-contains",
+    options.segment ?? ALL_SEGMENT
+  );
+  if (options.variantId) q = q.where("variantId", "==", options.variantId);
+  if (options.since) q = q.where("startedAt", ">=", options.since);
+  if (options.until) q = q.where("startedAt", "<", options.until);
+  return q.orderBy("startedAt", "desc");
+}
+
+/** Session rollups, most recently started first. */
+export async function loadSessionRollups(
+  siteId: string,
+  options: SessionQuery = {}
+): Promise<SessionRollup[]> {
+  const snap = await sessionQuery(siteId, options)
+    .limit(options.max ?? 1000)
+    .get();
+  return snap.docs.map((d) => sessionFromData(d.id, d.data()));
+}
+
+const SESSION_PAGE_SIZE = 1000;
+
+/**
+ * Every session rollup matching the query, most recently started first,
+ * read a page at a time. Only for windows known to be short; anything
+ * longer should go through the daily rollups.
+ */
+export async function loadAllSessionRollups(
+  siteId: string,
+  options: Omit<SessionQuery, "max"> = {}
+): Promise<SessionRollup[]> {
+  const sessions: SessionRollup[] = [];
+  let q = sessionQuery(siteId, options).limit(SESSION_PAGE_SIZE);
+  for (;;) {
+    const snap = await q.get();
+    sessions.push(...snap.docs.map((d) => sessionFromData(d.id, d.data())));
+    if (snap.size < SESSION_PAGE_SIZE) return sessions;
+    q = q.startAfter(snap.docs[snap.size - 1]);
+  }
+}
+
+const MAX_STATS_SESSIONS = 10_000;
+
+const nextDay = (day: string) =>
+  dayOf(new Date(Date.parse(day) + 86_400_000).toISOString());
+
+/**
+ * Per-variant stats over sessions started at or after `since`, for windows
+ * that start mid-day (an experiment's start). The first, partial day is
+ * summed from its sessions and every later day from the daily rollups, so
+ * the counts are complete however long the window runs.
+ */
+export async function queryVariantStatsSince(
+  siteId: string,
+  since: string,
+  options: AggregateOptions & { segment?: string } = {}
+): Promise<VariantStats[]> {
+  const firstFullDay = nextDay(dayOf(since));
+  const [firstDay, rollups] = await Promise.all([
+    loadAllSessionRollups(siteId, {
+      since,
+      until: `${firstFullDay}T00:00:00.000Z`,
+      segment: options.segment,
+    }),
+    loadDailyRollups(
+      siteId,
+      { from: firstFullDay, to: dayOf(new Date().toISOString()) },
+      options.segment
+    ),
+  ]);
+
+  const counters = sumRollups(rollups, "variantId");
+  for (const session of firstDay) {
+    counters.set(
+      session.variantId,
+      addCounters(
+        counters.get(session.variantId) ?? emptyCounters(),
+        sessionCounters(session)
+      )
+    );
+  }
+  return variantStatsFromCounters(counters, options);
+}
+
+export type SessionSample = {
+  sessions: SessionRollup[];
+  /** More sessions started in the range; only the most recent were loaded. */
+  truncated: boolean;
+};
+
+/**
+ * Sessions started within a day range, most recent first, capped at
+ * MAX_STATS_SESSIONS: for breakdowns the daily rollups can't answer.
+ */
+export async function loadSessionsInRange(
+  siteId: string,
+  range: RollupRange = defaultRange(),
+  segment: string = ALL_SEGMENT
+): Promise<SessionSample> {
+  const sessions = await loadSessionRollups(siteId, {
+    since: `${range.from}T00:00:00.000Z`,
+    until: new Date(Date.parse(range.to) + 86_400_000).toISOString(),
+    segment,
+    max: MAX_STATS_SESSIONS + 1,
+  });
+  return {
+    sessions: sessions.slice(0, MAX_STATS_SESSIONS),
+    truncated: sessions.length > MAX_STATS_SESSIONS,
+  };
+}
+
+/**
+ * Daily rollups computed on the fly from a set of sessions, shaped like the
+ * stored ones, e.g. for a saved segment's sessions (lib/segments.ts).
+ */
+export function rollupSessions(
+  sessions: SessionRollup[],
+  segment: string
+): DailyRollup[] {
+  const daily = new Map<string, DailyRollup>();
+  for (const session of sessions) {
+    const key = `${session.day}|${session.variantId}`;
+    const counters = addCounters(
+      daily.get(key) ?? emptyCounters(),
+      sessionCounters(session)
+    );
+    daily.set(key, {
+      ...counters,
+      day: session.day,
+      variantId: session.variantId,
+      segment,
+    });
+  }
+  return [...daily.values()];
+}
+
+export type TouchModel = "first" | "last";
+
+export type SourceBreakdown = {
+  source: string;
+  medium: string;
+  sessions: number;
+  variants: VariantStats[];
+};
+
+export type BreakdownOptions = AggregateOptions & {
+  /** Attribute each session to the visitor's first or last touch. */
+  touch?: TouchModel;
+};
+
+/**
+ * Per-variant stats for each source / medium, largest first; from sessions
+ * since the daily rollups only hold one source per segment. Sessions
+ * recorded before sources were captured show up as "unknown".
+ */
+export function sourceBreakdown(
+  sessions: SessionRollup[],
+  options: BreakdownOptions = {}
+): SourceBreakdown[] {
+  const groups = new Map<
+    string,
+    { source: string; medium: string; sessions: SessionRollup[] }
+  >();
+  for (const session of sessions) {
+    const touch =
+      options.touch === "first" ? session.firstTouch : session.lastTouch;
+    const source = touch?.source ?? "unknown";
+    const medium = touch?.medium ?? "unknown";
+    const key = `${source} / ${medium}`;
+    const group = groups.get(key) ?? { source, medium, sessions: [] };
+    group.sessions.push(session);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map(({ source, medium, sessions: grouped }) => ({
+      source,
+      medium,
+      sessions: grouped.length,
+      variants: variantStatsFromSessions(grouped, options),
+    }))
+    .sort((a, b) => b.sessions - a.sessions);
+}
+
+/* ---------- rebuild ---------- */
+
+export type RebuildReport = {
+  from: string;
+  events: number;
+  sessions: number;
+  dailyRollups: number;
+  visitors: number;
+  /** Sessions left alone because they started before `from`. */
+  skippedSessions: number;
+};
+
+// Firestore batches cap at 500 writes.
+const BATCH_LIMIT = 400;
+
+async function commitInChunks<T>(
+  items: T[],
+  write: (batch: WriteBatch, item: T) => void
+) {
+  for (let i = 0; i < items.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    items.slice(i, i + BATCH_LIMIT).forEach((item) => write(batch, item));
+    await batch.commit();
+  }
+}
+
+// Firestore's "in" filter takes at most 30 values
+const IN_LIMIT = 30;
+
+/**
+ * Visitor records as they stood before `since`; visitors first seen later
+ * are rebuilt from scratch. Touches on a record seen earlier may already
+ * reflect sessions after `since`, so a rebuild can shift their last touch.
+ */
+async function loadVisitorsBefore(
+  siteId: string,
+  visitorIds: string[],
+  since: string
+): Promise<Map<string, VisitorRollup>> {
+  const visitors = new Map<string, VisitorRollup>();
+  for (let i = 0; i < visitorIds.length; i += IN_LIMIT) {
+    const snap = await siteCollection(siteId, "visitors")
+      .where(FieldPath.documentId(), "in", visitorIds.slice(i, i + IN_LIMIT))
+      .get();
+    for (const d of snap.docs) {
+      const visitor = d.data() as VisitorRollup;
+      if (visitor.firstSeenAt < since) visitors.set(d.id, visitor);
+    }
+  }
+  return visitors;
+}
+
+/**
+ * Recomputes rollups from raw events on and after `from` (a UTC day):
+ * for backfilling events stored before rollups existed, or repairing them.
+ * Rollups from `from` on are replaced; sessions that started earlier keep
+ * their existing rollup.
+ */
+export async function rebuildRollups(
+  siteId: string,
+  from: string
+): Promise<RebuildReport> {
+  const since = `${from}T00:00:00.000Z`;
+  // every event, since all rollups from `from` on are replaced
+  const events = await loadAllEventsSince(siteId, since);
+
+  const [existingSessions, existingDays] = await Promise.all([
+    siteCollection(siteId, "sessionRollups")
+      .where("lastEventAt", ">=", since)
+      .get(),
+    siteCollection(siteId, "dailyRollups").where("day", ">=", from).get(),
+  ]);
+  const startedEarlier = new Set(
+    existingSessions.docs
+      .filter((d) => d.data().startedAt < since)
+      .map((d) => d.id)
+  );
+  const visitorIds = new Set(
+    events.map((e) => e.visitorId).filter((id) => id !== undefined)
+  );
+  const visitors = await loadVisitorsBefore(siteId, [...visitorIds], since);
+  const touchedVisitors = new Set<string>();
+
+  const sessions: SessionRollup[] = [];
+  const daily = new Map<string, DailyRollup>();
+  for (const [sessionId, sessionEvents] of groupBySession(events)) {
+    if (startedEarlier.has(sessionId)) continue;
+    const visitorId = sessionEvents[0].visitorId;
+    const visitor = visitorId ? visitors.get(visitorId) ?? null : null;
+    const session = foldSession(null, sessionId, sessionEvents, visitor);
+    sessions.push(session);
+    if (visitorId) {
+      visitors.set(visitorId, visitorAfter(visitor, session));
+      touchedVisitors.add(visitorId);
+    }
+
+    const counters = sessionCounters(session);
+    for (const segment of session.segments) {
+      const key = `${session.day}|${session.variantId}|${segment}`;
+      const meta = { day: session.day, variantId: session.variantId, segment };
+      daily.set(key, {
+        ...addCounters(daily.get(key) ?? emptyCounters(), counters),
+        ...meta,
+      });
+    }
+  }
+
+  await commitInChunks(
+    [
+      ...existingDays.docs,
+      ...existingSessions.docs.filter((d) => !startedEarlier.has(d.id)),
+    ],
+    (batch, d) => batch.delete(d.ref)
+  );
+  await commitInChunks(sessions, (batch, s) =>
+    batch.set(sessionRef(siteId, s.sessionId), s)
+  );
+  await commitInChunks([...daily.values()], (batch, r) =>
+    batch.set(dailyRef(siteId, r.day, r.variantId, r.segment), r)
+  );
+  await commitInChunks([...touchedVisitors], (batch, id) => {
+    const visitor = visitors.get(id);
+    if (visitor) batch.set(visitorRef(siteId, id), visitor);
+  });
+
+  return {
+    from,
+    events: events.length,
+    sessions: sessions.length,
+    dailyRollups: daily.size,
+    visitors: touchedVisitors.size,
+    skippedSessions: startedEarlier.size,
+  };
+}
@@ -0,0 +1,553 @@
+// lib/schedule.ts
+// Time-based changes, applied by the scheduler route (/api/scheduler):
+//
+//   scheduledPromotions/{id}     "promote this variant / landing build at T"
+//   experiments/{id}.schedule    start/end times and stop conditions
+//
+// Nothing here bypasses review: due promotions and winning variants go
+// through promoteVariant / promoteLanding, which still require approval at
+// the moment they run. Scheduling moves the variant or build from approved
+// to scheduled; cancelling, or a run that fails, moves it back. Each tick is idempotent, so the route can be called
+// on any schedule (and by hand).
+import type { DocumentData, Transaction } from "firebase-admin/firestore";
+import { db } from "@/lib/firebase";
+import {
+  DEFAULT_ARMS,
+  HOME_EXPERIMENT_ID,
+  isBuiltInArm,
+  type TrafficArm,
+} from "@/lib/assignment";
+import {
+  listExperiments,
+  promoteLanding,
+  promoteVariant,
+  updateExperiment,
+  type Experiment,
+  type ExperimentOutcome,
+  type ExperimentSchedule,
+  type PromotionKind,
+} from "@/lib/experiments";
+import { promotionEntry, reviewFromData } from "@/lib/review";
+import { queryVariantStatsSince } from "@/lib/rollups";
+import { siteCollection, siteDoc } from "@/lib/sites";
+import { compareVariants, type SignificanceResult } from "@/lib/stats";
+
+/** Recorded as the actor when the scheduler promotes a winner. */
+export const SCHEDULER_ACTOR = "scheduler";
+
+const DAY_MS = 86_400_000;
+
+/* ---------- experiment schedules ---------- */
+
+function isTime(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Validates a schedule from the dashboard. Needs at least one way to stop;
+ * `controlId` defaults to built-in arm A (or the first arm) and has to be
+ * one of `arms`.
+ */
+export function parseSchedule(
+  input: unknown,
+  arms: TrafficArm[]
+): { ok: true; schedule: ExperimentSchedule } | { ok: false; error: string } {
+  const raw = (input ?? {}) as Record<string, unknown>;
+  const stop = (raw.stop ?? {}) as Record<string, unknown>;
+
+  for (const key of ["startAt", "endAt"] as const) {
+    if (raw[key] != null && !isTime(raw[key])) {
+      return { ok: false, error: `${key} must be an ISO date-time` };
+    }
+  }
+  const startAt = isTime(raw.startAt)
+    ? new Date(raw.startAt).toISOString()
+    : null;
+  const endAt = isTime(raw.endAt) ? new Date(raw.endAt).toISOString() : null;
+  const startMs = startAt ? Date.parse(startAt) : Date.now();
+  if (endAt && Date.parse(endAt) <= startMs) {
+    return { ok: false, error: "endAt must be after the start" };
+  }
+
+  const positive = (value: unknown, name: string) => {
+    if (value == null || value === "") {
+      return { ok: true as const, value: null };
+    }
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0
+      ? { ok: true as const, value: n }
+      : { ok: false as const, error: `${name} must be a positive number` };
+  };
+  const maxDays = positive(stop.maxDays, "stop.maxDays");
+  if (!maxDays.ok) return maxDays;
+  const maxSessions = positive(stop.maxSessions, "stop.maxSessions");
+  if (!maxSessions.ok) return maxSessions;
+  const onSignificance = stop.onSignificance === true;
+
+  if (!endAt && !maxDays.value && !maxSessions.value && !onSignificance) {
+    return {
+      ok: false,
+      error:
+        "Set at least one stop condition: endAt, stop.maxDays, stop.maxSessions or stop.onSignificance",
+    };
+  }
+
+  const fallbackControl = arms.some(
+    (a) => a.variantId === DEFAULT_ARMS[0].variantId
+  )
+    ? DEFAULT_ARMS[0].variantId
+    : arms[0].variantId;
+  const controlId =
+    typeof raw.controlId === "string" && raw.controlId
+      ? raw.controlId
+      : fallbackControl;
+  if (!arms.some((a) => a.variantId === controlId)) {
+    return { ok: false, error: `controlId ${controlId} is not an arm` };
+  }
+
+  return {
+    ok: true,
+    schedule: {
+      startAt,
+      endAt,
+      stop: {
+        maxDays: maxDays.value,
+        maxSessions: maxSessions.value ? Math.round(maxSessions.value) : null,
+        onSignificance,
+      },
+      controlId,
+      promoteWinner: raw.promoteWinner === true,
+    },
+  };
+}
+
+/** Attaches a schedule and (re)starts the experiment's time box. */
+export async function scheduleExperiment(
+  siteId: string,
+  experimentId: string,
+  schedule: ExperimentSchedule,
+  now: Date = new Date()
+): Promise<Experiment> {
+  const pending =
+    schedule.startAt !== null && Date.parse(schedule.startAt) > now.getTime();
+  return updateExperiment(siteId, experimentId, {
+    schedule,
+    status: pending ? "scheduled" : "running",
+    startedAt: pending ? null : now.toISOString(),
+    outcome: null,
+  });
+}
+
+/**
+ * Drops the time box; the experiment keeps running as configured, from the
+ * same start (the bandit weighs the sessions since then).
+ */
+export async function unscheduleExperiment(
+  siteId: string,
+  experimentId: string
+): Promise<Experiment> {
+  return updateExperiment(siteId, experimentId, {
+    schedule: null,
+    status: "running",
+  });
+}
+
+/**
+ * Which stop condition, if any, has been met. Pure, so the dashboard and
+ * the scheduler agree on what "done" means.
+ */
+export function checkStopConditions(
+  schedule: ExperimentSchedule,
+  startedAt: string,
+  totalSessions: number,
+  significance: Pick<SignificanceResult, "winner" | "reason">,
+  now: Date = new Date()
+): Pick<ExperimentOutcome, "reason" | "detail"> | null {
+  if (schedule.endAt && now.getTime() >= Date.parse(schedule.endAt)) {
+    return {
+      reason: "end_time",
+      detail: `Reached the end time ${schedule.endAt}.`,
+    };
+  }
+
+  const { maxDays, maxSessions, onSignificance } = schedule.stop;
+  const days = (now.getTime() - Date.parse(startedAt)) / DAY_MS;
+  if (maxDays && days >= maxDays) {
+    return { reason: "duration", detail: `Ran for ${maxDays} day(s).` };
+  }
+  if (maxSessions && totalSessions >= maxSessions) {
+    return {
+      reason: "sample_size",
+      detail: `Reached ${totalSessions} of ${maxSessions} sessions.`,
+    };
+  }
+  if (onSignificance && significance.winner) {
+    return { reason: "significance", detail: significance.reason };
+  }
+  return null;
+}
+
+export type ExperimentTick = {
+  experimentId: string;
+  action: "started" | "waiting" | "stopped";
+  detail: string;
+  outcome?: ExperimentOutcome;
+};
+
+async function stopExperiment(
+  siteId: string,
+  experiment: Experiment,
+  schedule: ExperimentSchedule,
+  stop: Pick<ExperimentOutcome, "reason" | "detail">,
+  significance: SignificanceResult,
+  now: Date
+): Promise<ExperimentOutcome> {
+  const winnerId = significance.winner;
+  const keptId = winnerId ?? schedule.controlId;
+
+  let promoted = false;
+  let promotionError: string | undefined;
+  if (schedule.promoteWinner && winnerId && !isBuiltInArm(winnerId)) {
+    try {
+      // Same path as /api/promote-variant, approval check included
+      await promoteVariant(siteId, winnerId, {
+        experimentId: experiment.id,
+        by: SCHEDULER_ACTOR,
+      });
+      promoted = true;
+    } catch (e) {
+      promotionError = (e as Error).message ?? "Unknown error";
+    }
+  }
+
+  const outcome: ExperimentOutcome = {
+    stoppedAt: now.toISOString(),
+    ...stop,
+    winnerId,
+    keptId,
+    promoted,
+    stats: significance.variants.map((v) => ({
+      variantId: v.variantId,
+      sessions: v.sessions,
+      conversions: v.conversions,
+    })),
+  };
+  if (promotionError) outcome.promotionError = promotionError;
+
+  await updateExperiment(siteId, experiment.id, {
+    arms: [{ variantId: keptId, weight: 100 }],
+    status: "stopped",
+    outcome,
+  });
+  return outcome;
+}
+
+async function tickExperiment(
+  siteId: string,
+  experiment: Experiment,
+  schedule: ExperimentSchedule,
+  now: Date
+): Promise<ExperimentTick> {
+  const experimentId = experiment.id;
+
+  if (experiment.status === "scheduled") {
+    if (schedule.startAt && Date.parse(schedule.startAt) > now.getTime()) {
+      return {
+        experimentId,
+        action: "waiting",
+        detail: `Starts at ${schedule.startAt}.`,
+      };
+    }
+    await updateExperiment(siteId, experimentId, {
+      status: "running",
+      startedAt: schedule.startAt ?? now.toISOString(),
+    });
+    return { experimentId, action: "started", detail: "Start time reached." };
+  }
+
+  const startedAt =
+    experiment.startedAt ?? schedule.startAt ?? now.toISOString();
+  const variantIds = experiment.arms.map((a) => a.variantId);
+  const stats = (
+    await queryVariantStatsSince(siteId, startedAt, { variantIds })
+  ).filter((s) => variantIds.includes(s.variantId));
+  const significance = compareVariants(stats, {
+    controlId: schedule.controlId,
+  });
+  const totalSessions = stats.reduce((sum, s) => sum + s.sessions, 0);
+
+  const stop = checkStopConditions(
+    schedule,
+    startedAt,
+    totalSessions,
+    significance,
+    now
+  );
+  if (!stop) {
+    return {
+      experimentId,
+      action: "waiting",
+      detail: `${totalSessions} session(s) so far. ${significance.reason}`,
+    };
+  }
+
+  const outcome = await stopExperiment(
+    siteId,
+    experiment,
+    schedule,
+    stop,
+    significance,
+    now
+  );
+  return { experimentId, action: "stopped", detail: stop.detail, outcome };
+}
+
+/* ---------- scheduled promotions ---------- */
+
+export type ScheduledPromotionStatus =
+  | "pending"
+  | "running"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export type ScheduledPromotion = {
+  id: string;
+  kind: PromotionKind;
+  /** Variant ID or landing slug. */
+  refId: string;
+  experimentId: string;
+  runAt: string;
+  /** Operator who scheduled it; recorded as the promoter. */
+  by: string;
+  status: ScheduledPromotionStatus;
+  createdAt: string;
+  ranAt?: string;
+  error?: string;
+};
+
+function scheduledFromData(id: string, data: DocumentData): ScheduledPromotion {
+  const promotion: ScheduledPromotion = {
+    id,
+    kind: data.kind === "landing" ? "landing" : "variant",
+    refId: data.refId,
+    experimentId: data.experimentId ?? HOME_EXPERIMENT_ID,
+    runAt: data.runAt,
+    by: data.by ?? "unknown",
+    status: data.status ?? "pending",
+    createdAt: data.createdAt ?? "",
+  };
+  if (data.ranAt) promotion.ranAt = data.ranAt;
+  if (data.error) promotion.error = data.error;
+  return promotion;
+}
+
+/** Newest run time first; pass a status to see only the queue or the log. */
+export async function listScheduledPromotions(
+  siteId: string,
+  { status }: { status?: ScheduledPromotionStatus } = {}
+): Promise<ScheduledPromotion[]> {
+  const ref = siteCollection(siteId, "scheduledPromotions");
+  const snap = await (status ? ref.where("status", "==", status) : ref).get();
+  return snap.docs
+    .map((d) => scheduledFromData(d.id, d.data()))
+    .sort((a, b) => b.runAt.localeCompare(a.runAt));
+}
+
+const scheduledRef = (siteId: string, kind: PromotionKind, refId: string) =>
+  siteDoc(siteId, kind === "variant" ? "variants" : "landingPages", refId);
+
+/**
+ * Queues a promotion and marks its variant / build scheduled, in one
+ * transaction; only approved content can be scheduled, so each has at most
+ * one pending promotion. Null when the variant / build doesn't exist.
+ */
+export async function schedulePromotion(
+  siteId: string,
+  input: Pick<ScheduledPromotion, "kind" | "refId" | "runAt" | "by"> & {
+    experimentId?: string;
+  }
+): Promise<
+  | { ok: true; promotion: ScheduledPromotion }
+  | { ok: false; error: string }
+  | null
+> {
+  const now = new Date().toISOString();
+  const data: Omit<ScheduledPromotion, "id"> = {
+    kind: input.kind,
+    refId: input.refId,
+    experimentId: input.experimentId ?? HOME_EXPERIMENT_ID,
+    runAt: new Date(input.runAt).toISOString(),
+    by: input.by,
+    status: "pending",
+    createdAt: now,
+  };
+  const targetRef = scheduledRef(siteId, input.kind, input.refId);
+  const ref = siteCollection(siteId, "scheduledPromotions").doc();
+
+  return db.runTransaction(async (tx) => {
+    const target = await tx.get(targetRef);
+    if (!target.exists) return null;
+    const review = reviewFromData(target.data() ?? {});
+    if (review.status !== "approved") {
+      return {
+        ok: false as const,
+        error: `Only approved content can be scheduled (status: ${review.status})`,
+      };
+    }
+
+    tx.update(targetRef, {
+      status: "scheduled",
+      reviews: [
+        ...review.reviews,
+        promotionEntry(review.status, input.by, now, {
+          action: "schedule",
+          to: "scheduled",
+          comment: `Promotion at ${data.runAt}`,
+        }),
+      ],
+    });
+    tx.set(ref, data);
+    return { ok: true as const, promotion: { ...data, id: ref.id } };
+  });
+}
+
+/**
+ * The write that puts a scheduled variant / build back to approved, ready
+ * for the transaction to apply; null when something else (a manual
+ * promotion, an archive) has moved it on since. Reads the target, so call
+ * it before the transaction's writes.
+ */
+async function unscheduleTarget(
+  tx: Transaction,
+  siteId: string,
+  promotion: Pick<ScheduledPromotion, "kind" | "refId">,
+  by: string,
+  comment: string
+) {
+  const ref = scheduledRef(siteId, promotion.kind, promotion.refId);
+  const snap = await tx.get(ref);
+  const review = reviewFromData(snap.data() ?? {});
+  if (!snap.exists || review.status !== "scheduled") return null;
+
+  return {
+    ref,
+    data: {
+      status: "approved",
+      reviews: [
+        ...review.reviews,
+        promotionEntry(review.status, by, new Date().toISOString(), {
+          action: "unschedule",
+          to: "approved",
+          comment,
+        }),
+      ],
+    },
+  };
+}
+
+/** False when it doesn't exist or has already run. */
+export async function cancelScheduledPromotion(
+  siteId: string,
+  id: string,
+  by: string
+): Promise<boolean> {
+  const ref = siteDoc(siteId, "scheduledPromotions", id);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (snap.get("status") !== "pending") return false;
+
+    const unschedule = await unscheduleTarget(
+      tx,
+      siteId,
+      scheduledFromData(snap.id, snap.data() ?? {}),
+      by,
+      "Scheduled promotion cancelled."
+    );
+    tx.update(ref, { status: "cancelled" });
+    if (unschedule) tx.update(unschedule.ref, unschedule.data);
+    return true;
+  });
+}
+
+/** Moves pending → running; false if another tick got there first. */
+async function claimScheduledPromotion(
+  siteId: string,
+  id: string
+): Promise<boolean> {
+  const ref = siteDoc(siteId, "scheduledPromotions", id);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (snap.get("status") !== "pending") return false;
+    tx.update(ref, { status: "running" });
+    return true;
+  });
+}
+
+async function runScheduledPromotion(
+  siteId: string,
+  promotion: ScheduledPromotion,
+  now: Date
+): Promise<ScheduledPromotion> {
+  const ref = siteDoc(siteId, "scheduledPromotions", promotion.id);
+  const ranAt = now.toISOString();
+  const options = { experimentId: promotion.experimentId, by: promotion.by };
+
+  try {
+    if (promotion.kind === "variant") {
+      await promoteVariant(siteId, promotion.refId, options);
+    } else {
+      await promoteLanding(siteId, promotion.refId, options);
+    }
+    await ref.update({ status: "done", ranAt });
+    return { ...promotion, status: "done", ranAt };
+  } catch (e) {
+    const error = (e as Error).message ?? "Unknown error";
+    await db.runTransaction(async (tx) => {
+      const unschedule = await unscheduleTarget(
+        tx,
+        siteId,
+        promotion,
+        SCHEDULER_ACTOR,
+        `Scheduled promotion failed: ${error}`
+      );
+      tx.update(ref, { status: "failed", ranAt, error });
+      if (unschedule) tx.update(unschedule.ref, unschedule.data);
+    });
+    return { ...promotion, status: "failed", ranAt, error };
+  }
+}
+
+/* ---------- scheduler ---------- */
+
+export type SchedulerRun = {
+  promotions: ScheduledPromotion[];
+  experiments: ExperimentTick[];
+  ranAt: string;
+};
+
+/** One scheduler tick for a site: due promotions first, then time boxes. */
+export async function runScheduler(
+  siteId: string,
+  now: Date = new Date()
+): Promise<SchedulerRun> {
+  const promotions: ScheduledPromotion[] = [];
+  const due = (await listScheduledPromotions(siteId, { status: "pending" }))
+    .filter((p) => Date.parse(p.runAt) <= now.getTime())
+    .sort((a, b) => a.runAt.localeCompare(b.runAt));
+
+  for (const promotion of due) {
+    if (!(await claimScheduledPromotion(siteId, promotion.id))) continue;
+    promotions.push(await runScheduledPromotion(siteId, promotion, now));
+  }
+
+  const experiments: ExperimentTick[] = [];
+  for (const experiment of await listExperiments(siteId)) {
+    if (!experiment.schedule || experiment.status === "stopped") continue;
+    experiments.push(
+      await tickExperiment(siteId, experiment, experiment.schedule, now)
+    );
+  }
+
+  return { promotions, experiments, ranAt: now.toISOString() };
+}
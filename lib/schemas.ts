@@ -0,0 +1,342 @@
+// lib/schemas.ts
+// Runtime schemas for everything the LLM writes. Model output is untrusted
+// input: it only reaches Firestore or a page after passing one of these.
+//
+// Each schema returns the cleaned value plus a list of human-readable errors
+// ("hero.title: expected a non-empty string"). The errors are written so
+// they can be fed straight back to the model in a repair prompt.
+import type { LandingPageSpec } from "@/lib/experiments";
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+export type Schema<T> = {
+  check: (value: unknown, path: string, errors: string[]) => T;
+};
+
+export function validate<T>(
+  schema: Schema<T>,
+  value: unknown
+): ValidationResult<T> {
+  const errors: string[] = [];
+  const result = schema.check(value, "", errors);
+  return errors.length === 0
+    ? { ok: true, value: result }
+    : { ok: false, errors };
+}
+
+/* ---------- building blocks ---------- */
+
+const at = (path: string) => path || "(root)";
+const join = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+function text({
+  max = 400,
+  pattern,
+}: { max?: number; pattern?: [RegExp, string] } = {}): Schema<string> {
+  return {
+    check(value, path, errors) {
+      if (typeof value !== "string" || value.trim().length === 0) {
+        errors.push(`${at(path)}: expected a non-empty string`);
+        return "";
+      }
+      const trimmed = value.trim();
+      if (trimmed.length > max) {
+        errors.push(`${at(path)}: must be at most ${max} characters`);
+      }
+      if (pattern && !pattern[0].test(trimmed)) {
+        errors.push(`${at(path)}: must be ${pattern[1]}`);
+      }
+      return trimmed;
+    },
+  };
+}
+
+function literal<T extends string>(expected: T): Schema<T> {
+  return {
+    check(value, path, errors) {
+      if (value !== expected) {
+        errors.push(`${at(path)}: expected ${JSON.stringify(expected)}`);
+      }
+      return expected;
+    },
+  };
+}
+
+function list<T>(
+  item: Schema<T>,
+  { min = 1, max = 12 }: { min?: number; max?: number } = {}
+): Schema<T[]> {
+  return {
+    check(value, path, errors) {
+      if (!Array.isArray(value)) {
+        errors.push(`${at(path)}: expected an array`);
+        return [];
+      }
+      if (value.length < min || value.length > max) {
+        errors.push(
+          `${at(path)}: expected ${min}–${max} items, got ${value.length}`
+        );
+      }
+      return value.map((v, i) => item.check(v, join(path, i), errors));
+    },
+  };
+}
+
+function object<T extends object>(shape: {
+  [K in keyof T]-?: Schema<T[K]>;
+}): Schema<T> {
+  const keys = Object.keys(shape) as (keyof T & string)[];
+  return {
+    check(value, path, errors) {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        errors.push(`${at(path)}: expected an object`);
+        return {} as T;
+      }
+      const raw = value as Record<string, unknown>;
+      // unknown keys are dropped, not rejected; undefined optionals are
+      // left out because Firestore rejects them
+      const out = {} as T;
+      for (const key of keys) {
+        const v = shape[key].check(raw[key], join(path, key), errors);
+        if (v !== undefined) out[key] = v;
+      }
+      return out;
+    },
+  };
+}
+
+/** Optional field: absent/null passes, anything else must match. */
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check(value, path, errors) {
+      return value === undefined || value === null
+        ? undefined
+        : schema.check(value, path, errors);
+    },
+  };
+}
+
+/** Passes anything through untouched (free-form metadata). */
+const anything: Schema<unknown> = {
+  check: (value) => value,
+};
+
+function oneOf<T extends { type: string }>(variants: {
+  [K in T["type"]]: Schema<Extract<T, { type: K }>>;
+}): Schema<T> {
+  const types = Object.keys(variants) as T["type"][];
+  return {
+    check(value, path, errors) {
+      const type = (value as { type?: unknown } | null)?.type;
+      if (typeof type !== "string" || !types.includes(type as T["type"])) {
+        errors.push(
+          `${join(path, "type")}: expected one of ${types.map((t) => `"${t}"`).join(", ")}`
+        );
+        return value as T;
+      }
+      return variants[type as T["type"]].check(value, path, errors);
+    },
+  };
+}
+
+/* ---------- LandingPageSpec (home page build) ---------- */
+
+export const landingPageSpecSchema: Schema<LandingPageSpec> = object({
+  hero: object({
+    title: text({ max: 140 }),
+    subtitle: text({ max: 400 }),
+    primaryCta: text({ max: 40 }),
+    secondaryCta: text({ max: 40 }),
+    badge: text({ max: 60 }),
+    strip: text({ max: 160 }),
+  }),
+  system: object({
+    currentVariantLabel: text({ max: 60 }),
+    dataSourceLabel: text({ max: 80 }),
+    agentLabel: text({ max: 80 }),
+    description: text({ max: 400 }),
+  }),
+  pillars: list(
+    object({
+      label: text({ max: 40 }),
+      title: text({ max: 120 }),
+      body: text({ max: 400 }),
+    }),
+    { min: 1, max: 6 }
+  ),
+  stackPoints: list(text({ max: 200 }), { min: 1, max: 8 }),
+  editCards: list(
+    object({
+      title: text({ max: 120 }),
+      body: text({ max: 400 }),
+    }),
+    { min: 1, max: 8 }
+  ),
+});
+
+/* ---------- SuggestedVariant (hero copy from the variant agent) ---------- */
+
+export type SuggestedVariant = {
+  fromVariant: string;
+  heroTitle: string;
+  heroSubtitle: string;
+  primaryCta: string;
+  secondaryCta: string;
+  badge: string;
+  meta?: unknown;
+};
+
+export const suggestedVariantSchema = object<SuggestedVariant>({
+  fromVariant: text({ max: 80 }),
+  heroTitle: text({ max: 140 }),
+  heroSubtitle: text({ max: 400 }),
+  primaryCta: text({ max: 40 }),
+  secondaryCta: text({ max: 40 }),
+  badge: text({ max: 60 }),
+  meta: optional(anything),
+});
+
+/* ---------- build / persona page docs ---------- */
+
+export type PageSection =
+  | { type: "section"; title: string; body: string }
+  | { type: "bullets"; title: string; items: string[] }
+  | { type: "cta"; title: string; body: string };
+
+export type BuildPageDoc = {
+  slug: string;
+  name: string;
+  pageTitle: string;
+  heroTitle: string;
+  heroSubtitle: string;
+  primaryCta: string;
+  secondaryCta: string;
+  sections: PageSection[];
+  createdAt?: string;
+};
+
+export type PersonaPageDoc = Omit<BuildPageDoc, "name"> & {
+  personaName: string;
+};
+
+// Slugs become Firestore doc IDs and URL segments.
+const slug = text({
+  max: 80,
+  pattern: [/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "lowercase kebab-case, e.g. build-c"],
+});
+
+const pageSection: Schema<PageSection> = oneOf<PageSection>({
+  section: object({
+    type: literal("section"),
+    title: text({ max: 120 }),
+    body: text({ max: 1200 }),
+  }),
+  bullets: object({
+    type: literal("bullets"),
+    title: text({ max: 120 }),
+    items: list(text({ max: 200 }), { min: 1, max: 10 }),
+  }),
+  cta: object({
+    type: literal("cta"),
+    title: text({ max: 120 }),
+    body: text({ max: 600 }),
+  }),
+});
+
+const pageCopy = {
+  slug,
+  pageTitle: text({ max: 120 }),
+  heroTitle: text({ max: 140 }),
+  heroSubtitle: text({ max: 400 }),
+  primaryCta: text({ max: 60 }),
+  secondaryCta: text({ max: 60 }),
+  sections: list(pageSection, { min: 1, max: 10 }),
+};
+
+// createdAt is set by the server, never taken from the model.
+export const buildPageSchema = object<Omit<BuildPageDoc, "createdAt">>({
+  ...pageCopy,
+  name: text({ max: 120 }),
+});
+
+export const personaPageSchema = object<Omit<PersonaPageDoc, "createdAt">>({
+  ...pageCopy,
+  personaName: text({ max: 120 }),
+});
+
+/* ---------- stored build / persona pages (read side) ---------- */
+
+// Pages saved before generation was validated can lack fields or break the
+// limits above. They're read leniently: apart from the headline, unusable
+// fields fall back to a default and broken sections are dropped, instead of
+// failing the page.
+
+/** `schema`, or `fallback` when the value doesn't pass it. */
+function orDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return {
+    check(value, path) {
+      const errors: string[] = [];
+      const result = schema.check(value, path, errors);
+      return errors.length === 0 ? result : fallback;
+    },
+  };
+}
+
+/** Lists whose invalid items are dropped rather than reported. */
+function compact<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    check(value, path) {
+      if (!Array.isArray(value)) return [];
+      return value.flatMap((v, i) => {
+        const errors: string[] = [];
+        const result = item.check(v, join(path, i), errors);
+        return errors.length === 0 ? [result] : [];
+      });
+    },
+  };
+}
+
+const anyLength = () => text({ max: Number.POSITIVE_INFINITY });
+const storedText = (fallback = "") => orDefault(anyLength(), fallback);
+
+const storedSection: Schema<PageSection> = oneOf<PageSection>({
+  section: object({
+    type: literal("section"),
+    title: storedText(),
+    body: storedText(),
+  }),
+  bullets: object({
+    type: literal("bullets"),
+    title: storedText(),
+    items: compact(anyLength()),
+  }),
+  cta: object({
+    type: literal("cta"),
+    title: storedText(),
+    body: storedText(),
+  }),
+});
+
+const storedPageCopy = {
+  slug: storedText(),
+  pageTitle: storedText(),
+  heroTitle: anyLength(),
+  heroSubtitle: storedText(),
+  primaryCta: storedText("Get started"),
+  secondaryCta: storedText("Learn more"),
+  sections: compact(storedSection),
+  createdAt: optional(storedText()),
+};
+
+export const storedBuildPageSchema = object<BuildPageDoc>({
+  ...storedPageCopy,
+  name: storedText("Untitled build"),
+});
+
+export const storedPersonaPageSchema = object<PersonaPageDoc>({
+  ...storedPageCopy,
+  personaName: storedText("Visitor"),
+});
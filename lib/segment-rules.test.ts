@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { emptySessionStats } from "@/lib/aggregate";
+import type { SessionRollup } from "@/lib/rollups";
+import {
+  describeRules,
+  matchesSegment,
+  parseSegmentInput,
+  type SegmentRule,
+} from "@/lib/segment-rules";
+import type { TrafficTouch } from "@/lib/traffic";
+
+const touch = (source: string, medium: string): TrafficTouch => ({
+  source,
+  medium,
+  campaign: null,
+  term: null,
+  content: null,
+  referrerDomain: null,
+  landingPath: "/",
+  at: "2026-10-05T10:00:00.000Z",
+});
+
+const session = (overrides: Partial<SessionRollup> = {}): SessionRollup => ({
+  ...emptySessionStats("s1", "A"),
+  visitorId: "v1",
+  startedAt: "2026-10-05T10:00:00.000Z",
+  lastEventAt: "2026-10-05T10:05:00.000Z",
+  day: "2026-10-05",
+  segments: ["all", "device:mobile"],
+  visitorFirstSeenAt: "2026-10-05T10:00:00.000Z",
+  source: touch("google", "organic"),
+  firstTouch: touch("google", "organic"),
+  lastTouch: touch("google", "organic"),
+  browser: "Safari",
+  deviceType: "mobile",
+  ...overrides,
+});
+
+describe("parseSegmentInput", () => {
+  it("trims the name and values", () => {
+    expect(
+      parseSegmentInput({
+        name: "  Google mobile ",
+        rules: [{ field: "source", op: "is", values: [" google ", "", 3] }],
+      })
+    ).toEqual({
+      ok: true,
+      segment: {
+        name: "Google mobile",
+        rules: [{ field: "source", op: "is", values: ["google"] }],
+      },
+    });
+  });
+
+  it("requires a name and at least one rule", () => {
+    expect(parseSegmentInput({ name: " ", rules: [] }).ok).toBe(false);
+    expect(parseSegmentInput({ name: "x", rules: [] })).toEqual({
+      ok: false,
+      error: "rules must list 1–10 rules",
+    });
+    expect(parseSegmentInput(null).ok).toBe(false);
+  });
+
+  it("rejects unknown fields and operators the field doesn't take", () => {
+    expect(
+      parseSegmentInput({
+        name: "x",
+        rules: [{ field: "country", op: "is", values: ["de"] }],
+      })
+    ).toEqual({ ok: false, error: "rules[0]: unknown field" });
+    expect(
+      parseSegmentInput({
+        name: "x",
+        rules: [{ field: "browser", op: "before", values: ["Chrome"] }],
+      })
+    ).toEqual({ ok: false, error: "rules[0]: browser takes is, is_not" });
+  });
+
+  it("requires YYYY-MM-DD days for firstVisit", () => {
+    expect(
+      parseSegmentInput({
+        name: "x",
+        rules: [{ field: "firstVisit", op: "after", values: ["5 Oct"] }],
+      })
+    ).toEqual({ ok: false, error: "rules[0]: dates must be YYYY-MM-DD" });
+  });
+});
+
+describe("matchesSegment", () => {
+  const rule = (r: SegmentRule) => [r];
+
+  it("matches any of the values, case-insensitively", () => {
+    expect(
+      matchesSegment(
+        session(),
+        rule({ field: "source", op: "is", values: ["Bing", "GOOGLE"] })
+      )
+    ).toBe(true);
+    expect(
+      matchesSegment(
+        session(),
+        rule({ field: "source", op: "is_not", values: ["google"] })
+      )
+    ).toBe(false);
+  });
+
+  it("needs every rule to match", () => {
+    const rules: SegmentRule[] = [
+      { field: "device", op: "is", values: ["mobile"] },
+      { field: "browser", op: "is", values: ["Chrome"] },
+    ];
+    expect(matchesSegment(session(), rules)).toBe(false);
+    expect(matchesSegment(session({ browser: "Chrome" }), rules)).toBe(true);
+  });
+
+  it("treats unrecorded values as unknown", () => {
+    expect(
+      matchesSegment(
+        session({ lastTouch: null, browser: null }),
+        [
+          { field: "medium", op: "is", values: ["unknown"] },
+          { field: "browser", op: "is", values: ["unknown"] },
+        ]
+      )
+    ).toBe(true);
+  });
+
+  it("tells new and returning visitors apart", () => {
+    const returning = session({
+      visitorFirstSeenAt: "2026-09-20T08:00:00.000Z",
+    });
+    const isReturning = rule({
+      field: "visitorType",
+      op: "is",
+      values: ["returning"],
+    });
+    expect(matchesSegment(session(), isReturning)).toBe(false);
+    expect(matchesSegment(returning, isReturning)).toBe(true);
+  });
+
+  it("compares first-visit days, with after including the day", () => {
+    const firstVisit = (op: "before" | "after", day: string) =>
+      matchesSegment(
+        session(),
+        rule({ field: "firstVisit", op, values: [day] })
+      );
+    expect(firstVisit("after", "2026-10-05")).toBe(true);
+    expect(firstVisit("before", "2026-10-05")).toBe(false);
+    expect(firstVisit("before", "2026-10-06")).toBe(true);
+  });
+});
+
+describe("describeRules", () => {
+  it("joins the rules with their labels", () => {
+    expect(
+      describeRules([
+        { field: "source", op: "is_not", values: ["google", "bing"] },
+        { field: "firstVisit", op: "after", values: ["2026-10-01"] },
+      ])
+    ).toBe(
+      "Source (last touch) is not google or bing · Date of first visit on or after 2026-10-01"
+    );
+  });
+});
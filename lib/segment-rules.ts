@@ -0,0 +1,227 @@
+// lib/segment-rules.ts
+// What a saved segment is and how its rules match a session. Firestore-free
+// so the dashboard's segment editor can import it; storage and queries are
+// in lib/segments.ts.
+import { PERSONAS, sessionPersonas } from "@/lib/aggregate";
+import { DEVICE_CLASSES } from "@/lib/heatmap";
+import type { SessionRollup } from "@/lib/rollups";
+
+export const SEGMENT_FIELDS = [
+  "source",
+  "medium",
+  "campaign",
+  "landingPath",
+  "device",
+  "deviceType",
+  "browser",
+  "visitorType",
+  "persona",
+  "firstVisit",
+] as const;
+
+export type SegmentField = (typeof SEGMENT_FIELDS)[number];
+
+export const SEGMENT_FIELD_LABELS: Record<SegmentField, string> = {
+  source: "Source (last touch)",
+  medium: "Medium (last touch)",
+  campaign: "Campaign (last touch)",
+  landingPath: "Landing path",
+  device: "Device (viewport)",
+  deviceType: "Device (user agent)",
+  browser: "Browser",
+  visitorType: "New vs returning",
+  persona: "Persona",
+  firstVisit: "Date of first visit",
+};
+
+/** Suggested values for fields with a fixed set; the rest are free text. */
+export const SEGMENT_FIELD_VALUES: Partial<Record<SegmentField, string[]>> = {
+  device: [...DEVICE_CLASSES],
+  deviceType: [...DEVICE_CLASSES, "bot"],
+  visitorType: ["new", "returning"],
+  persona: [...PERSONAS],
+};
+
+/**
+ * "is" matches any of the values, "is_not" none of them. "before" and
+ * "after" compare YYYY-MM-DD days and only apply to firstVisit ("after"
+ * includes the day itself).
+ */
+export type SegmentOperator = "is" | "is_not" | "before" | "after";
+
+export const SEGMENT_OPERATOR_LABELS: Record<SegmentOperator, string> = {
+  is: "is",
+  is_not: "is not",
+  before: "before",
+  after: "on or after",
+};
+
+export type SegmentRule = {
+  field: SegmentField;
+  op: SegmentOperator;
+  values: string[];
+};
+
+export type Segment = {
+  id: string;
+  name: string;
+  /** All rules have to match. */
+  rules: SegmentRule[];
+  by: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Prefix that tells saved segments apart from built-in ones ("device:mobile"). */
+export const SAVED_SEGMENT_PREFIX = "saved:";
+
+export const isSavedSegment = (segment: string) =>
+  segment.startsWith(SAVED_SEGMENT_PREFIX);
+
+export const savedSegmentKey = (id: string) => `${SAVED_SEGMENT_PREFIX}${id}`;
+
+const DATE_OPERATORS: SegmentOperator[] = ["is", "before", "after"];
+const VALUE_OPERATORS: SegmentOperator[] = ["is", "is_not"];
+
+export const operatorsFor = (field: SegmentField) =>
+  field === "firstVisit" ? DATE_OPERATORS : VALUE_OPERATORS;
+
+const MAX_NAME_LENGTH = 80;
+const MAX_RULES = 10;
+const MAX_VALUES = 20;
+const MAX_VALUE_LENGTH = 100;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Validates a segment from the dashboard; values are trimmed. */
+export function parseSegmentInput(
+  input: unknown
+):
+  | { ok: true; segment: Pick<Segment, "name" | "rules"> }
+  | { ok: false; error: string } {
+  const raw = (input ?? {}) as Record<string, unknown>;
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return { ok: false, error: `name must be 1–${MAX_NAME_LENGTH} characters` };
+  }
+  if (
+    !Array.isArray(raw.rules) ||
+    raw.rules.length === 0 ||
+    raw.rules.length > MAX_RULES
+  ) {
+    return { ok: false, error: `rules must list 1–${MAX_RULES} rules` };
+  }
+
+  const rules: SegmentRule[] = [];
+  for (const [i, item] of raw.rules.entries()) {
+    const rule = (item ?? {}) as Record<string, unknown>;
+    const field = rule.field as SegmentField;
+    if (!SEGMENT_FIELDS.includes(field)) {
+      return { ok: false, error: `rules[${i}]: unknown field` };
+    }
+    const op = rule.op as SegmentOperator;
+    if (!operatorsFor(field).includes(op)) {
+      return {
+        ok: false,
+        error: `rules[${i}]: ${field} takes ${operatorsFor(field).join(", ")}`,
+      };
+    }
+    const values = Array.isArray(rule.values)
+      ? rule.values
+          .filter((v): v is string => typeof v === "string")
+          .map((v) => v.trim())
+          .filter(Boolean)
+      : [];
+    if (
+      values.length === 0 ||
+      values.length > MAX_VALUES ||
+      values.some((v) => v.length > MAX_VALUE_LENGTH)
+    ) {
+      return {
+        ok: false,
+        error: `rules[${i}]: values must list 1–${MAX_VALUES} values`,
+      };
+    }
+    if (field === "firstVisit" && !values.every((v) => DAY_PATTERN.test(v))) {
+      return { ok: false, error: `rules[${i}]: dates must be YYYY-MM-DD` };
+    }
+    rules.push({ field, op, values });
+  }
+
+  return { ok: true, segment: { name, rules } };
+}
+
+/** A visitor is returning once a session starts after their first one. */
+export const isReturningSession = (session: SessionRollup) =>
+  session.visitorFirstSeenAt !== null &&
+  session.visitorFirstSeenAt < session.startedAt;
+
+/** A session's values for a field; unrecorded ones come back as "unknown". */
+export function sessionValues(
+  session: SessionRollup,
+  field: SegmentField
+): string[] {
+  const known = (value: string | null | undefined) => [value ?? "unknown"];
+  switch (field) {
+    case "source":
+      return known(session.lastTouch?.source);
+    case "medium":
+      return known(session.lastTouch?.medium);
+    case "campaign":
+      return known(session.lastTouch?.campaign);
+    case "landingPath":
+      return known(session.source?.landingPath);
+    case "device":
+      return known(
+        session.segments
+          .find((s) => s.startsWith("device:"))
+          ?.slice("device:".length)
+      );
+    case "deviceType":
+      return known(session.deviceType);
+    case "browser":
+      return known(session.browser);
+    case "visitorType":
+      return [isReturningSession(session) ? "returning" : "new"];
+    case "persona":
+      return sessionPersonas(session);
+    case "firstVisit":
+      return [(session.visitorFirstSeenAt ?? session.startedAt).slice(0, 10)];
+  }
+}
+
+function matchesRule(session: SessionRollup, rule: SegmentRule): boolean {
+  const actual = sessionValues(session, rule.field).map((v) =>
+    v.toLowerCase()
+  );
+  const wanted = rule.values.map((v) => v.toLowerCase());
+  const any = actual.some((v) => wanted.includes(v));
+
+  switch (rule.op) {
+    case "is":
+      return any;
+    case "is_not":
+      return !any;
+    case "before":
+      return actual.some((day) => day < wanted[0]);
+    case "after":
+      return actual.some((day) => day >= wanted[0]);
+  }
+}
+
+export function matchesSegment(
+  session: SessionRollup,
+  rules: SegmentRule[]
+): boolean {
+  return rules.every((rule) => matchesRule(session, rule));
+}
+
+/** "Source is google or bing · New vs returning is returning" */
+export function describeRules(rules: SegmentRule[]): string {
+  return rules
+    .map(
+      (r) =>
+        `${SEGMENT_FIELD_LABELS[r.field]} ${SEGMENT_OPERATOR_LABELS[r.op]} ` +
+        r.values.join(" or ")
+    )
+    .join(" · ");
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { emptySessionStats } from "@/lib/aggregate";
+import type { SessionRollup } from "@/lib/rollups";
+import { computeCohorts, weekOf } from "@/lib/segments";
+
+// a Wednesday; its week starts Monday 2026-10-12
+const now = new Date("2026-10-14T12:00:00.000Z");
+
+const session = (
+  visitorId: string | null,
+  startedAt: string,
+  visitorFirstSeenAt: string | null = startedAt
+): SessionRollup => ({
+  ...emptySessionStats(`${visitorId}-${startedAt}`, "A"),
+  visitorId,
+  startedAt,
+  lastEventAt: startedAt,
+  day: startedAt.slice(0, 10),
+  segments: ["all"],
+  visitorFirstSeenAt,
+  source: null,
+  firstTouch: null,
+  lastTouch: null,
+  browser: null,
+  deviceType: null,
+});
+
+describe("weekOf", () => {
+  it("is the Monday of the UTC week", () => {
+    expect(weekOf("2026-10-14T23:59:00.000Z")).toBe("2026-10-12");
+    expect(weekOf("2026-10-12T00:00:00.000Z")).toBe("2026-10-12");
+    expect(weekOf("2026-10-18T12:00:00.000Z")).toBe("2026-10-12");
+  });
+});
+
+describe("computeCohorts", () => {
+  it("groups visitors by first week and tracks who came back, newest first", () => {
+    const first = "2026-09-28T09:00:00.000Z";
+    const cohorts = computeCohorts(
+      [
+        session("v1", first),
+        session("v1", "2026-10-06T09:00:00.000Z", first),
+        session("v2", "2026-09-29T09:00:00.000Z"),
+        session("v3", "2026-10-13T09:00:00.000Z"),
+      ],
+      3,
+      now
+    );
+
+    expect(cohorts).toEqual([
+      { week: "2026-10-12", visitors: 1, retention: [1, null, null] },
+      { week: "2026-09-28", visitors: 2, retention: [1, 0.5, 0] },
+    ]);
+  });
+
+  it("skips visitors first seen before the window and anonymous sessions", () => {
+    const cohorts = computeCohorts(
+      [
+        session("old", "2026-10-13T09:00:00.000Z", "2026-08-01T09:00:00.000Z"),
+        session(null, "2026-10-13T09:00:00.000Z", null),
+      ],
+      4,
+      now
+    );
+    expect(cohorts).toEqual([]);
+  });
+});
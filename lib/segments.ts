@@ -0,0 +1,238 @@
+// lib/segments.ts
+// Saved segments (segments/{id}, rules in lib/segment-rules.ts) and the
+// queries every dashboard view filters by. A segment key is either built in
+// ("all", "device:mobile", "source:google", … straight from the daily
+// rollups) or "saved:{id}", whose rules run over the session rollups in
+// the range.
+import type { DocumentData } from "firebase-admin/firestore";
+import {
+  loadDailyRollups,
+  loadSessionsInRange,
+  rollupSessions,
+  type DailyRollup,
+  type RollupRange,
+  type SessionRollup,
+  type SessionSample,
+} from "@/lib/rollups";
+import {
+  isSavedSegment,
+  matchesSegment,
+  SAVED_SEGMENT_PREFIX,
+  type Segment,
+} from "@/lib/segment-rules";
+import { siteCollection, siteDoc } from "@/lib/sites";
+
+/* ---------- storage ---------- */
+
+function segmentFromData(id: string, data: DocumentData): Segment {
+  return {
+    id,
+    name: data.name ?? id,
+    rules: data.rules ?? [],
+    by: data.by ?? "unknown",
+    createdAt: data.createdAt ?? "",
+    updatedAt: data.updatedAt ?? data.createdAt ?? "",
+  };
+}
+
+export async function listSegments(siteId: string): Promise<Segment[]> {
+  const snap = await siteCollection(siteId, "segments").get();
+  return snap.docs
+    .map((d) => segmentFromData(d.id, d.data()))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getSegment(
+  siteId: string,
+  id: string
+): Promise<Segment | null> {
+  const snap = await siteDoc(siteId, "segments", id).get();
+  return snap.exists ? segmentFromData(snap.id, snap.data() ?? {}) : null;
+}
+
+export async function createSegment(
+  siteId: string,
+  input: Pick<Segment, "name" | "rules" | "by">
+): Promise<Segment> {
+  const now = new Date().toISOString();
+  const data: Omit<Segment, "id"> = {
+    ...input,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const ref = await siteCollection(siteId, "segments").add(data);
+  return { ...data, id: ref.id };
+}
+
+/** Null when it doesn't exist. */
+export async function updateSegment(
+  siteId: string,
+  id: string,
+  input: Pick<Segment, "name" | "rules" | "by">
+): Promise<Segment | null> {
+  const existing = await getSegment(siteId, id);
+  if (!existing) return null;
+  const changes = { ...input, updatedAt: new Date().toISOString() };
+  await siteDoc(siteId, "segments", id).update(changes);
+  return { ...existing, ...changes };
+}
+
+/** False when it doesn't exist. */
+export async function deleteSegment(
+  siteId: string,
+  id: string
+): Promise<boolean> {
+  const ref = siteDoc(siteId, "segments", id);
+  const snap = await ref.get();
+  if (!snap.exists) return false;
+  await ref.delete();
+  return true;
+}
+
+/* ---------- queries ---------- */
+
+/**
+ * Sessions in a segment that started within the range (capped, see
+ * loadSessionsInRange; a saved segment is matched against the capped
+ * sessions of all visitors). Null for a saved segment that doesn't exist.
+ */
+export async function loadSegmentSessions(
+  siteId: string,
+  range: RollupRange,
+  segment: string
+): Promise<SessionSample | null> {
+  if (!isSavedSegment(segment)) {
+    return loadSessionsInRange(siteId, range, segment);
+  }
+  const saved = await getSegment(
+    siteId,
+    segment.slice(SAVED_SEGMENT_PREFIX.length)
+  );
+  if (!saved) return null;
+  const { sessions, truncated } = await loadSessionsInRange(siteId, range);
+  return {
+    sessions: sessions.filter((s) => matchesSegment(s, saved.rules)),
+    truncated,
+  };
+}
+
+/**
+ * Daily rollups for a segment: stored ones for built-in segments, computed
+ * from the matching sessions for saved ones (`truncated` as for
+ * loadSegmentSessions). Null for an unknown saved segment.
+ */
+export async function loadSegmentRollups(
+  siteId: string,
+  range: RollupRange,
+  segment: string
+): Promise<{ rollups: DailyRollup[]; truncated: boolean } | null> {
+  if (!isSavedSegment(segment)) {
+    const rollups = await loadDailyRollups(siteId, range, segment);
+    return { rollups, truncated: false };
+  }
+  const sample = await loadSegmentSessions(siteId, range, segment);
+  return (
+    sample && {
+      rollups: rollupSessions(sample.sessions, segment),
+      truncated: sample.truncated,
+    }
+  );
+}
+
+/* ---------- cohorts ---------- */
+
+export type CohortRow = {
+  /** Monday (UTC) of the week the visitors were first seen. */
+  week: string;
+  visitors: number;
+  /**
+   * Share of the cohort with a session in week 0, 1, 2, … after it; null
+   * for weeks that haven't happened yet.
+   */
+  retention: (number | null)[];
+};
+
+const WEEK_MS = 7 * 86_400_000;
+
+/** Monday of the UTC week `iso` falls in, YYYY-MM-DD. */
+export function weekOf(iso: string): string {
+  const date = new Date(iso.slice(0, 10));
+  const sinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - sinceMonday * 86_400_000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/** Monday of the earliest of the `weeks` weeks up to and including now. */
+function firstCohortWeek(now: Date, weeks: number): string {
+  const start = Date.parse(weekOf(now.toISOString())) - (weeks - 1) * WEEK_MS;
+  return new Date(start).toISOString().slice(0, 10);
+}
+
+/**
+ * Weekly retention cohorts from `weeks` weeks of sessions, newest cohort
+ * first. Visitors first seen before the first week aren't assigned a
+ * cohort; sessions without a visitor ID are skipped.
+ */
+export function computeCohorts(
+  sessions: SessionRollup[],
+  weeks: number,
+  now: Date = new Date()
+): CohortRow[] {
+  const currentWeek = weekOf(now.toISOString());
+  const firstWeek = firstCohortWeek(now, weeks);
+
+  // cohort week → visitor → weeks since the cohort week with a session
+  const cohorts = new Map<string, Map<string, Set<number>>>();
+  for (const s of sessions) {
+    if (!s.visitorId || !s.visitorFirstSeenAt) continue;
+    const cohort = weekOf(s.visitorFirstSeenAt);
+    if (cohort < firstWeek) continue;
+    const offset = Math.round(
+      (Date.parse(weekOf(s.startedAt)) - Date.parse(cohort)) / WEEK_MS
+    );
+    const visitors = cohorts.get(cohort) ?? new Map<string, Set<number>>();
+    const active = visitors.get(s.visitorId) ?? new Set<number>();
+    active.add(offset);
+    visitors.set(s.visitorId, active);
+    cohorts.set(cohort, visitors);
+  }
+
+  return [...cohorts]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([week, visitors]) => {
+      const elapsed = Math.round(
+        (Date.parse(currentWeek) - Date.parse(week)) / WEEK_MS
+      );
+      const retention = Array.from({ length: weeks }, (_, offset) => {
+        if (offset > elapsed) return null;
+        const active = [...visitors.values()].filter((weeksActive) =>
+          weeksActive.has(offset)
+        ).length;
+        return active / visitors.size;
+      });
+      return { week, visitors: visitors.size, retention };
+    });
+}
+
+/**
+ * Cohorts over the last `weeks` weeks of sessions in a segment;
+ * `truncated` as for loadSegmentSessions.
+ */
+export async function queryCohorts(
+  siteId: string,
+  { weeks, segment }: { weeks: number; segment: string },
+  now: Date = new Date()
+): Promise<{ cohorts: CohortRow[]; truncated: boolean } | null> {
+  const sample = await loadSegmentSessions(
+    siteId,
+    { from: firstCohortWeek(now, weeks), to: now.toISOString().slice(0, 10) },
+    segment
+  );
+  return (
+    sample && {
+      cohorts: computeCohorts(sample.sessions, weeks, now),
+      truncated: sample.truncated,
+    }
+  );
+}
@@ -0,0 +1,101 @@
+// lib/session.ts
+// Signed session cookie for dashboard operators. Kept free of Firestore so
+// proxy.ts can check it on every dashboard request.
+//
+//   cmx_auth = base64url({ email, exp }) + "." + HMAC-SHA256(AUTH_SECRET)
+//
+// The cookie only proves who the operator is; their role is looked up on
+// each request (lib/auth.ts), so demoting or removing someone takes effect
+// immediately.
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export const SESSION_COOKIE = "cmx_auth";
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type SessionClaims = {
+  email: string;
+  /** Epoch milliseconds. */
+  exp: number;
+};
+
+let warnedMissingSecret = false;
+
+function secret(): string {
+  const configured = process.env.AUTH_SECRET;
+  if (configured) return configured;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_SECRET must be set in production");
+  }
+  if (!warnedMissingSecret) {
+    console.warn("AUTH_SECRET is not set – using an insecure dev secret.");
+    warnedMissingSecret = true;
+  }
+  return "cmindx-dev-secret";
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", secret()).update(payload).digest("base64url");
+}
+
+export function createSessionToken(
+  email: string,
+  now: number = Date.now()
+): string {
+  const claims: SessionClaims = { email, exp: now + SESSION_TTL_MS };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/** The claims of a valid, unexpired token; null for anything else. */
+export function verifySessionToken(
+  token: string | null | undefined,
+  now: number = Date.now()
+): SessionClaims | null {
+  if (!token) return null;
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8")
+    ) as SessionClaims;
+    if (typeof claims.email !== "string" || typeof claims.exp !== "number") {
+      return null;
+    }
+    return claims.exp > now ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+export function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.get("cookie");
+  if (!header) return null;
+
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return null;
+}
+
+/** Set-Cookie value for a fresh session, or one that clears it. */
+export function sessionCookie(token: string | null): string {
+  const attributes = [
+    `${SESSION_COOKIE}=${token ?? ""}`,
+    "Path=/",
+    "HttpOnly",
+    "SameSite=Lax",
+    `Max-Age=${token ? Math.floor(SESSION_TTL_MS / 1000) : 0}`,
+  ];
+  if (process.env.NODE_ENV === "production") attributes.push("Secure");
+  return attributes.join("; ");
+}
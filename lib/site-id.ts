@@ -0,0 +1,24 @@
+// lib/site-id.ts
+// Site ID constants and ID checks, kept free of Firestore so client bundles
+// (the analytics hook, the embed snippet) can use them cheaply. See
+// lib/sites.ts.
+
+export const DEFAULT_SITE_ID = "default";
+
+/** The site this deployment's own pages belong to. */
+export const CURRENT_SITE_ID =
+  process.env.NEXT_PUBLIC_SITE_ID || DEFAULT_SITE_ID;
+
+const SITE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+export function isSiteId(value: unknown): value is string {
+  return typeof value === "string" && SITE_ID_PATTERN.test(value);
+}
+
+/**
+ * Whether a client-supplied value is safe as a doc ID: "/" would change the
+ * path, and "." / ".." aren't allowed at all.
+ */
+export function isDocId(value: unknown): value is string {
+  return typeof value === "string" && /^[\w-]{1,128}$/.test(value);
+}
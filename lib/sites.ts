@@ -0,0 +1,127 @@
+// lib/sites.ts
+// Sites (projects) scope every piece of data: events, variants, landing and
+// persona pages, experiments and agent settings.
+//
+//   default site     top-level collections (events, variants, settings/…)
+//   any other site   sites/{siteId}/events, sites/{siteId}/variants, …
+//
+// The default site keeps the original top-level layout so data written
+// before sites existed needs no migration. Always build paths with
+// siteCollection / siteDoc rather than db.collection(…).
+import { db } from "@/lib/firebase";
+import type {
+  CollectionReference,
+  DocumentReference,
+} from "firebase-admin/firestore";
+import { CURRENT_SITE_ID, DEFAULT_SITE_ID, isSiteId } from "@/lib/site-id";
+
+export {
+  CURRENT_SITE_ID,
+  DEFAULT_SITE_ID,
+  isDocId,
+  isSiteId,
+} from "@/lib/site-id";
+
+export type Site = {
+  id: string;
+  name: string;
+  /** Public origin of the marketing site, e.g. https://example.com */
+  domain: string | null;
+  createdAt: string;
+};
+
+const DEFAULT_SITE: Site = {
+  id: DEFAULT_SITE_ID,
+  name: "cMindX",
+  domain: null,
+  createdAt: "",
+};
+
+function siteSegments(siteId: string): string[] {
+  return siteId === DEFAULT_SITE_ID ? [] : ["sites", siteId];
+}
+
+export function siteCollection(
+  siteId: string,
+  name: string,
+  ...segments: string[]
+): CollectionReference {
+  return db.collection([...siteSegments(siteId), name, ...segments].join("/"));
+}
+
+export function siteDoc(
+  siteId: string,
+  name: string,
+  id: string,
+  ...segments: string[]
+): DocumentReference {
+  return db.doc([...siteSegments(siteId), name, id, ...segments].join("/"));
+}
+
+/* ---------- registry ---------- */
+
+export async function getSite(siteId: string): Promise<Site | null> {
+  const snap = await db.collection("sites").doc(siteId).get();
+  if (!snap.exists) {
+    return siteId === DEFAULT_SITE_ID ? DEFAULT_SITE : null;
+  }
+
+  const data = snap.data() ?? {};
+  return {
+    id: siteId,
+    name: data.name ?? siteId,
+    domain: data.domain ?? null,
+    createdAt: data.createdAt ?? "",
+  };
+}
+
+/** All sites, the default one first. */
+export async function listSites(): Promise<Site[]> {
+  const snap = await db.collection("sites").get();
+  const sites = await Promise.all(snap.docs.map((d) => getSite(d.id)));
+  const registered = sites.filter((s): s is Site => s !== null);
+
+  return registered.some((s) => s.id === DEFAULT_SITE_ID)
+    ? [
+        ...registered.filter((s) => s.id === DEFAULT_SITE_ID),
+        ...registered.filter((s) => s.id !== DEFAULT_SITE_ID),
+      ]
+    : [DEFAULT_SITE, ...registered];
+}
+
+export async function saveSite(
+  siteId: string,
+  patch: { name?: string; domain?: string | null }
+): Promise<Site> {
+  const existing = await getSite(siteId);
+  const data: Omit<Site, "id"> = {
+    name: patch.name ?? existing?.name ?? siteId,
+    domain: patch.domain !== undefined ? patch.domain : existing?.domain ?? null,
+    createdAt: existing?.createdAt || new Date().toISOString(),
+  };
+
+  await db.collection("sites").doc(siteId).set(data);
+  return { ...data, id: siteId };
+}
+
+/* ---------- request helpers ---------- */
+
+/**
+ * Site ID from `?siteId=` or a JSON body's `siteId`, falling back to this
+ * deployment's site (CURRENT_SITE_ID, the same one its pages and analytics
+ * hook use). Returns null for malformed or unregistered IDs (respond 404)
+ * so a typo can't silently write into a new, empty site.
+ */
+export async function resolveSiteId(
+  req: Request,
+  body?: { siteId?: unknown } | null
+): Promise<string | null> {
+  const raw =
+    new URL(req.url).searchParams.get("siteId") ?? body?.siteId ?? undefined;
+
+  if (raw === undefined || raw === "") return CURRENT_SITE_ID;
+  if (!isSiteId(raw)) return null;
+  if (raw === DEFAULT_SITE_ID || raw === CURRENT_SITE_ID) return raw;
+
+  return (await getSite(raw)) ? raw : null;
+}
@@ -0,0 +1,61 @@
+// lib/spec-diff.ts
+// Field-level diff between two versions of live content (landing specs or
+// hero copy). Pure and Firestore-free so the dashboard can diff the
+// snapshots in the promotion log without another round trip.
+
+export type FieldChange = {
+  /** Dotted path, with list positions in brackets: "pillars[1].title". */
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: string;
+  after?: string;
+};
+
+type Leaf = string | number | boolean | null;
+
+function flatten(
+  value: unknown,
+  path: string,
+  out: Map<string, Leaf>
+): Map<string, Leaf> {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => flatten(item, `${path}[${i}]`, out));
+  } else if (value !== null && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, path ? `${path}.${key}` : key, out);
+    }
+  } else if (value !== undefined) {
+    out.set(path, value as Leaf);
+  }
+  return out;
+}
+
+/**
+ * Every leaf that differs between `before` and `after`, in `after`'s field
+ * order (removed fields last). Identical inputs give an empty list.
+ */
+export function diffContent(before: unknown, after: unknown): FieldChange[] {
+  const a = flatten(before, "", new Map());
+  const b = flatten(after, "", new Map());
+  const changes: FieldChange[] = [];
+
+  for (const [path, value] of b) {
+    if (!a.has(path)) {
+      changes.push({ path, kind: "added", after: String(value) });
+    } else if (a.get(path) !== value) {
+      changes.push({
+        path,
+        kind: "changed",
+        before: String(a.get(path)),
+        after: String(value),
+      });
+    }
+  }
+  for (const [path, value] of a) {
+    if (!b.has(path)) {
+      changes.push({ path, kind: "removed", before: String(value) });
+    }
+  }
+
+  return changes;
+}
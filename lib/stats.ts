@@ -0,0 +1,300 @@
+// lib/stats.ts
+// Significance maths for comparing variant conversion rates. Pure functions,
+// safe to use from both API routes and client components.
+import type { VariantStats } from "@/lib/aggregate";
+
+export type SignificanceOptions = {
+  /** Variant the challengers are compared against. */
+  controlId?: string;
+  /** Two-sided significance level before multiple-comparison correction. */
+  alpha?: number;
+  /** Every compared variant needs at least this many sessions. */
+  minSessions?: number;
+  /** Required Bayesian probability that the winner is the best arm. */
+  probabilityThreshold?: number;
+  /** Monte Carlo draws for probability-to-be-best. */
+  draws?: number;
+};
+
+export type VariantSignificance = {
+  variantId: string;
+  sessions: number;
+  conversions: number;
+  conversionRate: number | null;
+  /** 95% Wilson score interval for the conversion rate. */
+  confidenceInterval: [number, number] | null;
+  /** Relative lift over the control's conversion rate. */
+  liftVsControl: number | null;
+  /** Two-sided two-proportion z-test against the control. */
+  pValueVsControl: number | null;
+  probabilityToBeBest: number;
+};
+
+export type SignificanceResult = {
+  controlId: string;
+  variants: VariantSignificance[];
+  /** Only set once the result clears every check below. */
+  winner: string | null;
+  leader: string | null;
+  reason: string;
+  settings: Required<Omit<SignificanceOptions, "controlId">>;
+};
+
+const DEFAULTS = {
+  alpha: 0.05,
+  minSessions: 100,
+  probabilityThreshold: 0.95,
+  draws: 20000,
+};
+
+const Z_95 = 1.959964;
+
+/** Abramowitz & Stegun 7.1.26; accurate to ~1.5e-7, plenty for p-values. */
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-ax * ax);
+  return sign * y;
+}
+
+export function normalCdf(x: number): number {
+  return 0.5 * (1 + erf(x / Math.SQRT2));
+}
+
+export function wilsonInterval(
+  successes: number,
+  trials: number,
+  z: number = Z_95
+): [number, number] | null {
+  if (trials <= 0) return null;
+  const p = successes / trials;
+  const z2 = z * z;
+  const denom = 1 + z2 / trials;
+  const centre = (p + z2 / (2 * trials)) / denom;
+  const half =
+    (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) /
+    denom;
+  return [Math.max(0, centre - half), Math.min(1, centre + half)];
+}
+
+/** Two-sided pooled two-proportion z-test. */
+export function twoProportionPValue(
+  c1: number,
+  n1: number,
+  c2: number,
+  n2: number
+): number | null {
+  if (n1 <= 0 || n2 <= 0) return null;
+  const pooled = (c1 + c2) / (n1 + n2);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  if (se === 0) return 1;
+  const z = (c1 / n1 - c2 / n2) / se;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Seeded PRNG (mulberry32) so probability-to-be-best is stable between
+ * refreshes for the same data instead of jittering in the dashboard.
+ */
+function createRng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(rng: () => number): number {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Marsaglia–Tsang gamma sampler (shape >= 1, which Beta(1 + x) guarantees). */
+function sampleGamma(shape: number, rng: () => number): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+export function sampleBeta(
+  alpha: number,
+  beta: number,
+  rng: () => number
+): number {
+  const x = sampleGamma(alpha, rng);
+  const y = sampleGamma(beta, rng);
+  return x / (x + y);
+}
+
+/**
+ * Monte Carlo estimate of P(arm i has the highest true conversion rate)
+ * under independent Beta(1 + conversions, 1 + failures) posteriors.
+ */
+export function probabilityToBeBest(
+  arms: { conversions: number; sessions: number }[],
+  draws: number = DEFAULTS.draws,
+  seed = 42
+): number[] {
+  const wins = arms.map(() => 0);
+  if (arms.length === 0) return wins;
+
+  const rng = createRng(seed);
+  for (let i = 0; i < draws; i++) {
+    let best = -1;
+    let bestValue = -1;
+    arms.forEach((arm, idx) => {
+      const value = sampleBeta(
+        1 + arm.conversions,
+        1 + Math.max(0, arm.sessions - arm.conversions),
+        rng
+      );
+      if (value > bestValue) {
+        bestValue = value;
+        best = idx;
+      }
+    });
+    wins[best] += 1;
+  }
+
+  return wins.map((w) => w / draws);
+}
+
+/**
+ * Compares variants on their primary-goal conversion rate. A winner is only
+ * declared when every variant has enough sessions, the leader is the likely
+ * best arm, and it beats the runner-up at the Bonferroni-corrected level.
+ */
+export function compareVariants(
+  stats: VariantStats[],
+  options: SignificanceOptions = {}
+): SignificanceResult {
+  const settings = {
+    alpha: options.alpha ?? DEFAULTS.alpha,
+    minSessions: options.minSessions ?? DEFAULTS.minSessions,
+    probabilityThreshold:
+      options.probabilityThreshold ?? DEFAULTS.probabilityThreshold,
+    draws: options.draws ?? DEFAULTS.draws,
+  };
+
+  const arms = stats.filter((s) => s.sessions > 0);
+  const controlId =
+    options.controlId && arms.some((s) => s.variantId === options.controlId)
+      ? options.controlId
+      : arms[0]?.variantId ?? options.controlId ?? "A";
+  const control = arms.find((s) => s.variantId === controlId);
+
+  const probabilities = probabilityToBeBest(arms, settings.draws);
+
+  const variants: VariantSignificance[] = arms.map((s, i) => {
+    const isControl = s.variantId === controlId;
+    const rate = s.conversionRate;
+    const controlRate = control?.conversionRate ?? null;
+    return {
+      variantId: s.variantId,
+      sessions: s.sessions,
+      conversions: s.conversions,
+      conversionRate: rate,
+      confidenceInterval: wilsonInterval(s.conversions, s.sessions),
+      liftVsControl:
+        !isControl && rate !== null && controlRate
+          ? (rate - controlRate) / controlRate
+          : null,
+      pValueVsControl:
+        !isControl && control
+          ? twoProportionPValue(
+              s.conversions,
+              s.sessions,
+              control.conversions,
+              control.sessions
+            )
+          : null,
+      probabilityToBeBest: probabilities[i],
+    };
+  });
+
+  const base = { controlId, variants, settings };
+
+  if (variants.length < 2) {
+    return {
+      ...base,
+      winner: null,
+      leader: variants[0]?.variantId ?? null,
+      reason: "Need traffic on at least two variants.",
+    };
+  }
+
+  const ranked = [...variants].sort(
+    (a, b) => (b.conversionRate ?? 0) - (a.conversionRate ?? 0)
+  );
+  const [leader, runnerUp] = ranked;
+
+  const underpowered = variants.filter(
+    (v) => v.sessions < settings.minSessions
+  );
+  if (underpowered.length > 0) {
+    return {
+      ...base,
+      winner: null,
+      leader: leader.variantId,
+      reason: `Waiting for ${settings.minSessions} sessions per variant (${underpowered
+        .map((v) => `${v.variantId}: ${v.sessions}`)
+        .join(", ")}).`,
+    };
+  }
+
+  const correctedAlpha = settings.alpha / (variants.length - 1);
+  const pValue =
+    twoProportionPValue(
+      leader.conversions,
+      leader.sessions,
+      runnerUp.conversions,
+      runnerUp.sessions
+    ) ?? 1;
+
+  if (pValue >= correctedAlpha) {
+    return {
+      ...base,
+      winner: null,
+      leader: leader.variantId,
+      reason: `Not significant yet (p = ${pValue.toFixed(3)} vs ${runnerUp.variantId}, need < ${correctedAlpha.toFixed(3)}).`,
+    };
+  }
+
+  if (leader.probabilityToBeBest < settings.probabilityThreshold) {
+    return {
+      ...base,
+      winner: null,
+      leader: leader.variantId,
+      reason: `Probability to be best is ${(leader.probabilityToBeBest * 100).toFixed(1)}%, need ${(settings.probabilityThreshold * 100).toFixed(0)}%.`,
+    };
+  }
+
+  return {
+    ...base,
+    winner: leader.variantId,
+    leader: leader.variantId,
+    reason: `Variant ${leader.variantId} beats ${runnerUp.variantId} (p = ${pValue.toFixed(4)}, ${(leader.probabilityToBeBest * 100).toFixed(1)}% to be best).`,
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { parseUserAgent, touchFromPageview } from "@/lib/traffic";
+
+const UA = {
+  chromeMac:
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36",
+  edgeWindows:
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.0.0",
+  safariIphone:
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Mobile/15E148 Safari/604.1",
+  firefoxAndroidTablet:
+    "Mozilla/5.0 (Android 14; Tablet; rv:131.0) Gecko/131.0 Firefox/131.0",
+  chromeAndroidPhone:
+    "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Mobile Safari/537.36",
+  googlebot:
+    "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+};
+
+const headers = (ua: string, extra: Record<string, string> = {}) =>
+  new Headers({ "user-agent": ua, ...extra });
+
+describe("parseUserAgent", () => {
+  it.each([
+    ["chromeMac", "Chrome", "desktop"],
+    ["edgeWindows", "Edge", "desktop"],
+    ["safariIphone", "Safari", "mobile"],
+    ["firefoxAndroidTablet", "Firefox", "tablet"],
+    ["chromeAndroidPhone", "Chrome", "mobile"],
+    ["googlebot", "Other", "bot"],
+  ] as const)("%s is %s on %s", (name, browser, deviceType) => {
+    expect(parseUserAgent(headers(UA[name]))).toEqual({ browser, deviceType });
+  });
+
+  it("counts the mobile client hint as mobile", () => {
+    expect(
+      parseUserAgent(headers(UA.chromeMac, { "sec-ch-ua-mobile": "?1" }))
+        .deviceType
+    ).toBe("mobile");
+  });
+
+  it("falls back to Other on desktop without a user agent", () => {
+    expect(parseUserAgent(new Headers())).toEqual({
+      browser: "Other",
+      deviceType: "desktop",
+    });
+  });
+});
+
+const ts = "2026-10-05T10:00:00.000Z";
+const touch = (payload: Record<string, unknown>) =>
+  touchFromPageview({ payload, ts });
+
+describe("touchFromPageview", () => {
+  it("is a direct visit without a referrer or UTM parameters", () => {
+    expect(touch({ path: "/pricing" })).toEqual({
+      source: "direct",
+      medium: "none",
+      campaign: null,
+      term: null,
+      content: null,
+      referrerDomain: null,
+      landingPath: "/pricing",
+      at: ts,
+    });
+  });
+
+  it("classifies search engines and social networks by referrer", () => {
+    expect(touch({ referrer: "www.google.co.uk" })).toMatchObject({
+      source: "google",
+      medium: "organic",
+      referrerDomain: "google.co.uk",
+    });
+    expect(touch({ referrer: "m.facebook.com" })).toMatchObject({
+      source: "facebook",
+      medium: "social",
+    });
+    expect(touch({ referrer: "news.ycombinator.com" })).toMatchObject({
+      source: "news.ycombinator.com",
+      medium: "referral",
+    });
+  });
+
+  it("lets UTM parameters win over the referrer", () => {
+    expect(
+      touch({
+        referrer: "google.com",
+        utm: { utm_source: "Newsletter", utm_medium: "Email", utm_campaign: "oct" },
+      })
+    ).toMatchObject({
+      source: "newsletter",
+      medium: "email",
+      campaign: "oct",
+      referrerDomain: "google.com",
+    });
+  });
+
+  it("ignores referrers that aren't hostnames and non-string UTM values", () => {
+    expect(
+      touch({ referrer: "https://evil.example/path", utm: { utm_source: 42 } })
+    ).toMatchObject({ source: "direct", medium: "none", referrerDomain: null });
+  });
+
+  it("defaults the landing path to /", () => {
+    expect(touch({}).landingPath).toBe("/");
+  });
+});
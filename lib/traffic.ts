@@ -0,0 +1,221 @@
+// lib/traffic.ts
+// Where visitors come from. The pageview carries the external referrer's
+// host and any UTM parameters (hooks/useAnalytics.ts; lib/embed.ts mirrors
+// it in plain JS); /api/analytics turns them into a source/medium touch and
+// adds the browser family and device type parsed from the request headers.
+// Firestore-free so the client bundle can import it.
+import type { AnalyticsEvent } from "@/lib/events";
+import type { DeviceClass } from "@/lib/heatmap";
+
+export const UTM_PARAMS = [
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "utm_term",
+  "utm_content",
+] as const;
+
+export type UtmParam = (typeof UTM_PARAMS)[number];
+
+/** A visit's source, as GA reports it: "google / organic", "direct / none". */
+export type TrafficTouch = {
+  source: string;
+  medium: string;
+  campaign: string | null;
+  term: string | null;
+  content: string | null;
+  /** Host of the external page that linked here, without "www.". */
+  referrerDomain: string | null;
+  landingPath: string;
+  at: string;
+};
+
+export const DIRECT_SOURCE = "direct";
+export const NO_MEDIUM = "none";
+
+export const MAX_VALUE_LENGTH = 100;
+
+/**
+ * Browser only: the pageview fields the server derives the touch from. The
+ * referrer is left out for in-site navigation and reduced to its host, so
+ * paths and query strings of other sites are never stored.
+ */
+export function pageviewSource(): {
+  referrer?: string;
+  utm?: Partial<Record<UtmParam, string>>;
+} {
+  const result: ReturnType<typeof pageviewSource> = {};
+  try {
+    const referrer = new URL(document.referrer);
+    if (referrer.host !== window.location.host) {
+      result.referrer = referrer.hostname;
+    }
+  } catch {
+    // no referrer, or not a URL
+  }
+
+  const params = new URLSearchParams(window.location.search);
+  const utm: Partial<Record<UtmParam, string>> = {};
+  for (const key of UTM_PARAMS) {
+    const value = params.get(key);
+    if (value) utm[key] = value.slice(0, MAX_VALUE_LENGTH);
+  }
+  if (Object.keys(utm).length > 0) result.utm = utm;
+  return result;
+}
+
+/* ---------- server side ---------- */
+
+// matched against the host's labels, so "google.co.uk" and
+// "news.google.com" are both google
+const SEARCH_ENGINES = [
+  "google",
+  "bing",
+  "duckduckgo",
+  "yahoo",
+  "baidu",
+  "yandex",
+  "ecosia",
+];
+const SOCIAL_NETWORKS: Record<string, string> = {
+  "facebook.com": "facebook",
+  "instagram.com": "instagram",
+  "linkedin.com": "linkedin",
+  "lnkd.in": "linkedin",
+  "twitter.com": "x",
+  "x.com": "x",
+  "t.co": "x",
+  "reddit.com": "reddit",
+  "youtube.com": "youtube",
+  "tiktok.com": "tiktok",
+  "pinterest.com": "pinterest",
+};
+
+function cleanValue(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim().slice(0, MAX_VALUE_LENGTH);
+  return trimmed || null;
+}
+
+export function referrerDomain(value: unknown): string | null {
+  const host = cleanValue(value)?.toLowerCase();
+  if (!host || !/^[a-z0-9.-]+$/.test(host)) return null;
+  return host.replace(/^www\./, "");
+}
+
+function classifyReferrer(domain: string): { source: string; medium: string } {
+  const labels = domain.split(".");
+  const engine = SEARCH_ENGINES.find((name) => labels.includes(name));
+  if (engine) return { source: engine, medium: "organic" };
+
+  const network = Object.keys(SOCIAL_NETWORKS).find(
+    (host) => domain === host || domain.endsWith(`.${host}`)
+  );
+  if (network) return { source: SOCIAL_NETWORKS[network], medium: "social" };
+
+  return { source: domain, medium: "referral" };
+}
+
+/**
+ * The touch a pageview records. UTM parameters win over the referrer; with
+ * neither it's a direct visit.
+ */
+export function touchFromPageview(
+  e: Pick<AnalyticsEvent, "payload" | "ts">
+): TrafficTouch {
+  const p = e.payload;
+  const utm = typeof p.utm === "object" && p.utm !== null ? p.utm : {};
+  const param = (key: UtmParam) =>
+    cleanValue((utm as Record<string, unknown>)[key]);
+  const domain = referrerDomain(p.referrer);
+  const fromReferrer = domain
+    ? classifyReferrer(domain)
+    : { source: DIRECT_SOURCE, medium: NO_MEDIUM };
+
+  return {
+    source: param("utm_source")?.toLowerCase() ?? fromReferrer.source,
+    medium: param("utm_medium")?.toLowerCase() ?? fromReferrer.medium,
+    campaign: param("utm_campaign"),
+    term: param("utm_term"),
+    content: param("utm_content"),
+    referrerDomain: domain,
+    landingPath: cleanValue(p.path) ?? "/",
+    at: e.ts,
+  };
+}
+
+/** No referrer and no UTM parameters. */
+export const isDirect = (touch: TrafficTouch) =>
+  touch.source === DIRECT_SOURCE && touch.medium === NO_MEDIUM;
+
+export function isTrafficTouch(value: unknown): value is TrafficTouch {
+  const touch = value as TrafficTouch | null;
+  return (
+    typeof touch === "object" &&
+    touch !== null &&
+    typeof touch.source === "string" &&
+    typeof touch.medium === "string"
+  );
+}
+
+export type UserAgentDevice = DeviceClass | "bot";
+
+export type ClientInfo = {
+  browser: string;
+  deviceType: UserAgentDevice;
+};
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\/|Chromium\//, "Chrome"],
+  [/Version\/[\d.]+.*Safari\//, "Safari"],
+];
+
+/**
+ * Browser family and device type from the request headers, counting the
+ * Sec-CH-UA-Mobile client hint as mobile. Order matters in BROWSERS: Edge
+ * and Opera also claim to be Chrome, and Chrome claims to be Safari.
+ */
+export function parseUserAgent(headers: Headers): ClientInfo {
+  const ua = headers.get("user-agent") ?? "";
+  const browser =
+    BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] ?? "Other";
+
+  let deviceType: UserAgentDevice;
+  if (/bot|crawl|spider|slurp|headless/i.test(ua)) {
+    deviceType = "bot";
+  } else if (/iPad|Tablet|Android(?!.*Mobile)/i.test(ua)) {
+    deviceType = "tablet";
+  } else if (
+    headers.get("sec-ch-ua-mobile") === "?1" ||
+    /Mobi|iPhone|iPod|Windows Phone/i.test(ua)
+  ) {
+    deviceType = "mobile";
+  } else {
+    deviceType = "desktop";
+  }
+
+  return { browser, deviceType };
+}
+
+/**
+ * Stamps pageviews with their touch and the client info, dropping the raw
+ * referrer and UTM fields they were derived from. Other events pass through.
+ */
+export function withTraffic<T extends AnalyticsEvent>(
+  e: T,
+  client: ClientInfo
+): T {
+  if (e.eventType !== "pageview") return e;
+  const payload: Record<string, unknown> = {
+    ...e.payload,
+    source: touchFromPageview(e),
+    ...client,
+  };
+  delete payload.referrer;
+  delete payload.utm;
+  return { ...e, payload };
+}
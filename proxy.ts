@@ -0,0 +1,50 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { VISITOR_COOKIE, VISITOR_COOKIE_MAX_AGE } from "@/lib/identity";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+import { isDocId } from "@/lib/site-id";
+
+// Two jobs:
+// - The home page is rendered per visitor on the server, so make sure the
+//   request already carries a valid visitor ID cookie on the very first
+//   visit (lib/identity.ts adopts it in the browser).
+// - Send signed-out visitors of operator pages to /login. This only checks
+//   the cookie's signature; roles are enforced by the API routes themselves.
+export function proxy(request: NextRequest) {
+  if (!request.nextUrl.pathname.startsWith("/dashboard")) {
+    return withVisitorCookie(request);
+  }
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (verifySessionToken(token)) return NextResponse.next();
+
+  const login = new URL("/login", request.url);
+  login.searchParams.set(
+    "next",
+    request.nextUrl.pathname + request.nextUrl.search
+  );
+  return NextResponse.redirect(login);
+}
+
+function withVisitorCookie(request: NextRequest) {
+  // a tampered or malformed ID is replaced, since it keys Firestore docs
+  if (isDocId(request.cookies.get(VISITOR_COOKIE)?.value)) {
+    return NextResponse.next();
+  }
+
+  const visitorId = crypto.randomUUID();
+  // visible to this render as well as stored for the next one
+  request.cookies.set(VISITOR_COOKIE, visitorId);
+  const response = NextResponse.next({
+    request: { headers: request.headers },
+  });
+  response.cookies.set(VISITOR_COOKIE, visitorId, {
+    path: "/",
+    maxAge: VISITOR_COOKIE_MAX_AGE,
+    sameSite: "lax",
+  });
+  return response;
+}
+
+export const config = {
+  matcher: ["/", "/dashboard/:path*"],
+};